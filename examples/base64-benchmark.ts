@@ -0,0 +1,51 @@
+/**
+ * Benchmark of the base64 codec used for streamed audio
+ *
+ * Run with: bun examples/base64-benchmark.ts
+ */
+
+import {
+  decodeBase64,
+  decodeBase64Chunked,
+  encodeBase64,
+  encodeBase64Chunked,
+} from "../src/utils/base64";
+
+const SIZES = [3840, 96_000, 1024 * 1024, 8 * 1024 * 1024];
+
+function bench(label: string, iterations: number, fn: () => void): void {
+  fn(); // warm up
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    fn();
+  }
+  const elapsed = (performance.now() - start) / iterations;
+  console.log(`   ${label.padEnd(28)} ${elapsed.toFixed(3)} ms/op`);
+}
+
+/** The previous implementation, kept for comparison */
+function encodeSpread(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function decodeAtob(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+for (const size of SIZES) {
+  const bytes = Uint8Array.from({ length: size }, (_, i) => i % 256);
+  const encoded = encodeBase64(bytes);
+  const iterations = Math.max(3, Math.floor(10_000_000 / size));
+
+  console.log(`\n${(size / 1024).toFixed(0)} KiB (${iterations} iterations)`);
+  bench("encodeBase64", iterations, () => encodeBase64(bytes));
+  bench("encodeBase64Chunked", iterations, () => encodeBase64Chunked(bytes));
+  try {
+    bench("btoa + spread (old)", iterations, () => encodeSpread(bytes));
+  } catch (error) {
+    console.log(`   ${"btoa + spread (old)".padEnd(28)} ${error}`);
+  }
+  bench("decodeBase64", iterations, () => decodeBase64(encoded));
+  bench("decodeBase64Chunked", iterations, () => decodeBase64Chunked(encoded));
+  bench("atob + charCodeAt (old)", iterations, () => decodeAtob(encoded));
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import { getAudioDuration, getAudioFormatInfo } from "../../audio/formats";
+import { encodeWav } from "../../audio/wav";
+
+describe("audio formats", () => {
+  describe("getAudioFormatInfo", () => {
+    it("should describe PCM formats", () => {
+      expect(getAudioFormatInfo("pcm")).toEqual({
+        sample_rate: 48_000,
+        encoding: "pcm_s16le",
+        bit_depth: 16,
+        channels: 1,
+        container: null,
+      });
+      expect(getAudioFormatInfo("pcm_16000").sample_rate).toBe(16_000);
+      expect(getAudioFormatInfo("pcm_24000").sample_rate).toBe(24_000);
+    });
+
+    it("should describe telephony formats", () => {
+      expect(getAudioFormatInfo("ulaw_8000")).toMatchObject({
+        sample_rate: 8000,
+        encoding: "mulaw",
+        bit_depth: 8,
+      });
+      expect(getAudioFormatInfo("alaw_8000")).toMatchObject({
+        sample_rate: 8000,
+        encoding: "alaw",
+        bit_depth: 8,
+      });
+    });
+
+    it("should describe containers", () => {
+      expect(getAudioFormatInfo("wav").container).toBe("wav");
+      expect(getAudioFormatInfo("opus")).toMatchObject({
+        encoding: "opus",
+        bit_depth: null,
+        container: "ogg",
+      });
+    });
+  });
+
+  describe("getAudioDuration", () => {
+    it("should compute PCM duration", () => {
+      expect(getAudioDuration(new Uint8Array(32_000), "pcm_16000")).toBe(1);
+      expect(getAudioDuration(new Uint8Array(48_000), "pcm_24000")).toBe(1);
+    });
+
+    it("should compute G.711 duration", () => {
+      expect(getAudioDuration(new Uint8Array(4000), "ulaw_8000")).toBe(0.5);
+    });
+
+    it("should read the WAV header", () => {
+      const wav = encodeWav(new Uint8Array(32_000), { sample_rate: 16_000 });
+      expect(getAudioDuration(wav, "wav")).toBe(1);
+    });
+
+    it("should return null for opus", () => {
+      expect(getAudioDuration(new Uint8Array(100), "opus")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+import {
+  decodeALaw,
+  decodeMuLaw,
+  encodeALaw,
+  encodeMuLaw,
+} from "../../audio/g711";
+
+describe("G.711 µ-law", () => {
+  it("should encode reference values", () => {
+    const samples = new Int16Array([0, -1, 32_767, -32_768]);
+    expect(Array.from(encodeMuLaw(samples))).toEqual([0xff, 0x7f, 0x80, 0x00]);
+  });
+
+  it("should decode reference values", () => {
+    const bytes = new Uint8Array([0xff, 0x7f, 0x80, 0x00]);
+    expect(Array.from(decodeMuLaw(bytes))).toEqual([0, 0, 32_124, -32_124]);
+  });
+
+  it("should be stable across a decode/encode round trip", () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const reencoded = encodeMuLaw(decodeMuLaw(bytes));
+    // 0x7f and 0xff both decode to zero, which encodes as 0xff
+    expect(Array.from(reencoded)).toEqual(
+      Array.from(bytes, (b) => (b === 0x7f ? 0xff : b))
+    );
+  });
+
+  it("should keep quantization error within the segment step", () => {
+    for (const sample of [100, -100, 1000, -1000, 10_000, -10_000]) {
+      const decoded = decodeMuLaw(encodeMuLaw(new Int16Array([sample])))[0];
+      expect(Math.abs(decoded - sample)).toBeLessThanOrEqual(
+        Math.abs(sample) / 16
+      );
+    }
+  });
+});
+
+describe("G.711 A-law", () => {
+  it("should encode reference values", () => {
+    const samples = new Int16Array([0, -1, 32_767, -32_768]);
+    expect(Array.from(encodeALaw(samples))).toEqual([0xd5, 0x55, 0xaa, 0x2a]);
+  });
+
+  it("should decode reference values", () => {
+    const bytes = new Uint8Array([0xd5, 0x55, 0xaa, 0x2a]);
+    expect(Array.from(decodeALaw(bytes))).toEqual([8, -8, 32_256, -32_256]);
+  });
+
+  it("should be stable across a decode/encode round trip", () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(encodeALaw(decodeALaw(bytes))).toEqual(bytes);
+  });
+
+  it("should keep quantization error within the segment step", () => {
+    for (const sample of [100, -100, 1000, -1000, 10_000, -10_000]) {
+      const decoded = decodeALaw(encodeALaw(new Int16Array([sample])))[0];
+      expect(Math.abs(decoded - sample)).toBeLessThanOrEqual(
+        Math.max(16, Math.abs(sample) / 16)
+      );
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "bun:test";
+import { bytesToSamples, concatBytes, samplesToBytes } from "../../audio/pcm";
+
+describe("PCM helpers", () => {
+  it("should decode little-endian 16-bit samples", () => {
+    const bytes = new Uint8Array([0x01, 0x00, 0xff, 0xff, 0x00, 0x80]);
+    expect(Array.from(bytesToSamples(bytes))).toEqual([1, -1, -32_768]);
+  });
+
+  it("should decode from unaligned views", () => {
+    const buffer = new Uint8Array([0, 0x02, 0x00, 0x03, 0x00]);
+    expect(Array.from(bytesToSamples(buffer.subarray(1)))).toEqual([2, 3]);
+  });
+
+  it("should ignore a trailing odd byte", () => {
+    expect(bytesToSamples(new Uint8Array([1, 0, 5])).length).toBe(1);
+  });
+
+  it("should round-trip samples", () => {
+    const samples = new Int16Array([0, 1000, -1000, 32_767]);
+    expect(bytesToSamples(samplesToBytes(samples))).toEqual(samples);
+  });
+
+  it("should concatenate chunks", () => {
+    expect(
+      concatBytes([
+        new Uint8Array([1, 2]),
+        new Uint8Array([]),
+        new Uint8Array([3]),
+      ])
+    ).toEqual(new Uint8Array([1, 2, 3]));
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "bun:test";
+import { bytesToSamples, samplesToBytes } from "../../audio/pcm";
+import {
+  downmix,
+  PCMConverter,
+  Resampler,
+  resample,
+} from "../../audio/resample";
+
+function ramp(length: number, step = 10): Int16Array {
+  return Int16Array.from({ length }, (_, i) => i * step);
+}
+
+/** One second of a sine tone */
+function tone(frequency: number, rate: number): Int16Array {
+  return Int16Array.from({ length: rate }, (_, i) =>
+    Math.round(16_000 * Math.sin((2 * Math.PI * frequency * i) / rate))
+  );
+}
+
+/** Root mean square level, leaving out the filter's edges */
+function rms(samples: Int16Array): number {
+  const middle = samples.subarray(100, -100);
+  const power = middle.reduce((sum, sample) => sum + sample * sample, 0);
+  return Math.sqrt(power / middle.length);
+}
+
+describe("resampling", () => {
+  describe("resample", () => {
+    it("should return the input when rates match", () => {
+      const samples = ramp(10);
+      expect(resample(samples, 24_000, 24_000)).toBe(samples);
+    });
+
+    it("should upsample with linear interpolation", () => {
+      const result = resample(new Int16Array([0, 30, 60]), 8000, 24_000);
+      expect(Array.from(result)).toEqual([0, 10, 20, 30, 40, 50, 60]);
+    });
+
+    it("should keep tones below the output Nyquist frequency", () => {
+      const input = tone(1000, 48_000);
+      const result = resample(input, 48_000, 24_000);
+      expect(result).toHaveLength(24_000);
+      expect(rms(result) / rms(input)).toBeCloseTo(1, 2);
+    });
+
+    it("should filter tones above the output Nyquist frequency", () => {
+      const input = tone(18_000, 48_000);
+      expect(rms(resample(input, 48_000, 24_000))).toBeLessThan(
+        rms(input) * 0.01
+      );
+      expect(rms(resample(tone(10_000, 44_100), 44_100, 16_000))).toBeLessThan(
+        rms(input) * 0.01
+      );
+    });
+
+    it("should produce the expected length for common rates", () => {
+      const second = new Int16Array(44_100);
+      expect(resample(second, 44_100, 24_000).length).toBeCloseTo(24_000, -1);
+      expect(resample(new Int16Array(8000), 8000, 24_000).length).toBeCloseTo(
+        24_000,
+        -1
+      );
+    });
+
+    it("should reject invalid rates", () => {
+      expect(() => resample(ramp(4), 0, 24_000)).toThrow(RangeError);
+    });
+  });
+
+  describe("Resampler", () => {
+    it("should match one-shot output when fed in chunks", () => {
+      const input = ramp(1000, 7);
+      const expected = resample(input, 44_100, 24_000);
+
+      const resampler = new Resampler({ from_rate: 44_100, to_rate: 24_000 });
+      const parts: number[] = [];
+      for (let i = 0; i < input.length; i += 37) {
+        parts.push(...resampler.process(input.subarray(i, i + 37)));
+      }
+      parts.push(...resampler.flush());
+
+      // Chunked positions may differ by floating point rounding only
+      expect(parts).toHaveLength(expected.length);
+      const maxError = Math.max(
+        ...parts.map((value, i) => Math.abs(value - expected[i]))
+      );
+      expect(maxError).toBeLessThanOrEqual(1);
+    });
+  });
+
+  describe("downmix", () => {
+    it("should average interleaved channels", () => {
+      const stereo = new Int16Array([100, 300, -200, 200]);
+      expect(Array.from(downmix(stereo, 2))).toEqual([200, 0]);
+    });
+
+    it("should return mono input unchanged", () => {
+      const mono = ramp(4);
+      expect(downmix(mono, 1)).toBe(mono);
+    });
+  });
+
+  describe("PCMConverter", () => {
+    it("should downmix and resample byte chunks with odd sizes", () => {
+      // Stereo 48kHz ramp, identical channels
+      const frames = 960;
+      const stereo = new Int16Array(frames * 2);
+      for (let i = 0; i < frames; i++) {
+        stereo[i * 2] = i;
+        stereo[i * 2 + 1] = i;
+      }
+      const bytes = samplesToBytes(stereo);
+
+      const converter = new PCMConverter({
+        from_rate: 48_000,
+        to_rate: 24_000,
+        channels: 2,
+      });
+      const output: number[] = [];
+      for (let i = 0; i < bytes.length; i += 333) {
+        output.push(
+          ...bytesToSamples(converter.process(bytes.slice(i, i + 333)))
+        );
+      }
+      output.push(...bytesToSamples(converter.flush()));
+
+      expect(output).toHaveLength(480);
+      expect(output.slice(0, 4)).toEqual([0, 2, 4, 6]);
+    });
+  });
+});
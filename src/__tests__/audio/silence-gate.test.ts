@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { concatBytes, samplesToBytes } from "../../audio/pcm";
+import { SilenceGate } from "../../audio/silence-gate";
+
+const RATE = 1000;
+
+/** Tone and silence spans, as [seconds, amplitude] pairs */
+function spans(...parts: [number, number][]): Uint8Array {
+  const samples: number[] = [];
+  for (const [seconds, amplitude] of parts) {
+    for (let i = 0; i < seconds * RATE; i++) {
+      samples.push(i % 2 ? amplitude : -amplitude);
+    }
+  }
+  return samplesToBytes(Int16Array.from(samples));
+}
+
+const options = { max_silence_s: 1, pre_roll_s: 0.2 };
+
+describe("SilenceGate", () => {
+  const audio = spans([0.5, 3000], [3, 0], [0.5, 3000]);
+
+  it("should shorten long silences to the maximum plus the pre-roll", () => {
+    const gate = new SilenceGate(RATE, options);
+    const output = concatBytes([gate.process(audio), gate.flush()]);
+
+    // 0.5s speech + 1s silence + 0.2s pre-roll + 0.5s speech
+    expect(output.length / 2 / RATE).toBeCloseTo(2.2, 6);
+    expect(gate.skippedDuration).toBeCloseTo(1.8, 6);
+    expect(gate.inputDuration).toBeCloseTo(4, 6);
+  });
+
+  it("should map output times back to the input", () => {
+    const gate = new SilenceGate(RATE, options);
+    gate.process(audio);
+
+    expect(gate.toSourceTime(0.5)).toBeCloseTo(0.5, 6);
+    // Start of the pre-roll, then start of the second tone
+    expect(gate.toSourceTime(1.5)).toBeCloseTo(3.3, 6);
+    expect(gate.toSourceTime(1.7)).toBeCloseTo(3.5, 6);
+    expect(gate.toSourceTime(2.2)).toBeCloseTo(4, 6);
+  });
+
+  it("should not depend on chunk boundaries", () => {
+    const whole = new SilenceGate(RATE, options);
+    const expected = concatBytes([whole.process(audio), whole.flush()]);
+
+    const chunked = new SilenceGate(RATE, options);
+    const parts: Uint8Array[] = [];
+    for (let i = 0; i < audio.length; i += 333) {
+      parts.push(chunked.process(audio.subarray(i, i + 333)));
+    }
+    parts.push(chunked.flush());
+
+    expect(concatBytes(parts)).toEqual(expected);
+  });
+
+  it("should keep silences up to the maximum", () => {
+    const gate = new SilenceGate(RATE, options);
+    const short = spans([0.5, 3000], [0.8, 0], [0.5, 3000]);
+
+    expect(concatBytes([gate.process(short), gate.flush()])).toEqual(short);
+    expect(gate.skippedDuration).toBe(0);
+  });
+
+  it("should treat audio under the threshold as silence", () => {
+    // -40 dBFS is about 328
+    const quiet = spans([0.5, 3000], [3, 100], [0.5, 3000]);
+
+    expect(
+      new SilenceGate(RATE, { ...options, threshold_dbfs: -40 }).process(quiet)
+        .length
+    ).toBeLessThan(quiet.length);
+    expect(
+      new SilenceGate(RATE, { ...options, threshold_dbfs: -60 }).process(quiet)
+    ).toEqual(quiet);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { decodeALaw, decodeMuLaw } from "../../audio/g711";
+import { createSilence } from "../../audio/silence";
+import { parseWav } from "../../audio/wav";
+import { GradiumError } from "../../errors";
+
+/** Split an Ogg stream into pages */
+function oggPages(data: Uint8Array) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const pages: { flags: number; granule: number; sequence: number }[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const segments = data.subarray(
+      offset + 27,
+      offset + 27 + data[offset + 26]
+    );
+    pages.push({
+      flags: data[offset + 5],
+      granule: Number(view.getBigUint64(offset + 6, true)),
+      sequence: view.getUint32(offset + 18, true),
+    });
+    offset += 27 + segments.length + segments.reduce((sum, n) => sum + n, 0);
+  }
+  return pages;
+}
+
+describe("createSilence", () => {
+  it("should generate raw PCM and WAV silence", () => {
+    expect(createSilence("pcm_16000", 0.5)).toEqual(new Uint8Array(16_000));
+
+    const wav = createSilence("wav", 0.01);
+    const info = parseWav(wav);
+    expect(info.sample_rate).toBe(48_000);
+    expect(info.data_size).toBe(960);
+    expect(wav.subarray(info.data_offset).every((byte) => byte === 0)).toBe(
+      true
+    );
+  });
+
+  it("should generate G.711 silence", () => {
+    const ulaw = createSilence("ulaw_8000", 0.25);
+    const alaw = createSilence("alaw_8000", 0.25);
+
+    expect(ulaw.length).toBe(2000);
+    expect(decodeMuLaw(ulaw).every((sample) => sample === 0)).toBe(true);
+    expect(alaw.length).toBe(2000);
+    expect(decodeALaw(alaw).every((sample) => Math.abs(sample) <= 8)).toBe(
+      true
+    );
+  });
+
+  it("should generate a complete Ogg Opus stream of whole frames", () => {
+    const opus = createSilence("opus", 6.01);
+    const pages = oggPages(opus);
+
+    expect(new TextDecoder().decode(opus.subarray(28, 36))).toBe("OpusHead");
+    expect(pages.map((page) => page.sequence)).toEqual([0, 1, 2, 3]);
+    expect(pages[0].flags).toBe(0x02);
+    expect(pages.at(-1)?.flags).toBe(0x04);
+    // 301 frames of 20ms
+    expect(pages.at(-1)?.granule).toBe(301 * 960);
+    expect(createSilence("opus", 0)).toEqual(new Uint8Array(0));
+  });
+
+  it("should reject invalid durations", () => {
+    expect(() => createSilence("pcm", -1)).toThrow(GradiumError);
+    expect(() => createSilence("pcm", Number.NaN)).toThrow(GradiumError);
+  });
+});
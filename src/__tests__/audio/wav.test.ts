@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import {
+  createWavHeader,
+  encodeWav,
+  isWav,
+  parseWav,
+  patchWavHeader,
+} from "../../audio/wav";
+import { GradiumError } from "../../errors";
+
+describe("WAV utilities", () => {
+  describe("createWavHeader", () => {
+    it("should create a canonical 44-byte PCM header", () => {
+      const header = createWavHeader({ sample_rate: 24_000 }, 4800);
+      const view = new DataView(header.buffer);
+
+      expect(header.length).toBe(44);
+      expect(new TextDecoder().decode(header.slice(0, 4))).toBe("RIFF");
+      expect(view.getUint32(4, true)).toBe(36 + 4800);
+      expect(view.getUint16(20, true)).toBe(1);
+      expect(view.getUint32(24, true)).toBe(24_000);
+      expect(view.getUint32(28, true)).toBe(48_000);
+      expect(view.getUint16(34, true)).toBe(16);
+      expect(view.getUint32(40, true)).toBe(4800);
+    });
+
+    it("should include a fact chunk for G.711 formats", () => {
+      const header = createWavHeader(
+        { sample_rate: 8000, encoding: "mulaw" },
+        800
+      );
+      expect(header.length).toBe(58);
+      expect(new TextDecoder().decode(header.slice(38, 42))).toBe("fact");
+    });
+  });
+
+  describe("encodeWav / parseWav", () => {
+    it("should round-trip PCM audio", () => {
+      const samples = new Uint8Array([1, 2, 3, 4, 5, 6]);
+      const wav = encodeWav(samples, { sample_rate: 16_000, channels: 2 });
+      const info = parseWav(wav);
+
+      expect(info).toEqual({
+        format_code: 1,
+        encoding: "pcm_s16le",
+        sample_rate: 16_000,
+        channels: 2,
+        bit_depth: 16,
+        block_align: 4,
+        data_offset: 44,
+        data_size: 6,
+      });
+      expect(wav.slice(info.data_offset)).toEqual(samples);
+    });
+
+    it("should round-trip A-law audio", () => {
+      const wav = encodeWav(new Uint8Array(80), {
+        sample_rate: 8000,
+        encoding: "alaw",
+      });
+      const info = parseWav(wav);
+
+      expect(info.encoding).toBe("alaw");
+      expect(info.bit_depth).toBe(8);
+      expect(info.data_offset).toBe(58);
+      expect(info.data_size).toBe(80);
+    });
+
+    it("should skip unknown chunks", () => {
+      const wav = encodeWav(new Uint8Array(4), { sample_rate: 8000 });
+      const list = new Uint8Array([
+        ...new TextEncoder().encode("LIST"),
+        3,
+        0,
+        0,
+        0,
+        1,
+        2,
+        3,
+        0, // padding byte
+      ]);
+      const withList = new Uint8Array([
+        ...wav.slice(0, 36),
+        ...list,
+        ...wav.slice(36),
+      ]);
+
+      const info = parseWav(withList);
+      expect(info.data_offset).toBe(56);
+      expect(info.data_size).toBe(4);
+    });
+
+    it("should tolerate placeholder sizes from streaming encoders", () => {
+      const wav = encodeWav(new Uint8Array(100), { sample_rate: 8000 });
+      new DataView(wav.buffer).setUint32(40, 0xff_ff_ff_ff, true);
+
+      expect(parseWav(wav).data_size).toBe(100);
+    });
+
+    it("should reject non-WAV data", () => {
+      expect(isWav(new Uint8Array(44))).toBe(false);
+      expect(() => parseWav(new Uint8Array(44))).toThrow(GradiumError);
+    });
+  });
+
+  describe("patchWavHeader", () => {
+    it("should fix size fields after streaming", () => {
+      const header = createWavHeader({ sample_rate: 48_000 }, 0);
+      const streamed = new Uint8Array([...header, ...new Uint8Array(960)]);
+
+      const view = new DataView(patchWavHeader(streamed).buffer);
+      expect(view.getUint32(4, true)).toBe(36 + 960);
+      expect(view.getUint32(40, true)).toBe(960);
+    });
+  });
+});
@@ -1,6 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 import { Gradium } from "../client";
-import { AuthenticationError } from "../errors";
+import {
+  AbortError,
+  AuthenticationError,
+  ConnectionError,
+  InternalServerError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+} from "../errors";
+import type { FetchLike } from "../types";
+import {
+  createMockFetch,
+  createMockResponse,
+  setupMockFetch,
+} from "./mocks/fetch";
+import {
+  createMockWebSocketConstructor,
+  MockWebSocket,
+} from "./mocks/websocket";
 
 describe("Gradium Client", () => {
   const originalEnv = process.env.GRADIUM_API_KEY;
@@ -100,6 +118,245 @@ describe("Gradium Client", () => {
     });
   });
 
+  describe("transports", () => {
+    it("should route REST calls through a custom fetch", async () => {
+      const mockFetch = createMockFetch({ status: 200, body: [] });
+      const client = new Gradium({ apiKey: "test-key", fetch: mockFetch });
+
+      await client.voices.list();
+
+      expect(mockFetch.calls).toHaveLength(1);
+      expect(mockFetch.calls[0].url).toBe(
+        "https://eu.api.gradium.ai/api/voices/"
+      );
+    });
+
+    it("should open WebSockets with a custom constructor", () => {
+      MockWebSocket.clearInstances();
+      const client = new Gradium({
+        apiKey: "test-key",
+        WebSocket: createMockWebSocketConstructor(),
+      });
+
+      client.tts.stream({ voice_id: "test-voice", output_format: "pcm" });
+
+      const mockWs = MockWebSocket.getLastInstance();
+      expect(mockWs?.url).toBe("wss://eu.api.gradium.ai/api/speech/tts");
+    });
+
+    it("should pass the API key header to the WebSocket constructor", () => {
+      let receivedOptions: unknown;
+      const BaseWebSocket = createMockWebSocketConstructor();
+      const client = new Gradium({
+        apiKey: "test-key",
+        WebSocket: class extends BaseWebSocket {
+          constructor(url: string, options?: unknown) {
+            super(url, options);
+            receivedOptions = options;
+          }
+        },
+      });
+
+      client.createWebSocket("wss://test");
+
+      expect(receivedOptions).toEqual({ headers: { "x-api-key": "test-key" } });
+    });
+  });
+
+  describe("retries", () => {
+    it("should retry transient REST failures", async () => {
+      const client = new Gradium({
+        apiKey: "test-key",
+        retry: { baseDelay: 0 },
+        fetch: setupMockFetch([
+          { status: 503, body: { detail: "Unavailable" } },
+          { status: 200, body: { remaining_credits: 10 } },
+        ]),
+      });
+
+      const credits = await client.credits.get();
+      expect(credits.remaining_credits).toBe(10);
+    });
+
+    it("should not retry client errors", async () => {
+      const mockFetch = createMockFetch({ status: 404 });
+      const client = new Gradium({
+        apiKey: "test-key",
+        retry: { baseDelay: 0 },
+        fetch: mockFetch,
+      });
+
+      await expect(client.voices.get("missing")).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+      expect(mockFetch.calls).toHaveLength(1);
+    });
+
+    it("should only retry non-idempotent requests when rate limited", async () => {
+      const audio_file = new Blob([new Uint8Array(4)]);
+      const rateLimited = createMockFetch({ status: 429 });
+      const failing = createMockFetch({ status: 502 });
+      const client = (fetch: FetchLike) =>
+        new Gradium({ apiKey: "test-key", retry: { baseDelay: 0 }, fetch });
+
+      await expect(
+        client(rateLimited).voices.create({ audio_file, name: "Voice" })
+      ).rejects.toBeInstanceOf(RateLimitError);
+      expect(rateLimited.calls).toHaveLength(3);
+
+      await expect(
+        client(failing).voices.create({ audio_file, name: "Voice" })
+      ).rejects.toBeInstanceOf(InternalServerError);
+      expect(failing.calls).toHaveLength(1);
+
+      await expect(
+        client(failing).voices.create(
+          { audio_file, name: "Voice" },
+          { idempotent: true }
+        )
+      ).rejects.toBeInstanceOf(InternalServerError);
+      expect(failing.calls).toHaveLength(4);
+    });
+
+    it("should wrap network failures in ConnectionError", async () => {
+      const client = new Gradium({
+        apiKey: "test-key",
+        retry: false,
+        fetch: async () => {
+          throw new TypeError("fetch failed");
+        },
+      });
+
+      await expect(client.credits.get()).rejects.toBeInstanceOf(
+        ConnectionError
+      );
+    });
+
+    it("should retry WebSocket connection failures", async () => {
+      MockWebSocket.clearInstances();
+      const client = new Gradium({
+        apiKey: "test-key",
+        retry: { baseDelay: 0 },
+        WebSocket: createMockWebSocketConstructor(),
+      });
+
+      const streamPromise = client.stt.stream({ input_format: "pcm" });
+      MockWebSocket.getLastInstance()?.simulateError();
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const secondWs = MockWebSocket.getLastInstance();
+      secondWs?.simulateOpen();
+
+      await streamPromise;
+      expect(secondWs?.getLastSentJSON<object>()).toEqual({
+        type: "setup",
+        input_format: "pcm",
+        model_name: "default",
+      });
+    });
+  });
+
+  describe("timeouts and cancellation", () => {
+    // Fetch that only settles when its signal aborts
+    const hangingFetch = async (
+      _input: string | URL | Request,
+      init?: RequestInit
+    ): Promise<Response> =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () =>
+          reject(init.signal?.reason)
+        );
+      });
+
+    it("should raise TimeoutError when a request exceeds the timeout", async () => {
+      const client = new Gradium({
+        apiKey: "test-key",
+        timeout: 10,
+        retry: false,
+        fetch: hangingFetch,
+      });
+
+      await expect(client.credits.get()).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should time out and abort while reading the response body", async () => {
+      // Headers arrive at once, the body only settles when the signal aborts
+      const stalledBodyFetch = async (
+        _input: string | URL | Request,
+        init?: RequestInit
+      ): Promise<Response> => ({
+        ...createMockResponse(),
+        text: () => hangingFetch("", init).then(() => ""),
+      });
+
+      const client = new Gradium({
+        apiKey: "test-key",
+        timeout: 10,
+        retry: false,
+        fetch: stalledBodyFetch,
+      });
+      await expect(client.credits.get()).rejects.toBeInstanceOf(TimeoutError);
+
+      const controller = new AbortController();
+      const pending = client.voices.list(undefined, {
+        timeout: 60_000,
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 5);
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it("should honor a per-request timeout", async () => {
+      const client = new Gradium({
+        apiKey: "test-key",
+        retry: false,
+        fetch: hangingFetch,
+      });
+
+      await expect(
+        client.voices.list(undefined, { timeout: 10 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should raise AbortError when the signal aborts", async () => {
+      const client = new Gradium({ apiKey: "test-key", fetch: hangingFetch });
+      const controller = new AbortController();
+
+      const pending = client.voices.get("voice-1", {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it("should send extra per-request headers", async () => {
+      const mockFetch = createMockFetch({ status: 200, body: {} });
+      const client = new Gradium({ apiKey: "test-key", fetch: mockFetch });
+
+      await client.credits.get({ headers: { "x-request-id": "abc" } });
+
+      expect(mockFetch.calls[0].init?.headers).toEqual({
+        "x-api-key": "test-key",
+        Accept: "application/json",
+        "x-request-id": "abc",
+      });
+    });
+
+    it("should time out the WebSocket handshake", async () => {
+      const client = new Gradium({
+        apiKey: "test-key",
+        timeout: 10,
+        retry: false,
+        WebSocket: createMockWebSocketConstructor(),
+      });
+
+      await expect(
+        client.tts.stream({ voice_id: "test-voice", output_format: "pcm" })
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+  });
+
   describe("resource initialization", () => {
     it("should initialize all resources", () => {
       const client = new Gradium({ apiKey: "test-key" });
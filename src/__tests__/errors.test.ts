@@ -10,6 +10,7 @@ import {
   RateLimitError,
   TimeoutError,
   ValidationError,
+  WebSocketCloseError,
   WebSocketError,
 } from "../errors";
 import { createMockResponse } from "./mocks/fetch";
@@ -136,6 +137,15 @@ describe("Errors", () => {
     });
   });
 
+  describe("WebSocketCloseError", () => {
+    it("should be a WebSocketError with the close code", () => {
+      const error = new WebSocketCloseError("Connection dropped", 1006);
+      expect(error).toBeInstanceOf(WebSocketError);
+      expect(error.code).toBe(1006);
+      expect(error.name).toBe("WebSocketCloseError");
+    });
+  });
+
   describe("TimeoutError", () => {
     it("should have default message", () => {
       const error = new TimeoutError();
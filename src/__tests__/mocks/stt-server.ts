@@ -0,0 +1,132 @@
+import { decodeBase64 } from "../../utils/base64";
+import { MockWebSocket } from "./websocket";
+
+/**
+ * One session opened against the fake STT server
+ */
+export type FakeSTTSession = {
+  /** Zero-based order in which the session was opened */
+  index: number;
+  /** Parsed setup message */
+  setup?: { input_format: string; model_name: string };
+  /** Decoded audio received so far */
+  audio: Uint8Array[];
+  /** Total bytes of audio received */
+  audioBytes: number;
+  ws: MockWebSocket;
+};
+
+export type FakeSTTServerOptions = {
+  /** Sample rate announced in the ready message (default: 24000) */
+  sample_rate?: number;
+  /** Frame size announced in the ready message (default: 1920) */
+  frame_size?: number;
+  /** Messages sent back when the client ends a session (before end_of_stream) */
+  respond?: (session: FakeSTTSession) => object[];
+  /** Close the session uncleanly instead of answering end_of_stream */
+  drop?: (session: FakeSTTSession) => boolean;
+  /** Close the session uncleanly instead of answering setup */
+  refuse?: (session: FakeSTTSession) => boolean;
+  /** Answer each audio message with a step covering the audio received */
+  acknowledge?: boolean;
+};
+
+/**
+ * Create a WebSocket constructor that behaves like a minimal STT server:
+ * it opens asynchronously, answers setup with ready, records audio and
+ * answers end_of_stream with the scripted messages.
+ */
+export function createFakeSTTServer(options: FakeSTTServerOptions = {}): {
+  WebSocket: typeof MockWebSocket;
+  sessions: FakeSTTSession[];
+} {
+  const sessions: FakeSTTSession[] = [];
+
+  class FakeSTTWebSocket extends MockWebSocket {
+    private readonly session: FakeSTTSession;
+
+    constructor(url: string, wsOptions?: unknown) {
+      super(url, wsOptions);
+      this.session = {
+        index: sessions.length,
+        audio: [],
+        audioBytes: 0,
+        ws: this,
+      };
+      sessions.push(this.session);
+      setTimeout(() => this.simulateOpen(), 0);
+    }
+
+    override send(data: string): void {
+      super.send(data);
+      const message = JSON.parse(data);
+
+      switch (message.type) {
+        case "setup":
+          this.session.setup = message;
+          if (options.refuse?.(this.session)) {
+            setTimeout(() => this.simulateClose(1006, "refused", false), 0);
+            break;
+          }
+          setTimeout(
+            () =>
+              this.simulateMessage({
+                type: "ready",
+                request_id: `req-${this.session.index}`,
+                model_name: "default",
+                sample_rate: options.sample_rate ?? 24_000,
+                frame_size: options.frame_size ?? 1920,
+                delay_in_tokens: 3,
+                text_stream_names: ["primary"],
+              }),
+            0
+          );
+          break;
+        case "audio": {
+          const audio = decodeBase64(message.audio);
+          this.session.audio.push(audio);
+          this.session.audioBytes += audio.length;
+          if (options.acknowledge) {
+            const total =
+              this.session.audioBytes / 2 / (options.sample_rate ?? 24_000);
+            setTimeout(() => this.deliver(step(total)), 0);
+          }
+          break;
+        }
+        case "end_of_stream":
+          setTimeout(() => this.finish(), 0);
+          break;
+      }
+    }
+
+    /** Messages scheduled before the socket closed are never delivered */
+    private deliver(message: object): void {
+      if (this.readyState === MockWebSocket.OPEN) {
+        this.simulateMessage(message);
+      }
+    }
+
+    private finish(): void {
+      if (options.drop?.(this.session)) {
+        this.simulateClose(1006, "dropped", false);
+        return;
+      }
+      for (const message of options.respond?.(this.session) ?? []) {
+        this.simulateMessage(message);
+      }
+      this.simulateMessage({ type: "end_of_stream" });
+    }
+  }
+
+  return { WebSocket: FakeSTTWebSocket, sessions };
+}
+
+function step(total_duration_s: number): object {
+  return {
+    type: "step",
+    vad: [{ horizon_s: 0.5, inactivity_prob: 0 }],
+    step_idx: 0,
+    step_duration_s: 0.08,
+    total_duration_s,
+  };
+}
@@ -0,0 +1,89 @@
+import { encodeBase64 } from "../../utils/base64";
+import { MockWebSocket } from "./websocket";
+
+/**
+ * One session opened against the fake TTS server
+ */
+export type FakeTTSSession = {
+  /** Zero-based order in which the session was opened */
+  index: number;
+  /** Parsed setup message */
+  setup?: { voice_id: string; output_format: string; model_name: string };
+  /** Text received, joined */
+  text: string;
+  ws: MockWebSocket;
+};
+
+export type FakeTTSServerOptions = {
+  /** Audio chunks sent back for a session's text (default: the text as bytes) */
+  synthesize?: (session: FakeTTSSession) => Uint8Array[];
+  /** Close the session uncleanly instead of answering end_of_stream */
+  drop?: (session: FakeTTSSession) => boolean;
+  /** Delay before answering end_of_stream, in milliseconds (default: 0) */
+  delay?: (session: FakeTTSSession) => number;
+};
+
+/**
+ * Create a WebSocket constructor that behaves like a minimal TTS server:
+ * it opens asynchronously, answers setup with ready, records text and
+ * answers end_of_stream with the synthesized audio.
+ */
+export function createFakeTTSServer(options: FakeTTSServerOptions = {}): {
+  WebSocket: typeof MockWebSocket;
+  sessions: FakeTTSSession[];
+} {
+  const sessions: FakeTTSSession[] = [];
+  const encoder = new TextEncoder();
+
+  class FakeTTSWebSocket extends MockWebSocket {
+    private readonly session: FakeTTSSession;
+
+    constructor(url: string, wsOptions?: unknown) {
+      super(url, wsOptions);
+      this.session = { index: sessions.length, text: "", ws: this };
+      sessions.push(this.session);
+      setTimeout(() => this.simulateOpen(), 0);
+    }
+
+    override send(data: string): void {
+      super.send(data);
+      const message = JSON.parse(data);
+
+      switch (message.type) {
+        case "setup":
+          this.session.setup = message;
+          setTimeout(
+            () =>
+              this.simulateMessage({
+                type: "ready",
+                request_id: `req-${this.session.index}`,
+              }),
+            0
+          );
+          break;
+        case "text":
+          this.session.text += message.text;
+          break;
+        case "end_of_stream":
+          setTimeout(() => this.finish(), options.delay?.(this.session) ?? 0);
+          break;
+      }
+    }
+
+    private finish(): void {
+      if (options.drop?.(this.session)) {
+        this.simulateClose(1006, "dropped", false);
+        return;
+      }
+      const chunks = options.synthesize?.(this.session) ?? [
+        encoder.encode(this.session.text),
+      ];
+      for (const chunk of chunks) {
+        this.simulateMessage({ type: "audio", audio: encodeBase64(chunk) });
+      }
+      this.simulateMessage({ type: "end_of_stream" });
+    }
+  }
+
+  return { WebSocket: FakeTTSWebSocket, sessions };
+}
@@ -1,7 +1,17 @@
-import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { decodeMuLaw, encodeMuLaw } from "../../audio/g711";
+import { bytesToSamples, concatBytes, samplesToBytes } from "../../audio/pcm";
+import { encodeWav } from "../../audio/wav";
 import { Gradium } from "../../client";
-import { WebSocketError } from "../../errors";
+import {
+  AbortError,
+  GradiumError,
+  TimeoutError,
+  WebSocketError,
+} from "../../errors";
 import { STTStream } from "../../resources/stt";
+import { decodeBase64 } from "../../utils/base64";
+import { createFakeSTTServer, type FakeSTTSession } from "../mocks/stt-server";
 import {
   createMockWebSocketConstructor,
   MockWebSocket,
@@ -90,6 +100,92 @@ describe("STT Resource", () => {
       expect(decodedAudio).toEqual(audioData);
     });
 
+    it("should send multi-megabyte chunks without overflowing the stack", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any);
+
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 1920,
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      await stream.waitReady();
+
+      const audioData = Uint8Array.from(
+        { length: 4 * 1024 * 1024 },
+        (_, i) => i % 251
+      );
+      stream.sendAudio(audioData);
+
+      const sent = mockWs.getLastSentJSON<{ audio: string }>();
+      expect(decodeBase64(sent?.audio ?? "")).toEqual(audioData);
+    });
+
+    it("should resample and downmix declared source audio", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any, {
+        sample_rate: 8000,
+        channels: 2,
+      });
+
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 1920,
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      await stream.waitReady();
+
+      // Two stereo frames at 8kHz: (0, 0) then (300, 300)
+      stream.sendAudio(samplesToBytes(new Int16Array([0, 0, 300, 300])));
+
+      const sent = mockWs.getLastSentJSON<{ audio: string }>();
+      const samples = bytesToSamples(
+        Uint8Array.from(atob(sent?.audio ?? ""), (c) => c.charCodeAt(0))
+      );
+      expect(Array.from(samples)).toEqual([0, 100, 200]);
+    });
+
+    it("should decode G.711 input and resample it to the server rate", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any, {
+        input_format: "ulaw_8000",
+      });
+
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 1920,
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      await stream.waitReady();
+
+      const ulaw = encodeMuLaw(new Int16Array([0, 3000]));
+      const [first, second] = decodeMuLaw(ulaw);
+      stream.sendAudio(ulaw);
+
+      const sent = mockWs.getLastSentJSON<{ audio: string }>();
+      const samples = bytesToSamples(
+        Uint8Array.from(atob(sent?.audio ?? ""), (c) => c.charCodeAt(0))
+      );
+      const step = (second - first) / 3;
+      expect(Array.from(samples)).toEqual([
+        first,
+        Math.round(first + step),
+        Math.round(first + 2 * step),
+      ]);
+    });
+
     it("should send end of stream", async () => {
       const mockWs = new MockWebSocket("wss://test");
       const stream = new STTStream(mockWs as any);
@@ -199,6 +295,50 @@ describe("STT Resource", () => {
       expect(vadResults[0].step_idx).toBe(0);
     });
 
+    it("should iterate over all messages until end of stream", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any);
+
+      const types: string[] = [];
+      const consume = (async () => {
+        for await (const message of stream.iter()) {
+          types.push(message.type);
+        }
+      })();
+
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 1920,
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      mockWs.simulateMessage({ type: "text", text: "Hello", start_s: 0 });
+      mockWs.simulateMessage({ type: "end_text", stop_s: 0.4 });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      await consume;
+      expect(types).toEqual(["text", "end_text", "end_of_stream"]);
+    });
+
+    it("should throw from iterators on unexpected close", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any);
+
+      const consume = (async () => {
+        for await (const _result of stream.iterText()) {
+          // Consume until failure
+        }
+      })();
+
+      mockWs.simulateMessage({ type: "text", text: "Hello", start_s: 0 });
+      mockWs.simulateClose(1006, "network", false);
+
+      await expect(consume).rejects.toBeInstanceOf(WebSocketError);
+    });
+
     it("should collect all text", async () => {
       const mockWs = new MockWebSocket("wss://test");
       const stream = new STTStream(mockWs as any);
@@ -233,6 +373,149 @@ describe("STT Resource", () => {
       expect(text).toBe("Hello world");
     });
 
+    it("should collect a timed transcript", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any);
+
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 1920,
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      await stream.waitReady();
+
+      mockWs.simulateMessage({ type: "text", text: "Hello", start_s: 0.1 });
+      mockWs.simulateMessage({ type: "end_text", stop_s: 0.4 });
+      mockWs.simulateMessage({
+        type: "step",
+        vad: [
+          { horizon_s: 0.5, inactivity_prob: 0.9 },
+          { horizon_s: 1, inactivity_prob: 0.9 },
+          { horizon_s: 2, inactivity_prob: 0.9 },
+        ],
+        step_idx: 12,
+        step_duration_s: 0.08,
+        total_duration_s: 1,
+      });
+      mockWs.simulateMessage({ type: "text", text: "again", start_s: 1.2 });
+      mockWs.simulateMessage({ type: "end_text", stop_s: 1.5 });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      const transcript = await stream.collectTranscript();
+
+      expect(transcript.text).toBe("Hello again");
+      expect(transcript.segments[0]).toEqual({
+        text: "Hello",
+        start_s: 0.1,
+        stop_s: 0.4,
+        stream_id: null,
+      });
+      expect(transcript.utterances.map((u) => u.text)).toEqual([
+        "Hello",
+        "again",
+      ]);
+      expect(transcript.duration_s).toBe(1.5);
+    });
+
+    it("should yield subtitle cues while the stream is running", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any);
+      const cues = stream.iterCues({ max_chars_per_cue: 5 });
+
+      mockWs.simulateMessage({ type: "text", text: "One", start_s: 0 });
+      mockWs.simulateMessage({ type: "end_text", stop_s: 0.3 });
+      mockWs.simulateMessage({ type: "text", text: "two", start_s: 0.4 });
+      mockWs.simulateMessage({ type: "end_text", stop_s: 0.7 });
+
+      // "two" does not fit in the first cue, which is final once "two" is
+      const first = await cues.next();
+      expect(first.value).toMatchObject({ index: 1, text: "One", stop_s: 0.3 });
+
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      const second = await cues.next();
+      expect(second.value).toMatchObject({ index: 2, text: "two" });
+      expect((await cues.next()).done).toBe(true);
+    });
+
+    it("should emit turn detection events", () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any, {
+        turn_detection: { hangover_s: 0 },
+      });
+      const events: string[] = [];
+      stream.on("speechStart", ({ time_s }) => events.push(`start@${time_s}`));
+      stream.on("speechEnd", ({ time_s }) => events.push(`end@${time_s}`));
+      const onTurnEnd = ({ text }: { text: string }) =>
+        events.push(`turn:${text}`);
+      stream.on("turnEnd", onTurnEnd);
+
+      const step = (total_duration_s: number, inactivity_prob: number) =>
+        mockWs.simulateMessage({
+          type: "step",
+          vad: [0.5, 1, 2].map((horizon_s) => ({ horizon_s, inactivity_prob })),
+          step_idx: 0,
+          step_duration_s: 0.08,
+          total_duration_s,
+        });
+
+      step(0.08, 0.1);
+      mockWs.simulateMessage({ type: "text", text: "Hi", start_s: 0 });
+      step(0.16, 0.9);
+
+      stream.off("turnEnd", onTurnEnd);
+      step(0.24, 0.1);
+      step(0.32, 0.9);
+
+      expect(events).toEqual([
+        "start@0.08",
+        "end@0.16",
+        "turn:Hi",
+        "start@0.24",
+        "end@0.32",
+      ]);
+    });
+
+    it("should report listener errors without failing the stream", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any, {
+        turn_detection: { hangover_s: 0 },
+      });
+      const failure = new Error("listener failed");
+      const errors: unknown[] = [];
+      stream.on("turnEnd", () => {
+        throw failure;
+      });
+      stream.on("listenerError", ({ event, error }) =>
+        errors.push([event, error])
+      );
+
+      for (const [total_duration_s, inactivity_prob] of [
+        [0.08, 0.1],
+        [0.16, 0.9],
+      ]) {
+        mockWs.simulateMessage({
+          type: "step",
+          vad: [0.5, 1, 2].map((horizon_s) => ({ horizon_s, inactivity_prob })),
+          step_idx: 0,
+          step_duration_s: 0.08,
+          total_duration_s,
+        });
+      }
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      expect(errors).toEqual([["turnEnd", failure]]);
+      const types: string[] = [];
+      for await (const message of stream.iter()) {
+        types.push(message.type);
+      }
+      expect(types.at(-1)).toBe("end_of_stream");
+    });
+
     it("should handle error messages", async () => {
       const mockWs = new MockWebSocket("wss://test");
       const stream = new STTStream(mockWs as any);
@@ -258,6 +541,50 @@ describe("STT Resource", () => {
       }
     });
 
+    it("should time out waiting for ready", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any, { timeout: 10 });
+
+      await expect(stream.waitReady()).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should time out collectText when the server goes silent", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any);
+
+      await expect(stream.collectText({ timeout: 10 })).rejects.toBeInstanceOf(
+        TimeoutError
+      );
+    });
+
+    it("should abort and close the stream when the signal aborts", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const controller = new AbortController();
+      const stream = new STTStream(mockWs as any, {
+        signal: controller.signal,
+      });
+
+      const pending = stream.collectText();
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+      expect(mockWs.readyState).toBe(MockWebSocket.CLOSED);
+    });
+
+    it("should remove the abort listener once the stream ends", () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const controller = new AbortController();
+      const removeListener = spyOn(controller.signal, "removeEventListener");
+      new STTStream(mockWs as any, { signal: controller.signal });
+
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      expect(removeListener).toHaveBeenCalledWith(
+        "abort",
+        expect.any(Function)
+      );
+    });
+
     it("should close the WebSocket", () => {
       const mockWs = new MockWebSocket("wss://test");
       const stream = new STTStream(mockWs as any);
@@ -267,6 +594,151 @@ describe("STT Resource", () => {
     });
   });
 
+  describe("STTStream text streams", () => {
+    const readyStream = async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any);
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 1920,
+        delay_in_tokens: 3,
+        text_stream_names: ["fast", "accurate"],
+      });
+      await stream.waitReady();
+
+      mockWs.simulateMessage({ type: "text", text: "helo", start_s: 0 });
+      mockWs.simulateMessage({ type: "end_text", stop_s: 0.4 });
+      mockWs.simulateMessage({
+        type: "text",
+        text: "hello",
+        start_s: 0,
+        stream_id: 1,
+      });
+      mockWs.simulateMessage({ type: "end_text", stop_s: 0.5, stream_id: 1 });
+      mockWs.simulateMessage({
+        type: "text",
+        text: "world",
+        start_s: 0.6,
+        stream_id: 0,
+      });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+      return stream;
+    };
+
+    it("should expose the stream names from the ready message", async () => {
+      const stream = await readyStream();
+      expect(stream.getTextStreamNames()).toEqual(["fast", "accurate"]);
+    });
+
+    it("should iterate a single stream, mapping a missing id to the first", async () => {
+      const texts = async (name: string) => {
+        const stream = await readyStream();
+        const result: string[] = [];
+        for await (const message of stream.iterText(name)) {
+          result.push(message.text);
+        }
+        return result;
+      };
+
+      const fast = await texts("fast");
+      const accurate = await texts("accurate");
+
+      expect(fast).toEqual(["helo", "world"]);
+      expect(accurate).toEqual(["hello"]);
+    });
+
+    it("should collect text of one stream", async () => {
+      const stream = await readyStream();
+      expect(await stream.collectText({ stream: "accurate" })).toBe("hello");
+    });
+
+    it("should collect a transcript per stream", async () => {
+      const stream = await readyStream();
+      const transcripts = await stream.collectTranscripts();
+
+      expect(Object.keys(transcripts)).toEqual(["fast", "accurate"]);
+      expect(transcripts.fast.text).toBe("helo world");
+      expect(transcripts.accurate.segments).toEqual([
+        { text: "hello", start_s: 0, stop_s: 0.5, stream_id: 1 },
+      ]);
+    });
+
+    it("should reject unknown stream names", async () => {
+      const stream = await readyStream();
+      await expect(stream.iterText("other").next()).rejects.toBeInstanceOf(
+        GradiumError
+      );
+    });
+  });
+
+  describe("STTStream pacing", () => {
+    const readyStream = async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new STTStream(mockWs as any, { reframe: true });
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 240, // 10ms
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      await stream.waitReady();
+      return { stream, mockWs };
+    };
+
+    it("should send audio at real-time speed", async () => {
+      const { stream, mockWs } = await readyStream();
+      // 50ms at 24kHz
+      const audio = samplesToBytes(new Int16Array(1200));
+
+      const start = performance.now();
+      await stream.sendAudioPaced(audio, 1);
+      const elapsed = performance.now() - start;
+
+      // Each 10ms piece waits for the previous ones to play
+      expect(mockWs.getSentMessages()).toHaveLength(5);
+      expect(elapsed).toBeGreaterThanOrEqual(40);
+      expect(stream.getSentDuration()).toBeCloseTo(0.05, 3);
+    });
+
+    it("should send faster with a higher pace", async () => {
+      const { stream } = await readyStream();
+      const audio = samplesToBytes(new Int16Array(2400)); // 100ms
+
+      const start = performance.now();
+      await stream.sendAudioPaced(audio, 10);
+
+      expect(performance.now() - start).toBeLessThan(60);
+    });
+
+    it("should stop waiting when the signal aborts", async () => {
+      const { stream } = await readyStream();
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(
+        stream.sendAudioPaced(
+          samplesToBytes(new Int16Array(24_000)),
+          1,
+          controller.signal
+        )
+      ).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it("should reject pacing for container input", async () => {
+      await expect(
+        client.stt.transcribe({ input_format: "wav" }, new Uint8Array(10), {
+          pace: 1,
+        })
+      ).rejects.toBeInstanceOf(GradiumError);
+    });
+  });
+
   describe("STT.stream", () => {
     it("should create an STT stream and send setup message", async () => {
       const streamPromise = client.stt.stream({
@@ -297,6 +769,108 @@ describe("STT Resource", () => {
     });
   });
 
+  describe("STT.stream reframing", () => {
+    const openReadyStream = async (params: { reframe?: boolean } = {}) => {
+      const streamPromise = client.stt.stream({
+        input_format: "pcm",
+        ...params,
+      });
+      const mockWs = MockWebSocket.getLastInstance() as MockWebSocket;
+      mockWs.simulateOpen();
+      const stream = await streamPromise;
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-123",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 4,
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      await stream.waitReady();
+      return { stream, mockWs };
+    };
+
+    const sentFrames = (mockWs: MockWebSocket) =>
+      mockWs
+        .getSentMessages()
+        .map((message) => JSON.parse(message))
+        .filter((message) => message.type === "audio")
+        .map((message) =>
+          Array.from(
+            bytesToSamples(
+              Uint8Array.from(atob(message.audio), (c) => c.charCodeAt(0))
+            )
+          )
+        );
+
+    it("should send frames of exactly frame_size samples", async () => {
+      const { stream, mockWs } = await openReadyStream();
+
+      stream.sendAudio(samplesToBytes(new Int16Array([1, 2, 3])));
+      stream.sendAudio(samplesToBytes(new Int16Array([4, 5, 6, 7, 8, 9])));
+      stream.sendEndOfStream();
+
+      expect(sentFrames(mockWs)).toEqual([
+        [1, 2, 3, 4],
+        [5, 6, 7, 8],
+        [9, 0, 0, 0],
+      ]);
+      expect(mockWs.getLastSentJSON<{ type: string }>()?.type).toBe(
+        "end_of_stream"
+      );
+    });
+
+    it("should forward chunks as-is when reframing is disabled", async () => {
+      const { stream, mockWs } = await openReadyStream({ reframe: false });
+
+      stream.sendAudio(samplesToBytes(new Int16Array([1, 2, 3])));
+      stream.sendEndOfStream();
+
+      expect(sentFrames(mockWs)).toEqual([[1, 2, 3]]);
+    });
+
+    it("should reject reframing for container input", async () => {
+      await expect(
+        client.stt.stream({ input_format: "wav", reframe: true })
+      ).rejects.toBeInstanceOf(GradiumError);
+    });
+  });
+
+  describe("STT.stream with G.711 input", () => {
+    it("should request PCM from the server", async () => {
+      const streamPromise = client.stt.stream({ input_format: "alaw_8000" });
+
+      const mockWs = MockWebSocket.getLastInstance();
+      mockWs?.simulateOpen();
+      await streamPromise;
+
+      expect(
+        mockWs?.getLastSentJSON<{ input_format: string }>()?.input_format
+      ).toBe("pcm");
+    });
+  });
+
+  describe("STT.stream validation", () => {
+    it("should reject source conversion for non-PCM input", async () => {
+      await expect(
+        client.stt.stream({ input_format: "wav", sample_rate: 16_000 })
+      ).rejects.toBeInstanceOf(GradiumError);
+    });
+
+    it("should reject the silence gate for container input", async () => {
+      await expect(
+        client.stt.stream({ input_format: "wav", silence_gate: true })
+      ).rejects.toBeInstanceOf(GradiumError);
+    });
+
+    it("should reject reconnection for container input", async () => {
+      await expect(
+        client.stt.stream({ input_format: "opus", reconnect: true })
+      ).rejects.toBeInstanceOf(GradiumError);
+    });
+  });
+
   describe("STT.transcribe", () => {
     it("should transcribe audio and return text", async () => {
       const audioData = new Uint8Array(4000); // Simulated audio data
@@ -335,5 +909,497 @@ describe("STT Resource", () => {
       const text = await transcribePromise;
       expect(text).toBe("This is a test");
     });
+
+    it("should transcribe multi-megabyte audio", async () => {
+      // 60 seconds of 24kHz 16-bit mono
+      const audioData = Uint8Array.from(
+        { length: 60 * 24_000 * 2 },
+        (_, i) => i % 253
+      );
+
+      const transcribePromise = client.stt.transcribe(
+        { input_format: "pcm" },
+        audioData
+      );
+
+      const mockWs = MockWebSocket.getLastInstance() as MockWebSocket;
+      mockWs.simulateOpen();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      mockWs.simulateMessage({
+        type: "ready",
+        request_id: "req-789",
+        model_name: "default",
+        sample_rate: 24_000,
+        frame_size: 1920,
+        delay_in_tokens: 3,
+        text_stream_names: ["primary"],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      mockWs.simulateMessage({ type: "text", text: "long", start_s: 0 });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      expect(await transcribePromise).toBe("long");
+
+      const frames = mockWs
+        .getSentMessages()
+        .map((message) => JSON.parse(message))
+        .filter((message) => message.type === "audio")
+        .map((message) => decodeBase64(message.audio));
+      expect(frames).toHaveLength(audioData.length / (1920 * 2));
+      expect(concatBytes(frames)).toEqual(audioData);
+    });
+  });
+
+  describe("STT.transcribeLong", () => {
+    const RATE = 24_000;
+
+    /** Tones of increasing amplitude separated by 200ms silences */
+    function recording(): Uint8Array {
+      const spans: [number, number, number][] = [
+        [0, 0.8, 1000],
+        [1, 1.8, 2000],
+        [2, 2.6, 3000],
+      ];
+      const samples = new Int16Array(2.6 * RATE);
+      for (const [from, to, amplitude] of spans) {
+        for (let i = from * RATE; i < to * RATE; i++) {
+          samples[i] = i % 2 ? amplitude : -amplitude;
+        }
+      }
+      return samplesToBytes(samples);
+    }
+
+    /** Name each session after the first amplitude it received */
+    const respond = (session: { audio: Uint8Array[] }) => {
+      const samples = bytesToSamples(concatBytes(session.audio));
+      const amplitude = Math.abs(samples.find((s) => s !== 0) ?? 0);
+      return [
+        { type: "text", text: `amp${amplitude}`, start_s: 0.1 },
+        { type: "end_text", stop_s: 0.3 },
+      ];
+    };
+
+    const options = {
+      max_chunk_duration_s: 1.1,
+      search_window_s: 0.5,
+      silence_window_s: 0.1,
+    };
+
+    it("should split on silence and stitch the chunk transcripts", async () => {
+      const server = createFakeSTTServer({ respond });
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      const progress: number[] = [];
+
+      const transcript = await longClient.stt.transcribeLong(
+        { input_format: "pcm" },
+        recording(),
+        {
+          ...options,
+          concurrency: 2,
+          on_progress: (p) =>
+            progress.push(p.completed_chunks / p.total_chunks),
+        }
+      );
+
+      expect(server.sessions).toHaveLength(3);
+      expect(transcript.text).toBe("amp1000 amp2000 amp3000");
+      expect(transcript.segments.map((s) => s.start_s)).toEqual([
+        0.1,
+        expect.closeTo(1.05, 6),
+        expect.closeTo(2.05, 6),
+      ]);
+      expect(transcript.utterances).toHaveLength(3);
+      expect(transcript.duration_s).toBeCloseTo(2.6, 6);
+      expect(progress).toEqual([1 / 3, 2 / 3, 1]);
+    });
+
+    it("should retry a chunk whose session drops", async () => {
+      const server = createFakeSTTServer({
+        respond,
+        drop: (session) => session.index === 0,
+      });
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+        retry: { baseDelay: 1, maxDelay: 1 },
+      });
+
+      const transcript = await longClient.stt.transcribeLong(
+        { input_format: "pcm" },
+        recording(),
+        { ...options, concurrency: 1 }
+      );
+
+      expect(server.sessions).toHaveLength(4);
+      expect(transcript.text).toBe("amp1000 amp2000 amp3000");
+    });
+
+    it("should fail once chunk retries are exhausted", async () => {
+      const server = createFakeSTTServer({ respond, drop: () => true });
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+        retry: { baseDelay: 1, maxDelay: 1 },
+      });
+
+      await expect(
+        longClient.stt.transcribeLong({ input_format: "pcm" }, recording(), {
+          ...options,
+          concurrency: 1,
+          max_chunk_retries: 1,
+        })
+      ).rejects.toBeInstanceOf(WebSocketError);
+      expect(server.sessions).toHaveLength(2);
+    });
+  });
+
+  describe("STT audio sources", () => {
+    const samples = Uint8Array.from({ length: 1920 * 2 }, (_, i) => i % 251);
+    const respond = () => [{ type: "text", text: "from source", start_s: 0 }];
+
+    it("should transcribe a WAV ReadableStream using its header", async () => {
+      const server = createFakeSTTServer({ respond });
+      const sourceClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      const wav = encodeWav(samples, { sample_rate: 24_000 });
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < wav.length; i += 1000) {
+            controller.enqueue(wav.slice(i, i + 1000));
+          }
+          controller.close();
+        },
+      });
+
+      const text = await sourceClient.stt.transcribe({}, body);
+
+      expect(text).toBe("from source");
+      expect(server.sessions[0]?.setup?.input_format).toBe("pcm");
+      // The header is stripped; only samples reach the server
+      expect(concatBytes(server.sessions[0]?.audio ?? [])).toEqual(samples);
+    });
+
+    it("should stream a Node Readable", async () => {
+      const { Readable } = await import("node:stream");
+      const server = createFakeSTTServer({ respond });
+      const sourceClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const stream = await sourceClient.stt.streamAudio(
+        { input_format: "pcm" },
+        Readable.from([samples.subarray(0, 1000), samples.subarray(1000)])
+      );
+
+      expect(await stream.collectText()).toBe("from source");
+      expect(concatBytes(server.sessions[0]?.audio ?? [])).toEqual(samples);
+    });
+
+    it("should fail the stream when a file path cannot be read", async () => {
+      const server = createFakeSTTServer({ respond });
+      const sourceClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const stream = await sourceClient.stt.streamAudio(
+        { input_format: "pcm" },
+        "/nonexistent/audio.pcm"
+      );
+
+      await expect(stream.collectText()).rejects.toMatchObject({
+        code: "ENOENT",
+      });
+      expect(server.sessions[0]?.ws.readyState).toBe(MockWebSocket.CLOSED);
+    });
+
+    it("should close the session when transcribe cannot read the source", async () => {
+      const server = createFakeSTTServer({ respond });
+      const sourceClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      await expect(
+        sourceClient.stt.transcribe(
+          { input_format: "pcm" },
+          "/nonexistent/audio.pcm"
+        )
+      ).rejects.toMatchObject({ code: "ENOENT" });
+      expect(server.sessions[0]?.ws.readyState).toBe(MockWebSocket.CLOSED);
+    });
+
+    it("should fail the stream when a ReadableStream errors", async () => {
+      const server = createFakeSTTServer({ respond });
+      const sourceClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      const failure = new Error("upload interrupted");
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(samples.subarray(0, 1000));
+        },
+        pull(controller) {
+          controller.error(failure);
+        },
+      });
+
+      const stream = await sourceClient.stt.streamAudio(
+        { input_format: "pcm" },
+        body
+      );
+
+      await expect(stream.collectText()).rejects.toBe(failure);
+      expect(server.sessions[0]?.ws.readyState).toBe(MockWebSocket.CLOSED);
+    });
+  });
+
+  describe("STT.stream silence gate", () => {
+    it("should skip long silences and remap timestamps", async () => {
+      const RATE = 24_000;
+      // 0.5s tone, 3s silence, 0.5s tone
+      const samples = new Int16Array(4 * RATE);
+      for (let i = 0; i < samples.length; i++) {
+        const t = i / RATE;
+        if (t < 0.5 || t >= 3.5) {
+          samples[i] = i % 2 ? 3000 : -3000;
+        }
+      }
+      const server = createFakeSTTServer({
+        // Timestamps of the second tone in the gated audio
+        respond: () => [
+          { type: "text", text: "again", start_s: 1.7 },
+          { type: "end_text", stop_s: 2.2 },
+        ],
+      });
+      const gateClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const stream = await gateClient.stt.stream({
+        input_format: "pcm",
+        silence_gate: { max_silence_s: 1, pre_roll_s: 0.2 },
+      });
+      await stream.waitReady();
+      stream.sendAudio(samplesToBytes(samples));
+      stream.sendEndOfStream();
+      const transcript = await stream.collectTranscript();
+
+      // 2.2s of gated audio, padded to whole frames
+      expect(server.sessions[0]?.audioBytes).toBe(28 * 1920 * 2);
+      expect(stream.getSkippedDuration()).toBeCloseTo(1.8, 6);
+      expect(transcript.segments[0]).toMatchObject({
+        start_s: expect.closeTo(3.5, 6),
+        stop_s: expect.closeTo(4, 6),
+      });
+    });
+  });
+
+  describe("STT.transcribeBatch", () => {
+    /** PCM whose samples all hold the given value */
+    const tone = (value: number) =>
+      samplesToBytes(new Int16Array(1920).fill(value));
+
+    /** Name each session after the value of its first sample */
+    const respond = (session: FakeSTTSession) => {
+      const [value] = bytesToSamples(concatBytes(session.audio));
+      return [
+        { type: "text", text: `tone${value}`, start_s: 0 },
+        { type: "end_text", stop_s: 0.08 },
+      ];
+    };
+
+    it("should report per-item results without stopping on failures", async () => {
+      const server = createFakeSTTServer({
+        respond,
+        // Sessions for the second input always drop
+        drop: (session) => bytesToSamples(concatBytes(session.audio))[0] === 2,
+      });
+      const batchClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+        retry: { baseDelay: 1, maxDelay: 1 },
+      });
+      const progress: [number, number, number | null][] = [];
+
+      const results = await batchClient.stt.transcribeBatch(
+        { input_format: "pcm" },
+        [
+          tone(1),
+          tone(2),
+          new Blob([new Int16Array(1920).fill(3)]),
+          "/nonexistent/audio.pcm",
+        ],
+        {
+          concurrency: 2,
+          max_retries: 1,
+          on_progress: (p) =>
+            progress.push([p.completed_items, p.failed_items, p.total_items]),
+        }
+      );
+
+      expect(results.map((r) => r.index)).toEqual([0, 1, 2, 3]);
+      expect(results.map((r) => r.ok && r.transcript.text)).toEqual([
+        "tone1",
+        false,
+        "tone3",
+        false,
+      ]);
+      expect(results[1]?.ok === false && results[1].error).toBeInstanceOf(
+        WebSocketError
+      );
+      // Two attempts for the dropped item; unreadable inputs open no session
+      expect(server.sessions).toHaveLength(4);
+      expect(progress.at(-1)).toEqual([4, 2, 4]);
+    });
+
+    it("should read inputs from async iterables", async () => {
+      const server = createFakeSTTServer({ respond });
+      const batchClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      async function* inputs() {
+        yield tone(5);
+        yield tone(6);
+      }
+      const totals: (number | null)[] = [];
+
+      const results = await batchClient.stt.transcribeBatch(
+        { input_format: "pcm" },
+        inputs(),
+        { on_progress: (p) => totals.push(p.total_items) }
+      );
+
+      expect(results.map((r) => r.ok && r.transcript.text)).toEqual([
+        "tone5",
+        "tone6",
+      ]);
+      expect(totals).toEqual([null, null]);
+    });
+
+    it("should stop the batch when aborted", async () => {
+      const server = createFakeSTTServer({ respond });
+      const batchClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        batchClient.stt.transcribeBatch({ input_format: "pcm" }, [tone(1)], {
+          signal: controller.signal,
+        })
+      ).rejects.toBeInstanceOf(AbortError);
+    });
+  });
+
+  describe("STT.stream reconnection", () => {
+    const FRAME_BYTES = 1920 * 2;
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    function resilientClient(server: { WebSocket: typeof MockWebSocket }) {
+      return new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+        retry: { baseDelay: 1, maxDelay: 1 },
+      });
+    }
+
+    it("should replay unacknowledged audio and shift timestamps", async () => {
+      const server = createFakeSTTServer({
+        acknowledge: true,
+        respond: (session) =>
+          session.index === 1
+            ? [
+                { type: "text", text: "hello", start_s: 0.02 },
+                { type: "end_text", stop_s: 0.06 },
+                { type: "text", text: "world", start_s: 0.1 },
+                { type: "end_text", stop_s: 0.2 },
+              ]
+            : [],
+      });
+      const stream = await resilientClient(server).stt.stream({
+        input_format: "pcm",
+        reconnect: true,
+      });
+      await stream.waitReady();
+      const events: unknown[] = [];
+      stream.on("reconnecting", ({ attempt }) => events.push({ attempt }));
+      stream.on("reconnected", (event) => events.push(event));
+
+      stream.sendAudio(new Uint8Array(5 * FRAME_BYTES));
+      await tick();
+      const first = server.sessions[0] as FakeSTTSession;
+      first.ws.simulateMessage({ type: "text", text: "hello", start_s: 0.42 });
+      first.ws.simulateMessage({ type: "end_text", stop_s: 0.46 });
+
+      // Dropped before the server acknowledges the last three frames
+      stream.sendAudio(new Uint8Array(3 * FRAME_BYTES));
+      first.ws.simulateClose(1006, "dropped", false);
+      stream.sendEndOfStream();
+
+      const transcript = await stream.collectTranscript();
+
+      expect(server.sessions).toHaveLength(2);
+      expect(server.sessions[1]?.audioBytes).toBe(3 * FRAME_BYTES);
+      expect(events).toEqual([
+        { attempt: 1 },
+        {
+          attempt: 1,
+          resumed_at_s: expect.closeTo(0.4, 6),
+          replayed_duration_s: expect.closeTo(0.24, 6),
+        },
+      ]);
+      expect(transcript.text).toBe("hello world");
+      expect(transcript.segments.map((s) => [s.start_s, s.stop_s])).toEqual([
+        [0.42, 0.46],
+        [expect.closeTo(0.5, 6), expect.closeTo(0.6, 6)],
+      ]);
+    });
+
+    it("should fail once reconnection attempts are exhausted", async () => {
+      const server = createFakeSTTServer({
+        refuse: (session) => session.index > 0,
+      });
+      const stream = await resilientClient(server).stt.stream({
+        input_format: "pcm",
+        reconnect: { max_attempts: 2 },
+      });
+      await stream.waitReady();
+      const attempts: number[] = [];
+      stream.on("reconnecting", ({ attempt }) => attempts.push(attempt));
+
+      stream.sendAudio(new Uint8Array(FRAME_BYTES));
+      server.sessions[0]?.ws.simulateClose(1006, "dropped", false);
+
+      await expect(stream.collectText()).rejects.toBeInstanceOf(WebSocketError);
+      expect(attempts).toEqual([1, 2]);
+      expect(server.sessions).toHaveLength(3);
+    });
+
+    it("should fail on a dropped connection without reconnection", async () => {
+      const server = createFakeSTTServer();
+      const stream = await resilientClient(server).stt.stream({
+        input_format: "pcm",
+      });
+      await stream.waitReady();
+
+      server.sessions[0]?.ws.simulateClose(1006, "dropped", false);
+
+      await expect(stream.collectText()).rejects.toBeInstanceOf(WebSocketError);
+      expect(server.sessions).toHaveLength(1);
+    });
   });
 });
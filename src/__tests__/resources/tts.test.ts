@@ -1,7 +1,12 @@
-import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { encodeWav, parseWav } from "../../audio/wav";
 import { Gradium } from "../../client";
-import { WebSocketError } from "../../errors";
+import { GradiumError, TimeoutError, WebSocketError } from "../../errors";
 import { TTSStream } from "../../resources/tts";
+import { Lexicon } from "../../tts/lexicon";
+import type { TTSSegment } from "../../types";
+import { encodeBase64 } from "../../utils/base64";
+import { createFakeTTSServer } from "../mocks/tts-server";
 import {
   createMockWebSocketConstructor,
   MockWebSocket,
@@ -23,6 +28,20 @@ describe("TTS Resource", () => {
   });
 
   describe("TTSStream", () => {
+    it("should remove the abort listener once the stream ends", () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const controller = new AbortController();
+      const removeListener = spyOn(controller.signal, "removeEventListener");
+      new TTSStream(mockWs as any, { signal: controller.signal });
+
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      expect(removeListener).toHaveBeenCalledWith(
+        "abort",
+        expect.any(Function)
+      );
+    });
+
     it("should handle ready message", async () => {
       const mockWs = new MockWebSocket("wss://test");
       const stream = new TTSStream(mockWs as any);
@@ -117,6 +136,113 @@ describe("TTS Resource", () => {
       expect(result.raw_data).toEqual(new Uint8Array([1, 2, 3, 4, 5, 6]));
     });
 
+    it("should decode multi-megabyte audio messages", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new TTSStream(mockWs as any);
+
+      mockWs.simulateMessage({ type: "ready", request_id: "req-123" });
+
+      const chunk = Uint8Array.from(
+        { length: 3 * 1024 * 1024 },
+        (_, i) => i % 249
+      );
+      mockWs.simulateMessage({ type: "audio", audio: encodeBase64(chunk) });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      const result = await stream.collect();
+      expect(result.raw_data).toEqual(chunk);
+    });
+
+    it("should report metadata matching the output format", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new TTSStream(mockWs as any, {
+        output_format: "ulaw_8000",
+      });
+
+      mockWs.simulateMessage({ type: "ready", request_id: "req-123" });
+      mockWs.simulateMessage({
+        type: "audio",
+        audio: btoa("\u0000".repeat(800)),
+      });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      const result = await stream.collect();
+
+      expect(result.sample_rate).toBe(8000);
+      expect(result.encoding).toBe("mulaw");
+      expect(result.bit_depth).toBe(8);
+      expect(result.channels).toBe(1);
+      expect(result.duration_s).toBe(0.1);
+    });
+
+    it("should wrap raw PCM in a WAV container", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new TTSStream(mockWs as any, {
+        output_format: "pcm_16000",
+      });
+
+      mockWs.simulateMessage({ type: "ready", request_id: "req-123" });
+      mockWs.simulateMessage({ type: "audio", audio: btoa("\u0001\u0002") });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      const result = await stream.collect({ container: "wav" });
+      const info = parseWav(result.raw_data);
+
+      expect(info.sample_rate).toBe(16_000);
+      expect(info.data_size).toBe(2);
+      expect(result.raw_data.slice(info.data_offset)).toEqual(
+        new Uint8Array([1, 2])
+      );
+    });
+
+    it("should patch streamed WAV headers", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new TTSStream(mockWs as any, { output_format: "wav" });
+
+      // Streamed header with placeholder sizes, followed by samples in later chunks
+      const header = new Uint8Array(44);
+      const view = new DataView(header.buffer);
+      header.set(new TextEncoder().encode("RIFF"), 0);
+      view.setUint32(4, 0xff_ff_ff_ff, true);
+      header.set(new TextEncoder().encode("WAVEfmt "), 8);
+      view.setUint32(16, 16, true);
+      view.setUint16(20, 1, true);
+      view.setUint16(22, 1, true);
+      view.setUint32(24, 48_000, true);
+      view.setUint32(28, 96_000, true);
+      view.setUint16(32, 2, true);
+      view.setUint16(34, 16, true);
+      header.set(new TextEncoder().encode("data"), 36);
+      view.setUint32(40, 0xff_ff_ff_ff, true);
+
+      mockWs.simulateMessage({ type: "ready", request_id: "req-123" });
+      mockWs.simulateMessage({
+        type: "audio",
+        audio: btoa(String.fromCharCode(...header)),
+      });
+      mockWs.simulateMessage({
+        type: "audio",
+        audio: btoa("\u0000".repeat(96)),
+      });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      const result = await stream.collect({ container: "wav" });
+      const resultView = new DataView(result.raw_data.buffer);
+
+      expect(resultView.getUint32(4, true)).toBe(36 + 96);
+      expect(resultView.getUint32(40, true)).toBe(96);
+      expect(result.duration_s).toBe(0.001);
+    });
+
+    it("should refuse to wrap opus in WAV", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new TTSStream(mockWs as any, { output_format: "opus" });
+
+      await expect(stream.collect({ container: "wav" })).rejects.toBeInstanceOf(
+        GradiumError
+      );
+    });
+
     it("should be directly iterable with for-await-of", async () => {
       const mockWs = new MockWebSocket("wss://test");
       const stream = new TTSStream(mockWs as any);
@@ -160,6 +286,48 @@ describe("TTS Resource", () => {
       expect(chunks[1]).toEqual(chunk2);
     });
 
+    it("should deliver chunks to multiple independent consumers", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new TTSStream(mockWs as any);
+
+      const consume = async () => {
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of stream) {
+          chunks.push(chunk);
+        }
+        return chunks;
+      };
+      const first = consume();
+      const second = consume();
+
+      mockWs.simulateMessage({ type: "audio", audio: btoa("\u0001\u0002") });
+      mockWs.simulateMessage({ type: "end_of_stream" });
+
+      expect(await first).toEqual([new Uint8Array([1, 2])]);
+      expect(await second).toEqual([new Uint8Array([1, 2])]);
+    });
+
+    it("should throw from the iterator when the stream fails", async () => {
+      const mockWs = new MockWebSocket("wss://test");
+      const stream = new TTSStream(mockWs as any);
+
+      setTimeout(() => {
+        mockWs.simulateMessage({
+          type: "error",
+          message: "Voice not found",
+          code: 404,
+        });
+      }, 5);
+
+      const consume = async () => {
+        for await (const _chunk of stream) {
+          // Consume until failure
+        }
+      };
+
+      await expect(consume()).rejects.toBeInstanceOf(WebSocketError);
+    });
+
     it("should handle error messages", async () => {
       const mockWs = new MockWebSocket("wss://test");
       const stream = new TTSStream(mockWs as any);
@@ -288,5 +456,473 @@ describe("TTS Resource", () => {
       expect(result.request_id).toBe("req-456");
       expect(result.raw_data).toEqual(audioData);
     });
+
+    it("should close the stream when it times out", async () => {
+      const createPromise = client.tts.create(
+        { voice_id: "test-voice", output_format: "wav", text: "Hello" },
+        { timeout: 10 }
+      );
+
+      const mockWs = MockWebSocket.getLastInstance();
+      mockWs?.simulateOpen();
+
+      await expect(createPromise).rejects.toBeInstanceOf(TimeoutError);
+      expect(mockWs?.readyState).toBe(MockWebSocket.CLOSED);
+    });
+  });
+
+  describe("TTS normalization", () => {
+    it("should normalize text sent with create()", async () => {
+      const server = createFakeTTSServer();
+      const normalizingClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      await normalizingClient.tts.create({
+        voice_id: "voice-123",
+        output_format: "pcm",
+        text: "Il roule à 90 km/h.",
+        normalize: { language: "fr" },
+      });
+
+      expect(server.sessions[0].text).toBe(
+        "Il roule à quatre-vingt-dix kilomètres par heure."
+      );
+      expect(server.sessions[0].setup).not.toHaveProperty("normalize");
+    });
+
+    it("should hold back words that may continue in the next text", async () => {
+      const server = createFakeTTSServer();
+      const normalizingClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const stream = await normalizingClient.tts.stream({
+        voice_id: "voice-123",
+        output_format: "pcm",
+        normalize: true,
+      });
+      await stream.waitReady();
+      stream.sendText("Drive at 90");
+      stream.sendText(" km/h today.");
+      stream.sendEndOfStream();
+      await stream.collect();
+
+      const texts = server.sessions[0].ws
+        .getSentMessages()
+        .map((m) => JSON.parse(m))
+        .filter((m) => m.type === "text")
+        .map((m) => m.text);
+      expect(texts).toEqual([
+        "Drive at ",
+        "ninety kilometers per hour ",
+        "today.",
+      ]);
+    });
+
+    it("should reject languages without normalizers", async () => {
+      await expect(
+        client.tts.create({
+          voice_id: "voice-123",
+          output_format: "pcm",
+          text: "Hi",
+          normalize: { language: "xx" },
+        })
+      ).rejects.toThrow(GradiumError);
+      expect(MockWebSocket.getLastInstance()).toBeUndefined();
+    });
+  });
+
+  describe("TTS lexicon", () => {
+    function sentTexts(ws: MockWebSocket): string[] {
+      return ws
+        .getSentMessages()
+        .map((m) => JSON.parse(m))
+        .filter((m) => m.type === "text")
+        .map((m) => m.text);
+    }
+
+    it("should respell words split across streamed pieces", async () => {
+      const server = createFakeTTSServer();
+      const lexiconClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      lexiconClient.tts.lexicon
+        .add("Gradium", "Grey-dee-um")
+        .add("New York", "Noo York");
+
+      async function* pieces() {
+        yield* ["Gra", "dium opens in New", " York ", "soon."];
+      }
+      const stream = await lexiconClient.tts.streamText(
+        { voice_id: "voice-123", output_format: "pcm" },
+        pieces()
+      );
+      await stream.collect();
+
+      expect(server.sessions[0].text).toBe(
+        "Grey-dee-um opens in Noo York soon."
+      );
+      expect(sentTexts(server.sessions[0].ws)).toEqual([
+        "Grey-dee-um opens ",
+        "in ",
+        "Noo York soon.",
+      ]);
+    });
+
+    it("should use the lexicon and language of the setup params", async () => {
+      const server = createFakeTTSServer();
+      const lexiconClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      lexiconClient.tts.lexicon.add("SQL", "sequel");
+      const lexicon = new Lexicon()
+        .add("SQL", "S Q L")
+        .add("SQL", "esse-cu-elle", { language: "fr" });
+
+      await lexiconClient.tts.create({
+        voice_id: "voice-123",
+        output_format: "pcm",
+        text: "SQL en 2 min",
+        language: "fr",
+        lexicon,
+        normalize: true,
+      });
+
+      expect(server.sessions[0].text).toBe("esse-cu-elle en deux minutes");
+    });
+
+    it("should send text as it is without lexicon entries", async () => {
+      const server = createFakeTTSServer();
+      const lexiconClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const stream = await lexiconClient.tts.stream({
+        voice_id: "voice-123",
+        output_format: "pcm",
+      });
+      await stream.waitReady();
+      stream.sendText("Gra");
+      stream.sendText("dium");
+      stream.sendEndOfStream();
+      await stream.collect();
+
+      expect(sentTexts(server.sessions[0].ws)).toEqual(["Gra", "dium"]);
+    });
+  });
+
+  describe("TTS.streamText chunking", () => {
+    async function* tokens() {
+      yield* [
+        "**Sure!**",
+        " Here",
+        " is",
+        " the",
+        " answer,",
+        " in",
+        " short.",
+      ];
+    }
+
+    it("should send phrases instead of tokens", async () => {
+      const server = createFakeTTSServer();
+      const chunkClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const stream = await chunkClient.tts.streamText(
+        { voice_id: "voice-123", output_format: "pcm" },
+        tokens(),
+        { chunking: { min_chunk_chars: 5 } }
+      );
+      const result = await stream.collect();
+
+      const texts = server.sessions[0].ws
+        .getSentMessages()
+        .map((m) => JSON.parse(m))
+        .filter((m) => m.type === "text")
+        .map((m) => m.text);
+      expect(texts).toEqual(["Sure!", " Here is the answer, in short."]);
+      expect(new TextDecoder().decode(result.raw_data)).toBe(
+        "Sure! Here is the answer, in short."
+      );
+    });
+
+    it("should send tokens as they are by default", async () => {
+      const server = createFakeTTSServer();
+      const chunkClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const stream = await chunkClient.tts.streamText(
+        { voice_id: "voice-123", output_format: "pcm" },
+        tokens()
+      );
+      await stream.collect();
+
+      expect(server.sessions[0].text).toBe(
+        "**Sure!** Here is the answer, in short."
+      );
+    });
+
+    it("should reject invalid chunking options before connecting", async () => {
+      const server = createFakeTTSServer();
+      const chunkClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      await expect(
+        chunkClient.tts.streamText(
+          { voice_id: "voice-123", output_format: "pcm" },
+          tokens(),
+          { chunking: { max_wait_ms: 0 } }
+        )
+      ).rejects.toBeInstanceOf(GradiumError);
+      expect(server.sessions).toHaveLength(0);
+    });
+
+    it("should fail the stream when the text source throws", async () => {
+      const server = createFakeTTSServer();
+      const chunkClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      const failure = new Error("model disconnected");
+      async function* failing() {
+        yield "Hello";
+        throw failure;
+      }
+
+      const stream = await chunkClient.tts.streamText(
+        { voice_id: "voice-123", output_format: "pcm" },
+        failing(),
+        { chunking: true }
+      );
+
+      await expect(stream.collect()).rejects.toBe(failure);
+      expect(server.sessions[0].ws.readyState).toBe(MockWebSocket.CLOSED);
+    });
+  });
+
+  describe("TTS.streamLong", () => {
+    const params = {
+      voice_id: "voice-123",
+      output_format: "pcm" as const,
+    };
+    const text =
+      "First sentence here. Second sentence here.\n\nThird sentence here.";
+
+    it("should yield segments in order while synthesizing in parallel", async () => {
+      // Earlier segments finish last
+      const server = createFakeTTSServer({
+        delay: (session) => 30 - session.index * 10,
+      });
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+      const progress: number[] = [];
+
+      const segments: TTSSegment[] = [];
+      for await (const segment of longClient.tts.streamLong(
+        { ...params, text },
+        {
+          max_segment_chars: 25,
+          concurrency: 3,
+          on_progress: (p) => progress.push(p.completed_segments),
+        }
+      )) {
+        segments.push(segment);
+      }
+
+      expect(segments.map((s) => s.index)).toEqual([0, 1, 2]);
+      expect(segments.map((s) => s.text)).toEqual([
+        "First sentence here.",
+        "Second sentence here.",
+        "Third sentence here.",
+      ]);
+      expect(new TextDecoder().decode(segments[1].result.raw_data)).toBe(
+        "Second sentence here."
+      );
+      expect(server.sessions).toHaveLength(3);
+      expect(progress).toEqual([1, 2, 3]);
+    });
+
+    it("should retry a segment whose session drops", async () => {
+      const server = createFakeTTSServer({
+        drop: (session) => session.index === 0,
+      });
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+        retry: { baseDelay: 1, maxDelay: 1 },
+      });
+
+      const segments: TTSSegment[] = [];
+      for await (const segment of longClient.tts.streamLong(
+        { ...params, text: "Only one segment." },
+        { max_segment_retries: 1 }
+      )) {
+        segments.push(segment);
+      }
+
+      expect(server.sessions).toHaveLength(2);
+      expect(segments).toHaveLength(1);
+      expect(segments[0].result.request_id).toBe("req-1");
+    });
+
+    it("should fail once a segment runs out of retries", async () => {
+      const server = createFakeTTSServer({ drop: () => true });
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+        retry: { baseDelay: 1, maxDelay: 1 },
+      });
+
+      const consume = async () => {
+        for await (const _ of longClient.tts.streamLong(
+          { ...params, text: "Only one segment." },
+          { max_segment_retries: 1 }
+        )) {
+          // drain
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(WebSocketError);
+      expect(server.sessions).toHaveLength(2);
+    });
+  });
+
+  describe("TTS.createLong", () => {
+    const text = "One two. Three four. Five six.";
+
+    it("should concatenate PCM segments", async () => {
+      const server = createFakeTTSServer();
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const result = await longClient.tts.createLong(
+        { voice_id: "voice-123", output_format: "pcm", text },
+        { max_segment_chars: 12 }
+      );
+
+      expect(new TextDecoder().decode(result.raw_data)).toBe(
+        "One two.Three four.Five six."
+      );
+      expect(result.request_id).toBe("req-0,req-1,req-2");
+      expect(result.duration_s).toBeCloseTo(result.raw_data.length / 48_000);
+    });
+
+    it("should write a single WAV header", async () => {
+      const format = { sample_rate: 48_000, channels: 1 };
+      const server = createFakeTTSServer({
+        synthesize: () => [encodeWav(new Uint8Array(960), format)],
+      });
+      const longClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const result = await longClient.tts.createLong(
+        { voice_id: "voice-123", output_format: "wav", text },
+        { max_segment_chars: 12 }
+      );
+
+      const info = parseWav(result.raw_data);
+      expect(info.data_size).toBe(960 * 3);
+      expect(result.raw_data.length).toBe(info.data_offset + 960 * 3);
+      expect(result.duration_s).toBeCloseTo(0.03);
+    });
+
+    it("should reject Opus in a WAV container", async () => {
+      await expect(
+        client.tts.createLong(
+          { voice_id: "voice-123", output_format: "opus", text },
+          { container: "wav" }
+        )
+      ).rejects.toThrow(GradiumError);
+    });
+  });
+
+  describe("TTS.createMarkup", () => {
+    const text =
+      'Hi. <break time="10ms"/> <voice id="voice-456">Salut.</voice>';
+
+    it("should synthesize each voice and generate breaks", async () => {
+      const server = createFakeTTSServer();
+      const markupClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const result = await markupClient.tts.createMarkup({
+        voice_id: "voice-123",
+        output_format: "pcm_16000",
+        text,
+      });
+
+      const encoder = new TextEncoder();
+      expect(result.raw_data).toEqual(
+        new Uint8Array([
+          ...encoder.encode("Hi."),
+          ...new Uint8Array(320),
+          ...encoder.encode("Salut."),
+        ])
+      );
+      expect(server.sessions.map((session) => session.setup?.voice_id)).toEqual(
+        ["voice-123", "voice-456"]
+      );
+      expect(result.request_id).toBe("req-0,req-1");
+    });
+
+    it("should write a single WAV header", async () => {
+      const server = createFakeTTSServer({
+        synthesize: () => [
+          encodeWav(new Uint8Array(960), { sample_rate: 48_000, channels: 1 }),
+        ],
+      });
+      const markupClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      const result = await markupClient.tts.createMarkup({
+        voice_id: "voice-123",
+        output_format: "wav",
+        text,
+      });
+
+      const info = parseWav(result.raw_data);
+      expect(info.data_size).toBe(960 * 3);
+      expect(result.duration_s).toBeCloseTo(0.03);
+    });
+
+    it("should reject invalid markup before connecting", async () => {
+      const server = createFakeTTSServer();
+      const markupClient = new Gradium({
+        apiKey: "test-api-key",
+        WebSocket: server.WebSocket,
+      });
+
+      await expect(
+        markupClient.tts.createMarkup({
+          voice_id: "voice-123",
+          output_format: "pcm",
+          text: '<voice id="voice-456">Salut.',
+        })
+      ).rejects.toThrow(GradiumError);
+      expect(server.sessions).toHaveLength(0);
+    });
   });
 });
@@ -1,4 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { Gradium } from "../../client";
 import {
   AuthenticationError,
@@ -153,6 +156,37 @@ describe("Voices Resource", () => {
       expect(options?.body).toBeInstanceOf(FormData);
     });
 
+    it("should read file paths without Bun APIs", async () => {
+      fetchSpy = spyOn(globalThis, "fetch").mockResolvedValue(
+        createMockResponse({
+          status: 200,
+          body: { uid: "new-voice-uid", error: null, was_updated: false },
+        })
+      );
+      // Node has no Bun global: fail if the upload relies on it
+      const bunFile = spyOn(Bun, "file").mockImplementation(() => {
+        throw new ReferenceError("Bun is not defined");
+      });
+      const dir = await mkdtemp(join(tmpdir(), "gradium-"));
+      try {
+        const path = join(dir, "sample.wav");
+        await writeFile(path, new Uint8Array([1, 2, 3]));
+
+        await client.voices.create({ audio_file: path, name: "My Voice" });
+
+        const body = fetchSpy.mock.calls[0][1]?.body as FormData;
+        const file = body.get("audio_file") as File;
+        expect(file.name).toBe("sample.wav");
+        expect(new Uint8Array(await file.arrayBuffer())).toEqual(
+          new Uint8Array([1, 2, 3])
+        );
+        expect(bunFile).not.toHaveBeenCalled();
+      } finally {
+        bunFile.mockRestore();
+        await rm(dir, { recursive: true });
+      }
+    });
+
     it("should handle validation errors", async () => {
       fetchSpy = spyOn(globalThis, "fetch").mockResolvedValue(
         createMockResponse({
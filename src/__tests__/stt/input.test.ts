@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { concatBytes } from "../../audio/pcm";
+import { createWavHeader, encodeWav } from "../../audio/wav";
+import { GradiumError } from "../../errors";
+import { detectSTTInput } from "../../stt/input";
+
+/** Yield the bytes a few at a time, like a slow network stream */
+async function* trickle(bytes: Uint8Array, size = 5) {
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) {
+    parts.push(chunk);
+  }
+  return concatBytes(parts);
+}
+
+describe("detectSTTInput", () => {
+  const samples = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+
+  it("should unwrap PCM WAV streams and take their format", async () => {
+    const wav = encodeWav(samples, { sample_rate: 16_000, channels: 2 });
+    const input = await detectSTTInput({ model_name: "m" }, trickle(wav));
+
+    expect(input.params).toEqual({
+      model_name: "m",
+      input_format: "pcm",
+      sample_rate: 16_000,
+      channels: 2,
+    });
+    expect(await collect(input.chunks)).toEqual(samples);
+  });
+
+  it("should map µ-law WAV files to G.711 input", async () => {
+    const wav = encodeWav(samples, { sample_rate: 8000, encoding: "mulaw" });
+    const input = await detectSTTInput({}, wav);
+
+    expect(input.params.input_format).toBe("ulaw_8000");
+    expect(await collect(input.chunks)).toEqual(samples);
+  });
+
+  it("should send WAV encodings the SDK cannot decode as-is", async () => {
+    const wav = encodeWav(samples, { sample_rate: 16_000 });
+    // 32-bit float
+    new DataView(wav.buffer).setUint16(20, 3, true);
+    new DataView(wav.buffer).setUint16(34, 32, true);
+    const input = await detectSTTInput({}, trickle(wav));
+
+    expect(input.params.input_format).toBe("wav");
+    expect(await collect(input.chunks)).toEqual(wav);
+  });
+
+  it("should send Ogg streams as Opus", async () => {
+    const ogg = concatBytes([new TextEncoder().encode("OggS"), samples]);
+    const input = await detectSTTInput({}, trickle(ogg, 3));
+
+    expect(input.params.input_format).toBe("opus");
+    expect(await collect(input.chunks)).toEqual(ogg);
+  });
+
+  it("should require an input format for other audio", async () => {
+    await expect(
+      detectSTTInput({}, trickle(samples, 3))
+    ).rejects.toBeInstanceOf(GradiumError);
+  });
+
+  it("should reject truncated WAV headers", async () => {
+    const header = createWavHeader({ sample_rate: 16_000 }, 0).subarray(0, 30);
+
+    await expect(detectSTTInput({}, trickle(header))).rejects.toBeInstanceOf(
+      GradiumError
+    );
+  });
+});
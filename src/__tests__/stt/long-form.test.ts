@@ -0,0 +1,146 @@
+import { describe, expect, it } from "bun:test";
+import { encodeMuLaw } from "../../audio/g711";
+import { samplesToBytes } from "../../audio/pcm";
+import { encodeWav } from "../../audio/wav";
+import { GradiumError } from "../../errors";
+import { findSilenceSplits, prepareLongFormSource } from "../../stt/long-form";
+
+const RATE = 1000;
+
+/** Alternating-sign tone, with zeroed ranges given in seconds */
+function speechWithSilences(
+  duration_s: number,
+  silences: [number, number][],
+  channels = 1
+): Int16Array {
+  const frames = duration_s * RATE;
+  const samples = new Int16Array(frames * channels);
+  for (let frame = 0; frame < frames; frame++) {
+    const t = frame / RATE;
+    const silent = silences.some(([from, to]) => t >= from && t < to);
+    for (let c = 0; c < channels; c++) {
+      samples[frame * channels + c] = silent ? 0 : (frame % 2 ? 1 : -1) * 5000;
+    }
+  }
+  return samples;
+}
+
+describe("prepareLongFormSource", () => {
+  it("should describe PCM input with the declared format", () => {
+    const source = prepareLongFormSource(
+      { input_format: "pcm", sample_rate: 16_000, channels: 2 },
+      new Uint8Array(8)
+    );
+    expect(source).toMatchObject({
+      sample_rate: 16_000,
+      channels: 2,
+      block_align: 4,
+    });
+  });
+
+  it("should default PCM to 24kHz and G.711 to 8kHz", () => {
+    const pcm = prepareLongFormSource(
+      { input_format: "pcm" },
+      new Uint8Array()
+    );
+    const ulaw = prepareLongFormSource(
+      { input_format: "ulaw_8000" },
+      new Uint8Array()
+    );
+    expect(pcm.sample_rate).toBe(24_000);
+    expect(ulaw).toMatchObject({ sample_rate: 8000, block_align: 1 });
+  });
+
+  it("should unwrap WAV files into the matching raw format", () => {
+    const pcm = samplesToBytes(new Int16Array([1, 2, 3, 4]));
+    const source = prepareLongFormSource(
+      { input_format: "wav", model_name: "default" },
+      encodeWav(pcm, { sample_rate: 16_000, channels: 2 })
+    );
+
+    expect(source.params).toEqual({
+      input_format: "pcm",
+      model_name: "default",
+      sample_rate: 16_000,
+      channels: 2,
+    });
+    expect(source.data).toEqual(pcm);
+  });
+
+  it("should reject Opus input", () => {
+    expect(() =>
+      prepareLongFormSource({ input_format: "opus" }, new Uint8Array())
+    ).toThrow(GradiumError);
+  });
+});
+
+describe("findSilenceSplits", () => {
+  const split = (samples: Int16Array, channels = 1) =>
+    findSilenceSplits(
+      prepareLongFormSource(
+        { input_format: "pcm", sample_rate: RATE, channels },
+        samplesToBytes(samples)
+      ),
+      { max_chunk_duration_s: 4, search_window_s: 2, silence_window_s: 0.2 }
+    );
+
+  it("should keep short audio in a single chunk", () => {
+    expect(split(speechWithSilences(3, []))).toEqual([0, 3000]);
+  });
+
+  it("should split inside the silence before the chunk limit", () => {
+    const boundaries = split(
+      speechWithSilences(10, [
+        [2.5, 3],
+        [6, 6.4],
+      ])
+    );
+
+    expect(boundaries[0]).toBe(0);
+    expect(boundaries[1]).toBeGreaterThanOrEqual(2500);
+    expect(boundaries[1]).toBeLessThan(3000);
+    expect(boundaries[2]).toBeGreaterThanOrEqual(6000);
+    expect(boundaries[2]).toBeLessThan(6400);
+    expect(boundaries.at(-1)).toBe(10_000);
+  });
+
+  it("should never exceed the maximum chunk length", () => {
+    const boundaries = split(speechWithSilences(13, []));
+    for (let i = 1; i < boundaries.length; i++) {
+      expect(boundaries[i] - boundaries[i - 1]).toBeLessThanOrEqual(4000);
+    }
+    expect(boundaries.at(-1)).toBe(13_000);
+  });
+
+  it("should measure energy across all channels", () => {
+    const samples = speechWithSilences(6, [[2.5, 3]], 2);
+    expect(split(samples, 2)[1]).toBeGreaterThanOrEqual(2500);
+  });
+
+  it("should analyze G.711 input", () => {
+    const source = prepareLongFormSource(
+      { input_format: "ulaw_8000", sample_rate: RATE },
+      encodeMuLaw(speechWithSilences(6, [[3, 3.5]]))
+    );
+    const boundaries = findSilenceSplits(source, {
+      max_chunk_duration_s: 4,
+      search_window_s: 2,
+      silence_window_s: 0.2,
+    });
+    expect(boundaries[1]).toBeGreaterThanOrEqual(3000);
+    expect(boundaries[1]).toBeLessThan(3500);
+  });
+
+  it("should reject a search window longer than the chunk", () => {
+    const source = prepareLongFormSource(
+      { input_format: "pcm" },
+      new Uint8Array()
+    );
+    expect(() =>
+      findSilenceSplits(source, {
+        max_chunk_duration_s: 1,
+        search_window_s: 2,
+      })
+    ).toThrow(GradiumError);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "bun:test";
+import {
+  buildCues,
+  CueBuilder,
+  formatSRTCue,
+  toSRT,
+  toWebVTT,
+  toWordTimings,
+  wrapLines,
+} from "../../stt/subtitles";
+import type { Transcript, TranscriptSegment } from "../../types";
+
+function segment(
+  text: string,
+  start_s: number,
+  stop_s: number
+): TranscriptSegment {
+  return { text, start_s, stop_s, stream_id: null };
+}
+
+function transcriptOf(utterances: TranscriptSegment[][]): Transcript {
+  const segments = utterances.flat();
+  return {
+    text: segments.map((s) => s.text).join(" "),
+    segments,
+    utterances: utterances.map((group) => ({
+      text: group.map((s) => s.text).join(" "),
+      start_s: group[0].start_s,
+      stop_s: group.at(-1)?.stop_s ?? 0,
+      segments: group,
+    })),
+    duration_s: segments.at(-1)?.stop_s ?? 0,
+  };
+}
+
+const transcript = transcriptOf([
+  [segment("Hello", 0.1, 0.5), segment("world.", 0.6, 1.25)],
+  [segment("A", 3, 3.2), segment("<tag>", 3.3, 3.6), segment("&", 3.7, 4)],
+]);
+
+describe("wrapLines", () => {
+  it("should wrap words greedily", () => {
+    expect(wrapLines(["aaa", "bb", "cc", "d"], 6)).toEqual(["aaa bb", "cc d"]);
+  });
+
+  it("should keep an overlong word on its own line", () => {
+    expect(wrapLines(["a", "abcdefgh", "b"], 4)).toEqual([
+      "a",
+      "abcdefgh",
+      "b",
+    ]);
+  });
+});
+
+describe("buildCues", () => {
+  it("should start a new cue for each utterance", () => {
+    const cues = buildCues(transcript);
+
+    expect(
+      cues.map(({ index, start_s, stop_s, text }) => ({
+        index,
+        start_s,
+        stop_s,
+        text,
+      }))
+    ).toEqual([
+      { index: 1, start_s: 0.1, stop_s: 1.25, text: "Hello world." },
+      { index: 2, start_s: 3, stop_s: 4, text: "A <tag> &" },
+    ]);
+  });
+
+  it("should split cues at the character limit", () => {
+    const cues = buildCues(transcript, { max_chars_per_cue: 7 });
+    expect(cues.map((cue) => cue.text)).toEqual([
+      "Hello",
+      "world.",
+      "A <tag>",
+      "&",
+    ]);
+  });
+
+  it("should split cues at the duration limit", () => {
+    const cues = buildCues(transcript, { max_cue_duration_s: 0.7 });
+    expect(cues.map((cue) => cue.text)).toEqual([
+      "Hello",
+      "world.",
+      "A <tag>",
+      "&",
+    ]);
+  });
+
+  it("should wrap lines and respect the line limit", () => {
+    const cues = buildCues(transcript, { max_line_length: 6, max_lines: 2 });
+    expect(cues.map((cue) => cue.text)).toEqual([
+      "Hello\nworld.",
+      "A\n<tag>",
+      "&",
+    ]);
+  });
+});
+
+describe("CueBuilder", () => {
+  it("should emit cues as soon as they are closed", () => {
+    const builder = new CueBuilder({ max_chars_per_cue: 11 });
+
+    expect(builder.push(segment("Hello", 0, 0.5))).toEqual([]);
+    expect(builder.push(segment("world", 0.5, 1))).toEqual([]);
+    const [cue] = builder.push(segment("again", 1, 1.5));
+
+    expect(cue.text).toBe("Hello world");
+    expect(builder.flush().map((c) => c.text)).toEqual(["again"]);
+    expect(builder.flush()).toEqual([]);
+  });
+});
+
+describe("subtitle formats", () => {
+  it("should export SRT", () => {
+    expect(toSRT(transcript)).toBe(
+      "1\n00:00:00,100 --> 00:00:01,250\nHello world.\n\n" +
+        "2\n00:00:03,000 --> 00:00:04,000\nA <tag> &\n\n"
+    );
+  });
+
+  it("should export WebVTT with escaped text", () => {
+    expect(toWebVTT(transcript)).toBe(
+      "WEBVTT\n\n" +
+        "1\n00:00:00.100 --> 00:00:01.250\nHello world.\n\n" +
+        "2\n00:00:03.000 --> 00:00:04.000\nA &lt;tag&gt; &amp;\n\n"
+    );
+  });
+
+  it("should format hours and accept prebuilt cues", () => {
+    const cue = {
+      index: 7,
+      start_s: 3723.4567,
+      stop_s: 3725,
+      text: "Late",
+      segments: [],
+    };
+    expect(formatSRTCue(cue)).toBe(
+      "7\n01:02:03,457 --> 01:02:05,000\nLate\n\n"
+    );
+    expect(toSRT([cue])).toBe(formatSRTCue(cue));
+  });
+
+  it("should export word timings", () => {
+    const timings = toWordTimings(transcript);
+
+    expect(timings.duration_s).toBe(4);
+    expect(timings.words[0]).toEqual({
+      text: "Hello",
+      start_s: 0.1,
+      stop_s: 0.5,
+      stream_id: null,
+      utterance: 0,
+    });
+    expect(timings.words.map((w) => w.utterance)).toEqual([0, 0, 1, 1, 1]);
+    expect(JSON.parse(JSON.stringify(timings))).toEqual(timings);
+  });
+});
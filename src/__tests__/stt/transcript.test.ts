@@ -0,0 +1,188 @@
+import { describe, expect, it } from "bun:test";
+import { stitchTranscripts, TranscriptBuilder } from "../../stt/transcript";
+import type { STTServerMessage } from "../../types";
+
+function step(totalDuration: number, inactivity: number): STTServerMessage {
+  return {
+    type: "step",
+    vad: [0.5, 1, 2].map((horizon_s) => ({
+      horizon_s,
+      inactivity_prob: inactivity,
+    })),
+    step_idx: Math.round(totalDuration / 0.08),
+    step_duration_s: 0.08,
+    total_duration_s: totalDuration,
+  };
+}
+
+function build(messages: STTServerMessage[]) {
+  const builder = new TranscriptBuilder();
+  for (const message of messages) {
+    builder.push(message);
+  }
+  return builder.build();
+}
+
+describe("TranscriptBuilder", () => {
+  it("should pair text and end_text messages into segments", () => {
+    const transcript = build([
+      { type: "text", text: "Hello", start_s: 0.1 },
+      { type: "end_text", stop_s: 0.5 },
+      { type: "text", text: "world", start_s: 0.6 },
+      { type: "end_text", stop_s: 1.0 },
+      step(1.2, 0),
+    ]);
+
+    expect(transcript.text).toBe("Hello world");
+    expect(transcript.segments).toEqual([
+      { text: "Hello", start_s: 0.1, stop_s: 0.5, stream_id: null },
+      { text: "world", start_s: 0.6, stop_s: 1.0, stream_id: null },
+    ]);
+    expect(transcript.duration_s).toBe(1.2);
+  });
+
+  it("should estimate stop times when end_text is missing", () => {
+    const transcript = build([
+      { type: "text", text: "one", start_s: 0 },
+      { type: "text", text: "two", start_s: 0.4 },
+      step(2, 0),
+    ]);
+
+    expect(transcript.segments.map((segment) => segment.stop_s)).toEqual([
+      0.4, 2,
+    ]);
+  });
+
+  it("should pair end_text messages per stream", () => {
+    const transcript = build([
+      { type: "text", text: "a", start_s: 0, stream_id: 0 },
+      { type: "text", text: "b", start_s: 0.1, stream_id: 1 },
+      { type: "end_text", stop_s: 0.3, stream_id: 1 },
+      { type: "end_text", stop_s: 0.5, stream_id: 0 },
+    ]);
+
+    expect(transcript.segments).toEqual([
+      { text: "a", start_s: 0, stop_s: 0.5, stream_id: 0 },
+      { text: "b", start_s: 0.1, stop_s: 0.3, stream_id: 1 },
+    ]);
+  });
+
+  it("should split utterances at pauses reported by the VAD", () => {
+    const transcript = build([
+      { type: "text", text: "Hi", start_s: 0 },
+      { type: "end_text", stop_s: 0.3 },
+      step(0.4, 0.1),
+      { type: "text", text: "there", start_s: 0.4 },
+      { type: "end_text", stop_s: 0.8 },
+      step(1.2, 0.9),
+      step(1.6, 0.95),
+      { type: "text", text: "Bye", start_s: 2 },
+      { type: "end_text", stop_s: 2.3 },
+    ]);
+
+    expect(
+      transcript.utterances.map(({ text, start_s, stop_s }) => ({
+        text,
+        start_s,
+        stop_s,
+      }))
+    ).toEqual([
+      { text: "Hi there", start_s: 0, stop_s: 0.8 },
+      { text: "Bye", start_s: 2, stop_s: 2.3 },
+    ]);
+    expect(transcript.utterances[1].segments).toEqual([transcript.segments[2]]);
+    expect(transcript.duration_s).toBe(2.3);
+  });
+
+  it("should honor the VAD threshold and horizon options", () => {
+    const builder = new TranscriptBuilder({
+      vad_threshold: 0.8,
+      vad_horizon_index: 0,
+    });
+    builder.push({ type: "text", text: "a", start_s: 0 });
+    builder.push({
+      type: "step",
+      vad: [
+        { horizon_s: 0.5, inactivity_prob: 0.7 },
+        { horizon_s: 1, inactivity_prob: 0.99 },
+      ],
+      step_idx: 1,
+      step_duration_s: 0.08,
+      total_duration_s: 0.5,
+    });
+    builder.push({ type: "text", text: "b", start_s: 0.6 });
+
+    expect(builder.build().utterances).toHaveLength(1);
+  });
+
+  it("should return an empty transcript without text", () => {
+    expect(build([step(0.5, 1)])).toEqual({
+      text: "",
+      segments: [],
+      utterances: [],
+      duration_s: 0.5,
+    });
+  });
+
+  it("should return segments as they are finalized, in order", () => {
+    const builder = new TranscriptBuilder();
+
+    expect(builder.push({ type: "text", text: "a", start_s: 0 })).toEqual([]);
+    expect(builder.push({ type: "end_text", stop_s: 0.2 })).toEqual([
+      {
+        segment: { text: "a", start_s: 0, stop_s: 0.2, stream_id: null },
+        utterance: 0,
+      },
+    ]);
+    builder.push(step(1, 1));
+    builder.push({ type: "text", text: "b", start_s: 1.5 });
+
+    expect(builder.push({ type: "end_of_stream" })).toEqual([
+      {
+        segment: { text: "b", start_s: 1.5, stop_s: 1.5, stream_id: null },
+        utterance: 1,
+      },
+    ]);
+  });
+
+  it("should not let snapshots mutate later builds", () => {
+    const builder = new TranscriptBuilder();
+    builder.push({ type: "text", text: "a", start_s: 0 });
+    const snapshot = builder.build();
+    builder.push({ type: "end_text", stop_s: 0.4 });
+
+    expect(snapshot.segments[0].stop_s).toBe(0);
+    expect(builder.build().segments[0].stop_s).toBe(0.4);
+  });
+});
+
+describe("stitchTranscripts", () => {
+  it("should offset and join consecutive transcripts", () => {
+    const first = build([
+      { type: "text", text: "one", start_s: 0.1 },
+      { type: "end_text", stop_s: 0.4 },
+      step(1, 0),
+    ]);
+    const second = build([
+      { type: "text", text: "two", start_s: 0.2 },
+      { type: "end_text", stop_s: 0.5 },
+      step(0.8, 0),
+    ]);
+
+    const stitched = stitchTranscripts([
+      { transcript: first, offset_s: 0 },
+      { transcript: second, offset_s: 1 },
+    ]);
+
+    expect(stitched.text).toBe("one two");
+    expect(stitched.segments[1]).toEqual({
+      text: "two",
+      start_s: 1.2,
+      stop_s: 1.5,
+      stream_id: null,
+    });
+    expect(stitched.utterances).toHaveLength(2);
+    expect(stitched.utterances[1].start_s).toBe(1.2);
+    expect(stitched.duration_s).toBe(1.8);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import { TurnDetector } from "../../stt/turn-detector";
+import type { STTServerMessage, TurnEvent } from "../../types";
+
+const STEP_S = 0.08;
+
+/** Build a VAD step at a given step index with the same probability at every horizon */
+function step(index: number, inactivity: number): STTServerMessage {
+  return {
+    type: "step",
+    vad: [0.5, 1, 2].map((horizon_s) => ({
+      horizon_s,
+      inactivity_prob: inactivity,
+    })),
+    step_idx: index,
+    step_duration_s: STEP_S,
+    total_duration_s: Number((index * STEP_S).toFixed(2)),
+  };
+}
+
+function run(detector: TurnDetector, messages: STTServerMessage[]) {
+  const events: TurnEvent[] = [];
+  for (const message of messages) {
+    events.push(...detector.push(message));
+  }
+  return events;
+}
+
+describe("TurnDetector", () => {
+  it("should emit speech and turn events from VAD steps", () => {
+    const events = run(new TurnDetector({ hangover_s: 0.16 }), [
+      step(1, 0.9),
+      step(2, 0.1),
+      { type: "text", text: "Hello", start_s: 0.16 },
+      step(3, 0.2),
+      { type: "text", text: "there", start_s: 0.3 },
+      step(4, 0.9),
+      step(5, 0.9),
+      step(6, 0.95),
+      step(7, 0.95),
+    ]);
+
+    expect(events).toEqual([
+      { type: "speechStart", time_s: 0.16 },
+      { type: "speechEnd", time_s: 0.32 },
+      { type: "turnEnd", text: "Hello there", start_s: 0.16, end_s: 0.32 },
+    ]);
+  });
+
+  it("should keep the turn open when speech resumes within the hangover", () => {
+    const events = run(new TurnDetector({ hangover_s: 0.2 }), [
+      step(1, 0.1),
+      step(2, 0.9),
+      step(3, 0.9),
+      step(4, 0.1),
+      step(5, 0.9),
+      step(6, 0.9),
+      step(7, 0.9),
+      step(8, 0.9),
+    ]);
+
+    expect(events.map((event) => event.type)).toEqual([
+      "speechStart",
+      "speechEnd",
+      "speechStart",
+      "speechEnd",
+      "turnEnd",
+    ]);
+    expect(events.at(-1)).toMatchObject({ start_s: 0.08, end_s: 0.4 });
+  });
+
+  it("should not end the turn between the speech and turn-end thresholds", () => {
+    const detector = new TurnDetector({ hangover_s: 0 });
+    const events = run(detector, [step(1, 0.1), step(2, 0.6), step(3, 0.7)]);
+
+    expect(events.map((event) => event.type)).toEqual([
+      "speechStart",
+      "speechEnd",
+    ]);
+    expect(detector.isSpeaking).toBe(false);
+  });
+
+  it("should honor the horizon and threshold options", () => {
+    const detector = new TurnDetector({
+      horizon_index: 0,
+      speech_threshold: 0.3,
+    });
+    const events = run(detector, [
+      {
+        type: "step",
+        vad: [
+          { horizon_s: 0.5, inactivity_prob: 0.4 },
+          { horizon_s: 1, inactivity_prob: 0 },
+        ],
+        step_idx: 1,
+        step_duration_s: STEP_S,
+        total_duration_s: STEP_S,
+      },
+    ]);
+
+    expect(events).toEqual([]);
+  });
+
+  it("should end an open turn at end of stream", () => {
+    const events = run(new TurnDetector(), [
+      step(1, 0.1),
+      { type: "text", text: "Bye", start_s: 0.1 },
+      step(2, 0.2),
+      { type: "end_of_stream" },
+    ]);
+
+    expect(events.slice(1)).toEqual([
+      { type: "speechEnd", time_s: 0.16 },
+      { type: "turnEnd", text: "Bye", start_s: 0.08, end_s: 0.16 },
+    ]);
+  });
+
+  describe("with a text delay", () => {
+    // 3 tokens of 1920 samples at 24kHz: text lags the VAD by 0.24s
+    const ready: STTServerMessage = {
+      type: "ready",
+      request_id: "req-123",
+      model_name: "default",
+      sample_rate: 24_000,
+      frame_size: 1920,
+      delay_in_tokens: 3,
+      text_stream_names: ["primary"],
+    };
+
+    it("should assign text to turns by start time", () => {
+      const events = run(new TurnDetector({ hangover_s: 0.16 }), [
+        ready,
+        step(1, 0.1),
+        step(2, 0.9),
+        step(3, 0.9),
+        step(4, 0.9),
+        // Sent after the turn ended, but spoken during it
+        { type: "text", text: "Hello", start_s: 0.1 },
+        step(5, 0.1),
+        step(6, 0.9),
+        { type: "text", text: "again", start_s: 0.42 },
+        { type: "end_of_stream" },
+      ]);
+
+      expect(events).toEqual([
+        { type: "speechStart", time_s: 0.08 },
+        { type: "speechEnd", time_s: 0.16 },
+        { type: "speechStart", time_s: 0.4 },
+        { type: "speechEnd", time_s: 0.48 },
+        { type: "turnEnd", text: "Hello", start_s: 0.08, end_s: 0.16 },
+        { type: "turnEnd", text: "again", start_s: 0.4, end_s: 0.48 },
+      ]);
+    });
+
+    it("should report the turn once the delay has passed", () => {
+      const detector = new TurnDetector({ hangover_s: 0.16 });
+      run(detector, [ready, step(1, 0.1), step(2, 0.9), step(3, 0.9)]);
+
+      expect(run(detector, [step(4, 0.9), step(5, 0.9)])).toEqual([]);
+      expect(run(detector, [step(8, 0.9)])).toEqual([
+        { type: "turnEnd", text: "", start_s: 0.08, end_s: 0.16 },
+      ]);
+    });
+  });
+});
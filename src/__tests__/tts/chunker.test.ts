@@ -0,0 +1,185 @@
+import { describe, expect, it } from "bun:test";
+import { GradiumError } from "../../errors";
+import { chunkTextStream, TextChunker } from "../../tts/chunker";
+import type { TextChunkerOptions } from "../../types";
+
+/** Split text into LLM-like tokens: words with their leading space */
+function tokenize(text: string): string[] {
+  return text.match(/\s*\S+/g) ?? [];
+}
+
+function chunkAll(tokens: string[], options?: TextChunkerOptions): string[] {
+  const chunker = new TextChunker(options);
+  return [
+    ...tokens.flatMap((token) => chunker.push(token)),
+    ...chunker.flush(),
+  ];
+}
+
+describe("TextChunker", () => {
+  it("should emit chunks at sentence ends once long enough", () => {
+    const chunks = chunkAll(
+      tokenize("Hi. How are you today? I am fine, thanks for asking."),
+      { min_chunk_chars: 10 }
+    );
+
+    expect(chunks).toEqual([
+      "Hi. How are you today?",
+      " I am fine, thanks for asking.",
+    ]);
+    expect(chunks.join("")).toBe(
+      "Hi. How are you today? I am fine, thanks for asking."
+    );
+  });
+
+  it("should wait for a word to be complete", () => {
+    const chunker = new TextChunker({ min_chunk_chars: 0 });
+
+    expect(chunker.push("Hello wor")).toEqual([]);
+    expect(chunker.push("ld. Next")).toEqual(["Hello world."]);
+    expect(chunker.buffered).toBe(0);
+    expect(chunker.flush()).toEqual([" Next"]);
+  });
+
+  it("should cut long text at clauses, then at spaces", () => {
+    const chunks = chunkAll(
+      tokenize("one two three, four five six seven eight nine ten eleven"),
+      { min_chunk_chars: 5, max_chunk_chars: 24 }
+    );
+
+    expect(chunks).toEqual([
+      "one two three,",
+      " four five six seven",
+      " eight nine ten eleven",
+    ]);
+    expect(chunks.every((chunk) => chunk.length <= 24)).toBe(true);
+  });
+
+  it("should break at line breaks once long enough", () => {
+    const chunks = chunkAll(["First line without a stop\nSecond", " line\n"]);
+
+    expect(chunks).toEqual(["First line without a stop", " Second line"]);
+  });
+
+  it("should strip Markdown", () => {
+    const text = [
+      "# Title",
+      "",
+      "Some **bold** and _italic_ text with `code` and a [link](https://x.y/z).",
+      "- first item",
+      "2. second ~~item~~",
+      "> quoted snake_case_name",
+      "```ts",
+      "const x = 1;",
+      "```",
+      "Done.",
+    ].join("\n");
+
+    const chunks = chunkAll(tokenize(text), { min_chunk_chars: 200 });
+
+    expect(chunks.join("")).toBe(
+      "Title Some bold and italic text with code and a link. first item second item quoted snake_case_name Done."
+    );
+  });
+
+  it("should keep literal asterisks and underscores", () => {
+    expect(
+      chunkAll(tokenize("So 2*3=6, 2 * 3 is *six* and x_ is **very bold**."))
+    ).toEqual(["So 2*3=6, 2 * 3 is six and x_ is very bold."]);
+  });
+
+  it("should strip links whose text spans several words", () => {
+    expect(chunkAll(tokenize("See [the full docs](https://x.y) now."))).toEqual(
+      ["See the full docs now."]
+    );
+  });
+
+  it("should keep Markdown when disabled", () => {
+    expect(
+      chunkAll(tokenize("Some **bold** text."), { strip_markdown: false })
+    ).toEqual(["Some **bold** text."]);
+  });
+
+  it("should reject invalid lengths", () => {
+    expect(() => new TextChunker({ max_chunk_chars: 0 })).toThrow(GradiumError);
+    expect(
+      () => new TextChunker({ min_chunk_chars: 50, max_chunk_chars: 40 })
+    ).toThrow(GradiumError);
+  });
+});
+
+describe("chunkTextStream", () => {
+  async function collect(
+    source: AsyncIterable<string>,
+    options?: TextChunkerOptions
+  ) {
+    const chunks: string[] = [];
+    for await (const chunk of chunkTextStream(source, options)) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  it("should chunk a stream and flush at its end", async () => {
+    async function* tokens() {
+      yield* tokenize("It works. More text without an end");
+    }
+
+    expect(await collect(tokens(), { min_chunk_chars: 5 })).toEqual([
+      "It works.",
+      " More text without an end",
+    ]);
+  });
+
+  it("should send buffered words after the maximum wait", async () => {
+    const sent: [string, number][] = [];
+    const start = Date.now();
+    async function* tokens() {
+      yield "Slow";
+      yield " tokens";
+      yield " keep";
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      yield " coming.";
+    }
+
+    for await (const chunk of chunkTextStream(tokens(), { max_wait_ms: 20 })) {
+      sent.push([chunk, Date.now() - start]);
+    }
+
+    expect(sent.map(([chunk]) => chunk)).toEqual([
+      "Slow tokens",
+      " keep coming.",
+    ]);
+    expect(sent[0][1]).toBeLessThan(50);
+  });
+
+  it("should close the source when the consumer stops", async () => {
+    let closed = false;
+    async function* tokens() {
+      try {
+        yield* tokenize("One sentence here. Another sentence here. More.");
+      } finally {
+        closed = true;
+      }
+    }
+
+    for await (const _ of chunkTextStream(tokens(), { min_chunk_chars: 5 })) {
+      break;
+    }
+
+    expect(closed).toBe(true);
+  });
+
+  it("should reject invalid options when called", () => {
+    async function* tokens() {
+      yield "Hi.";
+    }
+
+    expect(() => chunkTextStream(tokens(), { max_wait_ms: 0 })).toThrow(
+      GradiumError
+    );
+    expect(() => chunkTextStream(tokens(), { max_chunk_chars: 0 })).toThrow(
+      GradiumError
+    );
+  });
+});
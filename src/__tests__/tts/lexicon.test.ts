@@ -0,0 +1,101 @@
+import { describe, expect, it } from "bun:test";
+import { GradiumError } from "../../errors";
+import { Lexicon } from "../../tts/lexicon";
+
+describe("Lexicon", () => {
+  it("should respell whole words, ignoring case by default", () => {
+    const lexicon = new Lexicon().add("Gradium", "Grey-dee-um");
+
+    expect(lexicon.apply("gradium and GRADIUM, not Gradiums")).toBe(
+      "Grey-dee-um and Grey-dee-um, not Gradiums"
+    );
+  });
+
+  it("should honor case-sensitive and partial-word entries", () => {
+    const lexicon = new Lexicon()
+      .add("SQL", "sequel", { case_sensitive: true })
+      .add("gif", "jif", { whole_word: false });
+
+    expect(lexicon.apply("SQL or sql, gifs and GIF")).toBe(
+      "sequel or sql, jifs and jif"
+    );
+  });
+
+  it("should match phrases across any whitespace and prefer the longest entry", () => {
+    const lexicon = new Lexicon()
+      .add("New York", "Noo York")
+      .add("New York Times", "Noo York Tymes");
+
+    expect(lexicon.apply("The New\n York  Times in New York")).toBe(
+      "The Noo York Tymes in Noo York"
+    );
+    expect(lexicon.maxWords).toBe(3);
+  });
+
+  it("should move split points out of entries", () => {
+    const lexicon = new Lexicon().add("New York", "Noo York");
+    const text = "in New York now";
+
+    expect(lexicon.splitPoint(text, text.indexOf("York"))).toBe(3);
+    expect(lexicon.splitPoint(text, text.indexOf("now"))).toBe(12);
+  });
+
+  it("should not rewrite respellings or markup tags", () => {
+    const lexicon = new Lexicon()
+      .add("SQL", "sequel")
+      .add("sequel", "follow-up")
+      .add("voice", "vwah");
+
+    expect(lexicon.apply('SQL <voice id="voice" /> voice')).toBe(
+      'sequel <voice id="voice" /> vwah'
+    );
+  });
+
+  it("should apply language entries over entries for all languages", () => {
+    const lexicon = new Lexicon()
+      .add("SQL", "sequel")
+      .add("SQL", "esse-cu-elle", { language: "fr" });
+
+    expect(lexicon.apply("SQL")).toBe("sequel");
+    expect(lexicon.apply("SQL", "en")).toBe("sequel");
+    expect(lexicon.apply("SQL", "fr-CA")).toBe("esse-cu-elle");
+  });
+
+  it("should replace and remove entries", () => {
+    const lexicon = new Lexicon().add("Gradium", "Grey-dium");
+    lexicon.add("gradium", "Grey-dee-um");
+
+    expect(lexicon.size).toBe(1);
+    expect(lexicon.apply("Gradium")).toBe("Grey-dee-um");
+    expect(lexicon.remove("Gradium")).toBe(true);
+    expect(lexicon.apply("Gradium")).toBe("Gradium");
+    expect(lexicon.remove("Gradium")).toBe(false);
+  });
+
+  it("should load JSON with defaults and per-language lists", () => {
+    const lexicon = Lexicon.fromJSON(
+      JSON.stringify({
+        case_sensitive: true,
+        entries: { Gradium: "Grey-dee-um" },
+        languages: {
+          fr: [{ word: "SQL", respelling: "esse-cu-elle" }],
+        },
+      })
+    );
+
+    expect(lexicon.apply("Gradium gradium SQL", "fr")).toBe(
+      "Grey-dee-um gradium esse-cu-elle"
+    );
+    expect(Lexicon.fromJSON(lexicon.toJSON()).toJSON()).toEqual(
+      lexicon.toJSON()
+    );
+  });
+
+  it("should reject invalid data", () => {
+    expect(() => Lexicon.fromJSON("{")).toThrow(GradiumError);
+    expect(() => Lexicon.fromJSON("42")).toThrow(GradiumError);
+    expect(() =>
+      Lexicon.fromJSON([{ word: "", respelling: "nothing" }])
+    ).toThrow(GradiumError);
+  });
+});
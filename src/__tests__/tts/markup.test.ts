@@ -0,0 +1,64 @@
+import { describe, expect, it } from "bun:test";
+import { GradiumError } from "../../errors";
+import { mapTextOutsideTags, parseMarkup } from "../../tts/markup";
+
+describe("parseMarkup", () => {
+  it("should split text into voices and pauses", () => {
+    expect(
+      parseMarkup(
+        '<speak>Hello. <break time="500ms"/> <voice id="fr">Salut <break time=\'1.5s\' /> toi.</voice> Bye.</speak>',
+        "en"
+      )
+    ).toEqual([
+      { type: "text", text: "Hello.", voice_id: "en" },
+      { type: "break", duration_s: 0.5 },
+      { type: "text", text: "Salut", voice_id: "fr" },
+      { type: "break", duration_s: 1.5 },
+      { type: "text", text: "toi.", voice_id: "fr" },
+      { type: "text", text: "Bye.", voice_id: "en" },
+    ]);
+  });
+
+  it("should nest voices and merge text of the same voice", () => {
+    expect(
+      parseMarkup(
+        'A <voice id="b">B <voice id="a">C</voice></voice> D &lt;3 &amp; more',
+        "a"
+      )
+    ).toEqual([
+      { type: "text", text: "A", voice_id: "a" },
+      { type: "text", text: "B", voice_id: "b" },
+      { type: "text", text: "C D <3 & more", voice_id: "a" },
+    ]);
+  });
+
+  it("should accept breaks up to 10 seconds", () => {
+    expect(parseMarkup('<break time="10s"/>', "a")).toEqual([
+      { type: "break", duration_s: 10 },
+    ]);
+  });
+
+  it("should reject malformed and unsupported markup", () => {
+    for (const text of [
+      '<break time="soon"/>',
+      "<break/>",
+      "<voice>text</voice>",
+      '<voice id="b">text',
+      "text</voice>",
+      '<prosody rate="slow">text</prosody>',
+      "<break time=1s/>",
+      '<break time="10001ms"/>',
+      '<break time="100000s"/>',
+    ]) {
+      expect(() => parseMarkup(text, "a")).toThrow(GradiumError);
+    }
+  });
+});
+
+describe("mapTextOutsideTags", () => {
+  it("should rewrite text only", () => {
+    expect(
+      mapTextOutsideTags('a <break time="1s"/> b', (part) => part.toUpperCase())
+    ).toBe('A <break time="1s"/> B');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import { GradiumError } from "../../errors";
+import {
+  createTextNormalizer,
+  normalizeText,
+  registerNormalizer,
+} from "../../tts/normalize";
+
+describe("normalizeText", () => {
+  describe("English", () => {
+    it("should read amounts, dates and titles", () => {
+      expect(normalizeText("Dr. Smith paid $1,250.50 on 3/4/2025.")).toBe(
+        "Doctor Smith paid one thousand two hundred fifty dollars and fifty cents on March fourth, twenty twenty-five."
+      );
+    });
+
+    it("should read currencies with subunits and magnitudes", () => {
+      expect(normalizeText("$1, $0.99, £3.20, €5 and $1.5 million")).toBe(
+        "one dollar, ninety-nine cents, three pounds and twenty pence, five euros and one point five million dollars"
+      );
+    });
+
+    it("should read units, percentages and signs", () => {
+      expect(normalizeText("90 km/h, 1 kg, -5 °C, 25% and km/h")).toBe(
+        "ninety kilometers per hour, one kilogram, minus five degrees Celsius, twenty-five percent and kilometers per hour"
+      );
+    });
+
+    it("should read short units only where they cannot be words", () => {
+      expect(
+        normalizeText("A 4 g network, 4g of salt, 2 h. Then 5 min walk in 5 m")
+      ).toBe(
+        "A four g network, four grams of salt, two hours. Then five min walk in five meters"
+      );
+    });
+
+    it("should read ordinals, decimals and years", () => {
+      expect(normalizeText("The 1st, 22nd and 103rd in 1984, 3.14")).toBe(
+        "The first, twenty-second and one hundred third in nineteen eighty-four, three point one four"
+      );
+      expect(normalizeText("the 1990s and 2025-12-31")).toBe(
+        "the nineteen nineties and December thirty-first, twenty twenty-five"
+      );
+    });
+
+    it("should read bare years as years", () => {
+      expect(normalizeText("In 1999, 1215 and 2005, not 1,999 or 1999.5")).toBe(
+        "In nineteen ninety-nine, twelve fifteen and two thousand five, not one thousand nine hundred ninety-nine or one thousand nine hundred ninety-nine point five"
+      );
+    });
+
+    it("should read clock times", () => {
+      expect(
+        normalizeText(
+          "At 10:30 am, 7:05 p.m. and 9:00, not 14:00 or 6 PM. Then 8:15 p.m. Bye"
+        )
+      ).toBe(
+        "At ten thirty AM, seven oh five PM and nine o'clock, not fourteen hundred or six PM. Then eight fifteen PM. Bye"
+      );
+    });
+
+    it("should keep the period of abbreviations ending a sentence", () => {
+      expect(normalizeText("Apples, pears, etc. Then e.g. plums.")).toBe(
+        "Apples, pears, et cetera. Then for example plums."
+      );
+    });
+
+    it("should leave identifiers and versions alone", () => {
+      expect(normalizeText("v1.2.3, 3D and COVID19")).toBe(
+        "v1.2.3, 3D and COVID19"
+      );
+    });
+
+    it("should not rewrite markup tags", () => {
+      expect(normalizeText('Wait <break time="1.5s" /> 2 m.')).toBe(
+        'Wait <break time="1.5s" /> two meters.'
+      );
+    });
+  });
+
+  describe("French", () => {
+    const fr = { language: "fr" };
+
+    it("should read amounts, dates and titles", () => {
+      expect(
+        normalizeText("M. Dupont a payé 1 250,50 € le 3/4/2025.", fr)
+      ).toBe(
+        "Monsieur Dupont a payé mille deux cent cinquante euros et cinquante centimes le trois avril deux mille vingt-cinq."
+      );
+    });
+
+    it("should follow French number spelling", () => {
+      expect(
+        normalizeText("71, 80, 81, 91, 200, 201, 80 000, 1 000 000", fr)
+      ).toBe(
+        "soixante et onze, quatre-vingts, quatre-vingt-un, quatre-vingt-onze, deux cents, deux cent un, quatre-vingt mille, un million"
+      );
+    });
+
+    it("should read units, times, ordinals and decimals", () => {
+      expect(
+        normalizeText(
+          "90 km/h, 1,5 h, 14h30, le 1er et le 2e, 3,05 et 21 %",
+          fr
+        )
+      ).toBe(
+        "quatre-vingt-dix kilomètres par heure, un virgule cinq heure, quatorze heures trente, le premier et le deuxième, trois virgule zéro cinq et vingt et un pour cent"
+      );
+    });
+
+    it("should read magnitudes of amounts", () => {
+      expect(normalizeText("1,5 milliard €", fr)).toBe(
+        "un virgule cinq milliard d'euros"
+      );
+    });
+  });
+
+  describe("custom normalizers", () => {
+    it("should run registered normalizers before the built-in rules", () => {
+      const unregister = registerNormalizer("en", (text) =>
+        text.replace(/\bv(\d+)\b/g, "version $1")
+      );
+      try {
+        expect(normalizeText("Use v2 now.")).toBe("Use version two now.");
+      } finally {
+        unregister();
+      }
+      expect(normalizeText("Use v2 now.")).toBe("Use v2 now.");
+    });
+
+    it("should run a registered normalizer once", () => {
+      const unregister = registerNormalizer("en", (text) => `${text}!`);
+      try {
+        expect(normalizeText("Hi")).toBe("Hi!");
+      } finally {
+        unregister();
+      }
+    });
+
+    it("should support languages without built-in rules", () => {
+      const unregister = registerNormalizer("de", (text) =>
+        text.replace(/\bz\. ?B\./g, "zum Beispiel")
+      );
+      try {
+        expect(normalizeText("Obst, z.B. Äpfel", { language: "de-AT" })).toBe(
+          "Obst, zum Beispiel Äpfel"
+        );
+      } finally {
+        unregister();
+      }
+    });
+
+    it("should fall back to the base language of regional tags", () => {
+      expect(normalizeText("2 km", { language: "fr-CA" })).toBe(
+        "deux kilomètres"
+      );
+    });
+
+    it("should reject unknown languages", () => {
+      expect(() => createTextNormalizer({ language: "xx" })).toThrow(
+        GradiumError
+      );
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "bun:test";
+import { GradiumError } from "../../errors";
+import { splitText } from "../../tts/segment";
+
+describe("splitText", () => {
+  it("should pack sentences into segments under the limit", () => {
+    const text = "One two three. Four five six! Seven eight nine? Ten.";
+
+    expect(splitText(text, { max_segment_chars: 30 })).toEqual([
+      "One two three. Four five six!",
+      "Seven eight nine? Ten.",
+    ]);
+  });
+
+  it("should keep short texts in one segment", () => {
+    expect(splitText("  Hello,\n  world.  ")).toEqual(["Hello, world."]);
+  });
+
+  it("should join paragraphs with a blank line", () => {
+    const text = "First paragraph.\n\nSecond one.\n\n\nThird.";
+
+    expect(splitText(text, { max_segment_chars: 40 })).toEqual([
+      "First paragraph.\n\nSecond one.\n\nThird.",
+    ]);
+    expect(splitText(text, { max_segment_chars: 20 })).toEqual([
+      "First paragraph.",
+      "Second one.\n\nThird.",
+    ]);
+  });
+
+  it("should split after closing quotes", () => {
+    expect(
+      splitText('He said "stop." Then he left.', { max_segment_chars: 16 })
+    ).toEqual(['He said "stop."', "Then he left."]);
+  });
+
+  it("should split long sentences at clauses, then at spaces", () => {
+    const sentence =
+      "A very long sentence, with a clause break, and words that go on";
+
+    const segments = splitText(sentence, { max_segment_chars: 25 });
+
+    expect(segments).toEqual([
+      "A very long sentence,",
+      "with a clause break,",
+      "and words that go on",
+    ]);
+    expect(splitText("abcdefghij", { max_segment_chars: 4 })).toEqual([
+      "abcd",
+      "efgh",
+      "ij",
+    ]);
+  });
+
+  it("should return no segments for blank text", () => {
+    expect(splitText(" \n\n ")).toEqual([]);
+  });
+
+  it("should reject invalid limits", () => {
+    expect(() => splitText("Hi.", { max_segment_chars: 0 })).toThrow(
+      GradiumError
+    );
+  });
+});
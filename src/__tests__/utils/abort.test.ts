@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test";
+import { AbortError, TimeoutError } from "../../errors";
+import { Deadline, raceSignal } from "../../utils/abort";
+
+describe("abort", () => {
+  describe("Deadline", () => {
+    it("should abort with TimeoutError after the timeout", async () => {
+      const deadline = new Deadline(5);
+      await expect(
+        deadline.race(new Promise(() => null))
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should abort with AbortError when the parent aborts", async () => {
+      const controller = new AbortController();
+      const deadline = new Deadline(1000, controller.signal);
+      const pending = deadline.race(new Promise(() => null));
+
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+      deadline.dispose();
+    });
+
+    it("should abort immediately for an already aborted parent", () => {
+      const controller = new AbortController();
+      controller.abort();
+      const deadline = new Deadline(1000, controller.signal);
+      expect(deadline.signal.aborted).toBe(true);
+    });
+
+    it("should postpone the timeout on refresh", async () => {
+      const deadline = new Deadline(20);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      deadline.refresh();
+      await new Promise((resolve) => setTimeout(resolve, 15));
+      expect(deadline.signal.aborted).toBe(false);
+      deadline.dispose();
+    });
+
+    it("should not time out when the timeout is disabled", async () => {
+      const deadline = new Deadline(Number.POSITIVE_INFINITY);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect(deadline.signal.aborted).toBe(false);
+    });
+  });
+
+  describe("raceSignal", () => {
+    it("should resolve with the promise value", async () => {
+      const controller = new AbortController();
+      expect(await raceSignal(Promise.resolve(42), controller.signal)).toBe(42);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { concatBytes } from "../../audio/pcm";
+import { readAudioChunks, readAudioInput } from "../../utils/audio-input";
+
+describe("readAudioInput", () => {
+  const bytes = new Uint8Array([1, 2, 3, 4]);
+
+  it("should return bytes as-is", async () => {
+    expect(await readAudioInput(bytes)).toBe(bytes);
+  });
+
+  it("should read Blobs", async () => {
+    expect(await readAudioInput(new Blob([bytes]))).toEqual(bytes);
+  });
+
+  it("should read file paths", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "gradium-"));
+    try {
+      const path = join(dir, "audio.pcm");
+      await writeFile(path, bytes);
+      expect(await readAudioInput(path)).toEqual(bytes);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
+
+describe("readAudioChunks", () => {
+  const bytes = new Uint8Array([1, 2, 3, 4]);
+
+  async function collect(source: Parameters<typeof readAudioChunks>[0]) {
+    const parts: Uint8Array[] = [];
+    for await (const chunk of readAudioChunks(source)) {
+      parts.push(chunk);
+    }
+    return parts;
+  }
+
+  it("should yield bytes as one chunk", async () => {
+    expect(await collect(bytes)).toEqual([bytes]);
+  });
+
+  it("should read Web ReadableStreams", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, 2));
+        controller.enqueue(bytes.subarray(2));
+        controller.close();
+      },
+    });
+    expect(await collect(stream)).toEqual([
+      bytes.subarray(0, 2),
+      bytes.subarray(2),
+    ]);
+  });
+
+  it("should read Node Readables and Blobs", async () => {
+    const { Readable } = await import("node:stream");
+    expect(concatBytes(await collect(Readable.from([bytes])))).toEqual(bytes);
+    expect(concatBytes(await collect(new Blob([bytes])))).toEqual(bytes);
+  });
+
+  it("should stream file paths", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "gradium-"));
+    try {
+      const path = join(dir, "audio.pcm");
+      await writeFile(path, bytes);
+      expect(concatBytes(await collect(path))).toEqual(bytes);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it("should cancel ReadableStreams when iteration stops early", async () => {
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(bytes);
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const _ of readAudioChunks(stream)) {
+      break;
+    }
+    expect(cancelled).toBe(true);
+  });
+});
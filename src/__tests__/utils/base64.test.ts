@@ -0,0 +1,64 @@
+import { describe, expect, it } from "bun:test";
+import {
+  decodeBase64,
+  decodeBase64Chunked,
+  encodeBase64,
+  encodeBase64Chunked,
+} from "../../utils/base64";
+
+const VECTORS: [string, string][] = [
+  ["", ""],
+  ["f", "Zg=="],
+  ["fo", "Zm8="],
+  ["foo", "Zm9v"],
+  ["foob", "Zm9vYg=="],
+  ["fooba", "Zm9vYmE="],
+  ["foobar", "Zm9vYmFy"],
+];
+
+const encoder = new TextEncoder();
+
+/** Deterministic pseudo-random payload covering every byte value */
+function payload(size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let state = 1;
+  for (let i = 0; i < size; i++) {
+    state = (state * 1_103_515_245 + 12_345) % 2_147_483_648;
+    bytes[i] = state % 256;
+  }
+  return bytes;
+}
+
+describe("base64", () => {
+  for (const [encode, decode, name] of [
+    [encodeBase64, decodeBase64, "native"],
+    [encodeBase64Chunked, decodeBase64Chunked, "chunked"],
+  ] as const) {
+    describe(name, () => {
+      it("should match the RFC 4648 test vectors", () => {
+        for (const [text, expected] of VECTORS) {
+          expect(encode(encoder.encode(text))).toBe(expected);
+          expect(decode(expected)).toEqual(encoder.encode(text));
+        }
+      });
+
+      it("should encode subarray views without their backing buffer", () => {
+        const bytes = new Uint8Array([0, 102, 111, 111, 0]);
+        expect(encode(bytes.subarray(1, 4))).toBe("Zm9v");
+      });
+
+      it("should round-trip multi-megabyte payloads", () => {
+        const bytes = payload(5 * 1024 * 1024 + 1);
+        const encoded = encode(bytes);
+
+        expect(encoded.length).toBe(Math.ceil(bytes.length / 3) * 4);
+        expect(decode(encoded)).toEqual(bytes);
+      });
+    });
+  }
+
+  it("should produce identical output with both implementations", () => {
+    const bytes = payload(100_003);
+    expect(encodeBase64Chunked(bytes)).toBe(encodeBase64(bytes));
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "bun:test";
+import { BroadcastQueue } from "../../utils/broadcast-queue";
+
+async function drain<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("BroadcastQueue", () => {
+  it("should retain items pushed before the first consumer", async () => {
+    const queue = new BroadcastQueue<number>();
+    queue.push(1);
+    queue.push(2);
+    queue.close();
+
+    expect(await drain(queue.subscribe())).toEqual([1, 2]);
+  });
+
+  it("should wake consumers when items arrive", async () => {
+    const queue = new BroadcastQueue<number>();
+    const result = drain(queue.subscribe());
+
+    setTimeout(() => queue.push(1), 1);
+    setTimeout(() => queue.push(2), 2);
+    setTimeout(() => queue.close(), 3);
+
+    expect(await result).toEqual([1, 2]);
+  });
+
+  it("should deliver every item to each concurrent consumer", async () => {
+    const queue = new BroadcastQueue<number>();
+    const first = drain(queue.subscribe());
+    const second = drain(queue.subscribe());
+
+    queue.push(1);
+    queue.push(2);
+    queue.close();
+
+    expect(await first).toEqual([1, 2]);
+    expect(await second).toEqual([1, 2]);
+  });
+
+  it("should release items once every consumer has read them", async () => {
+    const queue = new BroadcastQueue<number>();
+    const iterator = queue.subscribe();
+
+    queue.push(1);
+    queue.push(2);
+    expect(queue.size).toBe(2);
+
+    await iterator.next();
+    await iterator.next();
+    expect(queue.size).toBe(0);
+
+    await iterator.return();
+  });
+
+  it("should keep items while a slower consumer lags behind", async () => {
+    const queue = new BroadcastQueue<number>();
+    const fast = queue.subscribe();
+    const slow = queue.subscribe();
+
+    // Consumers subscribe when iteration begins
+    const fastFirst = fast.next();
+    const slowFirst = slow.next();
+    queue.push(1);
+    await fastFirst;
+    await slowFirst;
+
+    queue.push(2);
+    await fast.next();
+
+    expect(queue.size).toBe(1);
+    expect((await slow.next()).value).toBe(2);
+    expect(queue.size).toBe(0);
+
+    await fast.return();
+    await slow.return();
+  });
+
+  it("should throw the failure after draining buffered items", async () => {
+    const queue = new BroadcastQueue<number>();
+    queue.push(1);
+    queue.fail(new Error("boom"));
+
+    const items: number[] = [];
+    const consume = async () => {
+      for await (const item of queue.subscribe()) {
+        items.push(item);
+      }
+    };
+
+    await expect(consume()).rejects.toThrow("boom");
+    expect(items).toEqual([1]);
+  });
+
+  it("should ignore pushes after close", async () => {
+    const queue = new BroadcastQueue<number>();
+    queue.close();
+    queue.push(1);
+
+    expect(queue.isClosed).toBe(true);
+    expect(await drain(queue.subscribe())).toEqual([]);
+  });
+
+  it("should handle many items across compaction", async () => {
+    const queue = new BroadcastQueue<number>();
+    const result = drain(queue.subscribe());
+
+    for (let i = 0; i < 1000; i++) {
+      queue.push(i);
+      await Promise.resolve();
+    }
+    queue.close();
+
+    const items = await result;
+    expect(items).toHaveLength(1000);
+    expect(items.at(-1)).toBe(999);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "bun:test";
+import { GradiumError } from "../../errors";
+import { mapConcurrent, mapOrdered } from "../../utils/concurrency";
+
+const tick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapConcurrent", () => {
+  it("should keep results in input order", async () => {
+    const results = await mapConcurrent([30, 10, 20], 3, async (ms, i) => {
+      await tick(ms);
+      return i;
+    });
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapConcurrent(Array.from({ length: 10 }), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick(1);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("should stop starting work after a failure", async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapConcurrent([0, 1, 2, 3], 1, async (item) => {
+        started.push(item);
+        if (item === 1) {
+          throw new Error("boom");
+        }
+        return item;
+      })
+    ).rejects.toThrow("boom");
+
+    expect(started).toEqual([0, 1]);
+  });
+
+  it("should read async iterables lazily", async () => {
+    const pulled: number[] = [];
+    async function* items() {
+      for (let i = 0; i < 5; i++) {
+        pulled.push(i);
+        yield i;
+      }
+    }
+
+    const results = await mapConcurrent(items(), 2, async (item) => {
+      // Only the items being processed have been read
+      expect(pulled.length).toBeLessThanOrEqual(item + 2);
+      await tick(1);
+      return item * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+  });
+
+  it("should reject invalid limits", async () => {
+    await expect(mapConcurrent([1], 0, async (x) => x)).rejects.toBeInstanceOf(
+      GradiumError
+    );
+  });
+});
+
+describe("mapOrdered", () => {
+  async function collect<T>(generator: AsyncGenerator<T>): Promise<T[]> {
+    const results: T[] = [];
+    for await (const result of generator) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  it("should yield results in input order", async () => {
+    const finished: number[] = [];
+    const results = await collect(
+      mapOrdered([30, 10, 20], 3, async (ms, i) => {
+        await tick(ms);
+        finished.push(i);
+        return i;
+      })
+    );
+
+    expect(finished).toEqual([1, 2, 0]);
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it("should not run ahead of the consumer by more than the limit", async () => {
+    const started: number[] = [];
+    const generator = mapOrdered([0, 1, 2, 3, 4], 2, async (item) => {
+      started.push(item);
+      return item;
+    });
+
+    expect((await generator.next()).value).toBe(0);
+    await tick(1);
+    expect(started).toEqual([0, 1]);
+
+    expect((await generator.next()).value).toBe(1);
+    expect(started).toEqual([0, 1, 2]);
+    await generator.return();
+  });
+
+  it("should throw the first failure in input order", async () => {
+    await expect(
+      collect(
+        mapOrdered([0, 1, 2], 3, async (item) => {
+          if (item > 0) {
+            throw new Error(`boom ${item}`);
+          }
+          await tick(5);
+          return item;
+        })
+      )
+    ).rejects.toThrow("boom 1");
+  });
+});
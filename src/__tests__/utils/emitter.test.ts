@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import { Emitter } from "../../utils/emitter";
+
+type Events = {
+  tick: number;
+  done: { reason: string };
+};
+
+describe("Emitter", () => {
+  it("should call listeners in registration order", () => {
+    const emitter = new Emitter<Events>();
+    const calls: string[] = [];
+    emitter.on("tick", (n) => calls.push(`a${n}`));
+    emitter.on("tick", (n) => calls.push(`b${n}`));
+
+    emitter.emit("tick", 1);
+
+    expect(calls).toEqual(["a1", "b1"]);
+  });
+
+  it("should remove listeners with off() or the returned function", () => {
+    const emitter = new Emitter<Events>();
+    const calls: number[] = [];
+    const listener = (n: number) => calls.push(n);
+    const remove = emitter.on("tick", (n) => calls.push(n * 10));
+    emitter.on("tick", listener);
+
+    emitter.off("tick", listener);
+    remove();
+    emitter.emit("tick", 1);
+
+    expect(calls).toEqual([]);
+    expect(emitter.listenerCount("tick")).toBe(0);
+  });
+
+  it("should call once() listeners a single time", () => {
+    const emitter = new Emitter<Events>();
+    const reasons: string[] = [];
+    emitter.once("done", ({ reason }) => reasons.push(reason));
+
+    emitter.emit("done", { reason: "first" });
+    emitter.emit("done", { reason: "second" });
+
+    expect(reasons).toEqual(["first"]);
+  });
+
+  it("should apply listener changes from the next emit", () => {
+    const emitter = new Emitter<Events>();
+    const calls: string[] = [];
+    emitter.on("tick", () => {
+      calls.push("outer");
+      emitter.on("tick", () => calls.push("inner"));
+    });
+
+    emitter.emit("tick", 1);
+    expect(calls).toEqual(["outer"]);
+  });
+
+  it("should pass listener errors to onError and keep calling listeners", () => {
+    const errors: [unknown, string][] = [];
+    const emitter = new Emitter<Events>((error, event) =>
+      errors.push([error, event])
+    );
+    const calls: number[] = [];
+    const failure = new Error("listener failed");
+    emitter.on("tick", () => {
+      throw failure;
+    });
+    emitter.on("tick", (n) => calls.push(n));
+
+    emitter.emit("tick", 1);
+
+    expect(errors).toEqual([[failure, "tick"]]);
+    expect(calls).toEqual([1]);
+  });
+
+  it("should throw listener errors without onError", () => {
+    const emitter = new Emitter<Events>();
+    emitter.on("tick", () => {
+      throw new Error("listener failed");
+    });
+
+    expect(() => emitter.emit("tick", 1)).toThrow("listener failed");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { GradiumError } from "../../errors";
+import { Framer } from "../../utils/framer";
+
+describe("Framer", () => {
+  it("should buffer chunks until a frame is complete", () => {
+    const framer = new Framer(4);
+
+    expect(framer.push(new Uint8Array([1, 2, 3]))).toEqual([]);
+    expect(framer.buffered).toBe(3);
+    expect(framer.push(new Uint8Array([4, 5]))).toEqual([
+      new Uint8Array([1, 2, 3, 4]),
+    ]);
+    expect(framer.buffered).toBe(1);
+  });
+
+  it("should split large chunks into several frames", () => {
+    const framer = new Framer(2);
+    const frames = framer.push(new Uint8Array([1, 2, 3, 4, 5]));
+
+    expect(frames).toEqual([new Uint8Array([1, 2]), new Uint8Array([3, 4])]);
+    expect(framer.buffered).toBe(1);
+  });
+
+  it("should copy frames out of the caller's buffer", () => {
+    const framer = new Framer(2);
+    const input = new Uint8Array([1, 2]);
+    const [frame] = framer.push(input);
+    input[0] = 9;
+
+    expect(frame).toEqual(new Uint8Array([1, 2]));
+  });
+
+  it("should zero-pad the final frame on flush", () => {
+    const framer = new Framer(4);
+    framer.push(new Uint8Array([7, 8]));
+
+    expect(framer.flush()).toEqual(new Uint8Array([7, 8, 0, 0]));
+    expect(framer.flush()).toBeNull();
+  });
+
+  it("should not reuse a flushed frame buffer", () => {
+    const framer = new Framer(2);
+    framer.push(new Uint8Array([1]));
+    const last = framer.flush();
+    framer.push(new Uint8Array([5, 6]));
+
+    expect(last).toEqual(new Uint8Array([1, 0]));
+  });
+
+  it("should reject invalid frame sizes", () => {
+    expect(() => new Framer(0)).toThrow(GradiumError);
+    expect(() => new Framer(1.5)).toThrow(GradiumError);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "bun:test";
+import {
+  AuthenticationError,
+  ConnectionError,
+  InternalServerError,
+  NotFoundError,
+  RateLimitError,
+  WebSocketCloseError,
+  WebSocketError,
+} from "../../errors";
+import {
+  getRetryDelay,
+  isRetryableError,
+  nonIdempotentRetryPolicy,
+  resolveRetryPolicy,
+  sessionRetryPolicy,
+  withRetry,
+} from "../../utils/retry";
+
+describe("retry", () => {
+  describe("resolveRetryPolicy", () => {
+    it("should apply defaults", () => {
+      const policy = resolveRetryPolicy();
+      expect(policy.maxRetries).toBe(2);
+      expect(policy.baseDelay).toBe(500);
+      expect(policy.retryableStatuses).toContain(429);
+    });
+
+    it("should disable retries when false", () => {
+      expect(resolveRetryPolicy(false).maxRetries).toBe(0);
+    });
+
+    it("should merge user options", () => {
+      const policy = resolveRetryPolicy({ maxRetries: 5, jitter: 0 });
+      expect(policy.maxRetries).toBe(5);
+      expect(policy.jitter).toBe(0);
+      expect(policy.baseDelay).toBe(500);
+    });
+  });
+
+  describe("isRetryableError", () => {
+    const policy = resolveRetryPolicy();
+
+    it("should retry rate limit, server and connection errors", () => {
+      expect(isRetryableError(new RateLimitError(), policy)).toBe(true);
+      expect(isRetryableError(new InternalServerError(503), policy)).toBe(true);
+      expect(isRetryableError(new ConnectionError(), policy)).toBe(true);
+    });
+
+    it("should not retry client errors", () => {
+      expect(isRetryableError(new NotFoundError(), policy)).toBe(false);
+      expect(isRetryableError(new AuthenticationError(), policy)).toBe(false);
+      expect(isRetryableError(new Error("boom"), policy)).toBe(false);
+    });
+  });
+
+  describe("sessionRetryPolicy", () => {
+    const policy = sessionRetryPolicy(resolveRetryPolicy(), 3);
+
+    it("should retry dropped connections", () => {
+      expect(policy.maxRetries).toBe(3);
+      expect(
+        policy.shouldRetry?.(new WebSocketCloseError("dropped", 1006), 0)
+      ).toBe(true);
+      expect(
+        policy.shouldRetry?.(new WebSocketCloseError("restart", 1012), 0)
+      ).toBe(true);
+      expect(policy.shouldRetry?.(new ConnectionError(), 0)).toBe(true);
+    });
+
+    it("should not retry errors reported by the server", () => {
+      expect(
+        policy.shouldRetry?.(new WebSocketError("Unknown voice", 1008), 0)
+      ).toBe(false);
+      expect(
+        policy.shouldRetry?.(new WebSocketCloseError("policy", 1008), 0)
+      ).toBe(false);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should back off exponentially", () => {
+      const policy = resolveRetryPolicy({ jitter: 0 });
+      expect(getRetryDelay(new ConnectionError(), 0, policy)).toBe(500);
+      expect(getRetryDelay(new ConnectionError(), 1, policy)).toBe(1000);
+      expect(getRetryDelay(new ConnectionError(), 2, policy)).toBe(2000);
+    });
+
+    it("should cap the delay at maxDelay", () => {
+      const policy = resolveRetryPolicy({ jitter: 0, maxDelay: 1500 });
+      expect(getRetryDelay(new ConnectionError(), 5, policy)).toBe(1500);
+    });
+
+    it("should honor retryAfter from rate limit errors", () => {
+      const policy = resolveRetryPolicy();
+      const error = new RateLimitError("Too many requests", 3);
+      expect(getRetryDelay(error, 0, policy)).toBe(3000);
+    });
+
+    it("should apply jitter within bounds", () => {
+      const policy = resolveRetryPolicy({ jitter: 0.5 });
+      const delay = getRetryDelay(new ConnectionError(), 0, policy);
+      expect(delay).toBeGreaterThanOrEqual(250);
+      expect(delay).toBeLessThanOrEqual(500);
+    });
+  });
+
+  describe("withRetry", () => {
+    it("should retry until success", async () => {
+      const policy = resolveRetryPolicy({ baseDelay: 0 });
+      let calls = 0;
+
+      const result = await withRetry(async () => {
+        calls++;
+        if (calls < 3) {
+          throw new ConnectionError();
+        }
+        return "ok";
+      }, policy);
+
+      expect(result).toBe("ok");
+      expect(calls).toBe(3);
+    });
+
+    it("should give up after maxRetries", async () => {
+      const policy = resolveRetryPolicy({ baseDelay: 0, maxRetries: 1 });
+      let calls = 0;
+
+      await expect(
+        withRetry(async () => {
+          calls++;
+          throw new InternalServerError(503);
+        }, policy)
+      ).rejects.toBeInstanceOf(InternalServerError);
+      expect(calls).toBe(2);
+    });
+
+    it("should not retry non-retryable errors", async () => {
+      const policy = resolveRetryPolicy({ baseDelay: 0 });
+      let calls = 0;
+
+      await expect(
+        withRetry(async () => {
+          calls++;
+          throw new NotFoundError();
+        }, policy)
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(calls).toBe(1);
+    });
+
+    it("should not wait longer than maxDelay for retryAfter", async () => {
+      const policy = resolveRetryPolicy({ maxDelay: 1000 });
+      let calls = 0;
+
+      await expect(
+        withRetry(async () => {
+          calls++;
+          throw new RateLimitError("Too many requests", 600);
+        }, policy)
+      ).rejects.toBeInstanceOf(RateLimitError);
+      expect(calls).toBe(1);
+    });
+
+    it("should only retry rate limits of non-idempotent requests", () => {
+      const policy = nonIdempotentRetryPolicy(resolveRetryPolicy());
+      expect(policy.shouldRetry?.(new RateLimitError(), 0)).toBe(true);
+      expect(policy.shouldRetry?.(new InternalServerError(502), 0)).toBe(false);
+      expect(policy.shouldRetry?.(new ConnectionError(), 0)).toBe(false);
+    });
+
+    it("should use a custom shouldRetry predicate", async () => {
+      const policy = resolveRetryPolicy({
+        baseDelay: 0,
+        shouldRetry: (_error, attempt) => attempt < 1,
+      });
+      let calls = 0;
+
+      await expect(
+        withRetry(async () => {
+          calls++;
+          throw new NotFoundError();
+        }, policy)
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(calls).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import type { AudioFormatInfo, TTSOutputFormat } from "../types";
+import { isWav, parseWav } from "./wav";
+
+const TTS_OUTPUT_FORMATS: Record<TTSOutputFormat, AudioFormatInfo> = {
+  wav: {
+    sample_rate: 48_000,
+    encoding: "pcm_s16le",
+    bit_depth: 16,
+    channels: 1,
+    container: "wav",
+  },
+  pcm: {
+    sample_rate: 48_000,
+    encoding: "pcm_s16le",
+    bit_depth: 16,
+    channels: 1,
+    container: null,
+  },
+  opus: {
+    sample_rate: 48_000,
+    encoding: "opus",
+    bit_depth: null,
+    channels: 1,
+    container: "ogg",
+  },
+  ulaw_8000: {
+    sample_rate: 8000,
+    encoding: "mulaw",
+    bit_depth: 8,
+    channels: 1,
+    container: null,
+  },
+  alaw_8000: {
+    sample_rate: 8000,
+    encoding: "alaw",
+    bit_depth: 8,
+    channels: 1,
+    container: null,
+  },
+  pcm_16000: {
+    sample_rate: 16_000,
+    encoding: "pcm_s16le",
+    bit_depth: 16,
+    channels: 1,
+    container: null,
+  },
+  pcm_24000: {
+    sample_rate: 24_000,
+    encoding: "pcm_s16le",
+    bit_depth: 16,
+    channels: 1,
+    container: null,
+  },
+};
+
+/**
+ * Get the sample rate, encoding, bit depth and channel count of a TTS output format
+ *
+ * @example
+ * ```ts
+ * const info = getAudioFormatInfo('ulaw_8000');
+ * // { sample_rate: 8000, encoding: 'mulaw', bit_depth: 8, channels: 1, container: null }
+ * ```
+ */
+export function getAudioFormatInfo(format: TTSOutputFormat): AudioFormatInfo {
+  return { ...TTS_OUTPUT_FORMATS[format] };
+}
+
+/**
+ * Compute the duration in seconds of audio in the given format.
+ * Returns null for compressed formats, which require decoding.
+ */
+export function getAudioDuration(
+  data: Uint8Array,
+  format: TTSOutputFormat
+): number | null {
+  const info = TTS_OUTPUT_FORMATS[format];
+  if (info.bit_depth === null) {
+    return null;
+  }
+
+  if (info.container === "wav" && isWav(data)) {
+    const wav = parseWav(data);
+    return wav.data_size / (wav.sample_rate * wav.block_align);
+  }
+
+  const bytesPerSecond =
+    (info.sample_rate * info.channels * info.bit_depth) / 8;
+  return data.length / bytesPerSecond;
+}
@@ -0,0 +1,122 @@
+// biome-ignore-all lint/suspicious/noBitwiseOperators: G.711 is specified on bit fields
+
+/** µ-law bias added before segment search */
+const MULAW_BIAS = 0x84;
+/** Largest magnitude representable in µ-law */
+const MULAW_CLIP = 32_635;
+
+/** Upper bounds of the A-law segments (13-bit magnitudes) */
+const ALAW_SEGMENT_ENDS = [
+  0x1f, 0x3f, 0x7f, 0xff, 0x1_ff, 0x3_ff, 0x7_ff, 0xf_ff,
+];
+
+function encodeMuLawSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (
+    let mask = 0x40_00;
+    (magnitude & mask) === 0 && exponent > 0;
+    mask >>= 1
+  ) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  magnitude = sign | (exponent << 4) | mantissa;
+
+  return ~magnitude & 0xff;
+}
+
+function decodeMuLawSample(value: number): number {
+  const inverted = ~value & 0xff;
+  const exponent = (inverted >> 4) & 0x07;
+  const mantissa = inverted & 0x0f;
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return inverted & 0x80 ? -magnitude : magnitude;
+}
+
+function encodeALawSample(sample: number): number {
+  let magnitude = sample >> 3;
+  let mask: number;
+  if (magnitude >= 0) {
+    mask = 0xd5;
+  } else {
+    mask = 0x55;
+    magnitude = -magnitude - 1;
+  }
+
+  const segment = ALAW_SEGMENT_ENDS.findIndex((end) => magnitude <= end);
+  if (segment === -1) {
+    return 0x7f ^ mask;
+  }
+
+  const shift = segment < 2 ? 1 : segment;
+  return ((segment << 4) | ((magnitude >> shift) & 0x0f)) ^ mask;
+}
+
+function decodeALawSample(value: number): number {
+  const toggled = value ^ 0x55;
+  const segment = (toggled & 0x70) >> 4;
+  let magnitude = (toggled & 0x0f) << 4;
+
+  if (segment === 0) {
+    magnitude += 8;
+  } else {
+    magnitude = (magnitude + 0x1_08) << (segment - 1);
+  }
+
+  return toggled & 0x80 ? magnitude : -magnitude;
+}
+
+// Decoding is a pure byte lookup, so precompute both tables
+const MULAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, i) =>
+  decodeMuLawSample(i)
+);
+const ALAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, i) =>
+  decodeALawSample(i)
+);
+
+/**
+ * Encode 16-bit PCM samples as G.711 µ-law bytes
+ */
+export function encodeMuLaw(samples: Int16Array): Uint8Array {
+  const encoded = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    encoded[i] = encodeMuLawSample(samples[i]);
+  }
+  return encoded;
+}
+
+/**
+ * Decode G.711 µ-law bytes into 16-bit PCM samples
+ */
+export function decodeMuLaw(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    samples[i] = MULAW_DECODE_TABLE[bytes[i]];
+  }
+  return samples;
+}
+
+/**
+ * Encode 16-bit PCM samples as G.711 A-law bytes
+ */
+export function encodeALaw(samples: Int16Array): Uint8Array {
+  const encoded = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    encoded[i] = encodeALawSample(samples[i]);
+  }
+  return encoded;
+}
+
+/**
+ * Decode G.711 A-law bytes into 16-bit PCM samples
+ */
+export function decodeALaw(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    samples[i] = ALAW_DECODE_TABLE[bytes[i]];
+  }
+  return samples;
+}
@@ -0,0 +1,15 @@
+export { getAudioDuration, getAudioFormatInfo } from "./formats";
+export { decodeALaw, decodeMuLaw, encodeALaw, encodeMuLaw } from "./g711";
+export { bytesToSamples, concatBytes, samplesToBytes } from "./pcm";
+export type { PCMConverterOptions, ResamplerOptions } from "./resample";
+export { downmix, PCMConverter, Resampler, resample } from "./resample";
+export { createSilence } from "./silence";
+export { SilenceGate } from "./silence-gate";
+export type { WavFormat, WavInfo } from "./wav";
+export {
+  createWavHeader,
+  encodeWav,
+  isWav,
+  parseWav,
+  patchWavHeader,
+} from "./wav";
@@ -0,0 +1,56 @@
+/** Whether typed arrays use little-endian byte order on this platform */
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * Decode signed 16-bit little-endian PCM bytes into samples.
+ * A trailing odd byte is ignored.
+ */
+export function bytesToSamples(bytes: Uint8Array): Int16Array {
+  const count = Math.floor(bytes.length / 2);
+
+  if (LITTLE_ENDIAN && bytes.byteOffset % 2 === 0) {
+    return new Int16Array(bytes.buffer, bytes.byteOffset, count).slice();
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Int16Array(count);
+  for (let i = 0; i < count; i++) {
+    samples[i] = view.getInt16(i * 2, true);
+  }
+  return samples;
+}
+
+/**
+ * Encode samples as signed 16-bit little-endian PCM bytes
+ */
+export function samplesToBytes(samples: Int16Array): Uint8Array {
+  if (LITTLE_ENDIAN) {
+    return new Uint8Array(
+      samples.buffer.slice(
+        samples.byteOffset,
+        samples.byteOffset + samples.byteLength
+      )
+    );
+  }
+
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, samples[i], true);
+  }
+  return bytes;
+}
+
+/**
+ * Concatenate byte chunks into a single array
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
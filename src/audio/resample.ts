@@ -0,0 +1,263 @@
+import { bytesToSamples, concatBytes, samplesToBytes } from "./pcm";
+
+export type ResamplerOptions = {
+  /** Sample rate of the input in Hz */
+  from_rate: number;
+  /** Sample rate of the output in Hz */
+  to_rate: number;
+};
+
+/** Share of the output Nyquist frequency kept by the anti-aliasing filter */
+const LOW_PASS_CUTOFF = 0.9;
+/** Filter taps on each side of the center, per unit of decimation ratio */
+const LOW_PASS_HALF_TAPS = 16;
+
+/**
+ * Blackman-windowed sinc low-pass filter taps, normalized to unit gain
+ * @param cutoff - Cutoff frequency as a fraction of the sample rate
+ */
+function lowPassTaps(cutoff: number, half: number): Float64Array {
+  const length = 2 * half + 1;
+  const taps = Float64Array.from({ length }, (_, i) => {
+    const n = i - half;
+    const sinc =
+      n === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * n) / (Math.PI * n);
+    const phase = (2 * Math.PI * i) / (length - 1);
+    return sinc * (0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase));
+  });
+  const sum = taps.reduce((total, tap) => total + tap, 0);
+  return taps.map((tap) => tap / sum);
+}
+
+/**
+ * Streaming zero-phase FIR filter for 16-bit samples
+ * Each output sample is centered on its input sample, so the last `half`
+ * samples of a chunk are held back until the samples after them arrive.
+ * The signal is padded with silence at both ends.
+ */
+class LowPassFilter {
+  private readonly taps: Float64Array;
+  private readonly half: number;
+  /** `half` samples already filtered, then samples waiting to be */
+  private buffer: Int16Array;
+
+  constructor(cutoff: number, half: number) {
+    this.taps = lowPassTaps(cutoff, half);
+    this.half = half;
+    this.buffer = new Int16Array(half);
+  }
+
+  process(input: Int16Array): Int16Array {
+    const buffer = new Int16Array(this.buffer.length + input.length);
+    buffer.set(this.buffer);
+    buffer.set(input, this.buffer.length);
+
+    const output = new Int16Array(Math.max(0, buffer.length - 2 * this.half));
+    for (let i = 0; i < output.length; i++) {
+      let sum = 0;
+      for (let k = 0; k < this.taps.length; k++) {
+        sum += this.taps[k] * buffer[i + k];
+      }
+      output[i] = Math.max(-32_768, Math.min(32_767, Math.round(sum)));
+    }
+
+    this.buffer = buffer.slice(output.length);
+    return output;
+  }
+
+  /**
+   * Filter the held-back samples against trailing silence, and reset
+   */
+  flush(): Int16Array {
+    const tail = this.process(new Int16Array(this.half));
+    this.buffer = new Int16Array(this.half);
+    return tail;
+  }
+}
+
+/**
+ * Streaming resampler for mono 16-bit samples, interpolating linearly.
+ * Downsampling first applies a windowed-sinc low-pass filter below the
+ * output Nyquist frequency, so higher frequencies do not alias into the
+ * output. State is carried across `process()` calls so chunk boundaries
+ * are seamless.
+ *
+ * @example
+ * ```ts
+ * const resampler = new Resampler({ from_rate: 8000, to_rate: 24000 });
+ * for (const chunk of chunks) {
+ *   send(resampler.process(chunk));
+ * }
+ * send(resampler.flush());
+ * ```
+ */
+export class Resampler {
+  private readonly step: number;
+  private readonly filter: LowPassFilter | null;
+  /** Position of the next output sample, relative to `previous` */
+  private position = 0;
+  /** Last input sample of the previous chunk */
+  private previous: number | null = null;
+
+  constructor(options: ResamplerOptions) {
+    if (options.from_rate <= 0 || options.to_rate <= 0) {
+      throw new RangeError("Sample rates must be positive");
+    }
+    this.step = options.from_rate / options.to_rate;
+    this.filter =
+      this.step > 1
+        ? new LowPassFilter(
+            (0.5 * LOW_PASS_CUTOFF) / this.step,
+            LOW_PASS_HALF_TAPS * Math.ceil(this.step)
+          )
+        : null;
+  }
+
+  /**
+   * Resample the next chunk of samples
+   */
+  process(samples: Int16Array): Int16Array {
+    if (this.step === 1) {
+      return samples;
+    }
+    return this.interpolate(
+      this.filter ? this.filter.process(samples) : samples
+    );
+  }
+
+  private interpolate(input: Int16Array): Int16Array {
+    const previous = this.previous;
+    const shift = previous === null ? 0 : 1;
+    const length = input.length + shift;
+    const at = (i: number): number =>
+      i < shift ? (previous as number) : input[i - shift];
+
+    const output = new Int16Array(
+      Math.max(0, Math.ceil((length - 1 - this.position) / this.step) + 1)
+    );
+    let count = 0;
+    let position = this.position;
+
+    while (position < length - 1 && count < output.length) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const current = at(index);
+      output[count++] = Math.round(
+        current + (at(index + 1) - current) * fraction
+      );
+      position += this.step;
+    }
+
+    if (length > 0) {
+      // Re-base so the last sample becomes index 0 of the next chunk
+      this.previous = at(length - 1);
+      this.position = position - (length - 1);
+    }
+
+    return output.subarray(0, count);
+  }
+
+  /**
+   * Emit the samples held back by the filter, and the final sample if it
+   * falls exactly on an output position, and reset
+   */
+  flush(): Int16Array {
+    const body = this.filter
+      ? this.interpolate(this.filter.flush())
+      : new Int16Array(0);
+    const last =
+      this.previous !== null && this.position <= 0 ? [this.previous] : [];
+    this.previous = null;
+    this.position = 0;
+
+    const tail = new Int16Array(body.length + last.length);
+    tail.set(body);
+    tail.set(last, body.length);
+    return tail;
+  }
+}
+
+/**
+ * Resample a complete buffer of mono 16-bit samples
+ */
+export function resample(
+  samples: Int16Array,
+  fromRate: number,
+  toRate: number
+): Int16Array {
+  const resampler = new Resampler({ from_rate: fromRate, to_rate: toRate });
+  const body = resampler.process(samples);
+  const tail = resampler.flush();
+  if (tail.length === 0) {
+    return body;
+  }
+  const result = new Int16Array(body.length + tail.length);
+  result.set(body);
+  result.set(tail, body.length);
+  return result;
+}
+
+/**
+ * Average interleaved channels into a mono signal
+ */
+export function downmix(samples: Int16Array, channels: number): Int16Array {
+  if (channels === 1) {
+    return samples;
+  }
+
+  const frames = Math.floor(samples.length / channels);
+  const mono = new Int16Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += samples[frame * channels + channel];
+    }
+    mono[frame] = Math.round(sum / channels);
+  }
+  return mono;
+}
+
+export type PCMConverterOptions = ResamplerOptions & {
+  /** Number of interleaved input channels (default: 1) */
+  channels?: number;
+};
+
+/**
+ * Converts arbitrarily sized chunks of 16-bit PCM bytes to mono at a target rate.
+ * Partial sample frames are held back until the next chunk completes them.
+ */
+export class PCMConverter {
+  private readonly channels: number;
+  private readonly resampler: Resampler;
+  private pending: Uint8Array = new Uint8Array(0);
+
+  constructor(options: PCMConverterOptions) {
+    this.channels = options.channels ?? 1;
+    this.resampler = new Resampler(options);
+  }
+
+  /**
+   * Convert the next chunk of PCM bytes
+   */
+  process(bytes: Uint8Array): Uint8Array {
+    const frameBytes = this.channels * 2;
+    const input =
+      this.pending.length > 0 ? concatBytes([this.pending, bytes]) : bytes;
+    const usable = input.length - (input.length % frameBytes);
+    this.pending = input.slice(usable);
+
+    const samples = downmix(
+      bytesToSamples(input.subarray(0, usable)),
+      this.channels
+    );
+    return samplesToBytes(this.resampler.process(samples));
+  }
+
+  /**
+   * Emit any buffered output and reset
+   */
+  flush(): Uint8Array {
+    this.pending = new Uint8Array(0);
+    return samplesToBytes(this.resampler.flush());
+  }
+}
@@ -0,0 +1,201 @@
+import type { SilenceGateOptions } from "../types";
+import { bytesToSamples, concatBytes } from "./pcm";
+
+const DEFAULT_THRESHOLD_DBFS = -45;
+const DEFAULT_MAX_SILENCE_S = 1;
+const DEFAULT_PRE_ROLL_S = 0.2;
+/** Length of the windows whose level is measured */
+const WINDOW_S = 0.01;
+/** Full scale of 16-bit samples */
+const FULL_SCALE = 32_768;
+
+/** Output sample where audio resumes after a skip, and the input sample it comes from */
+type Anchor = { output: number; input: number };
+
+/**
+ * Energy-based gate that shortens long silences in mono 16-bit PCM.
+ *
+ * Audio is measured in 10ms windows. Each silent span keeps its first
+ * `max_silence_s`; the rest is skipped, except the last `pre_roll_s`, which is
+ * emitted when speech resumes so soft onsets are not clipped. The gate keeps
+ * a map from output positions back to input positions.
+ *
+ * @example
+ * ```ts
+ * const gate = new SilenceGate(24000, { max_silence_s: 0.5 });
+ * send(gate.process(chunk));
+ * // Timestamps of the gated audio, back on the original timeline
+ * const start = gate.toSourceTime(result.start_s);
+ * ```
+ */
+export class SilenceGate {
+  private readonly sampleRate: number;
+  private readonly windowBytes: number;
+  /** Mean square below which a window is silent */
+  private readonly threshold: number;
+  private readonly maxSilence: number;
+  private readonly preRoll: number;
+  private pending: Uint8Array = new Uint8Array(0);
+  /** Samples in the current silent span */
+  private silentRun = 0;
+  private skipping = false;
+  /** Latest skipped windows, up to the pre-roll */
+  private held: Uint8Array[] = [];
+  private heldSamples = 0;
+  private inputSamples = 0;
+  private outputSamples = 0;
+  private readonly anchors: Anchor[] = [{ output: 0, input: 0 }];
+
+  constructor(sampleRate: number, options: SilenceGateOptions = {}) {
+    if (!(sampleRate > 0)) {
+      throw new RangeError("Sample rate must be positive");
+    }
+    this.sampleRate = sampleRate;
+    this.windowBytes = Math.max(1, Math.round(sampleRate * WINDOW_S)) * 2;
+    const level =
+      FULL_SCALE *
+      10 ** ((options.threshold_dbfs ?? DEFAULT_THRESHOLD_DBFS) / 20);
+    this.threshold = level * level;
+    this.maxSilence = Math.round(
+      (options.max_silence_s ?? DEFAULT_MAX_SILENCE_S) * sampleRate
+    );
+    this.preRoll = Math.round(
+      (options.pre_roll_s ?? DEFAULT_PRE_ROLL_S) * sampleRate
+    );
+  }
+
+  /**
+   * Gate the next chunk of PCM bytes
+   * A trailing partial window is held back until the next chunk completes it.
+   */
+  process(bytes: Uint8Array): Uint8Array {
+    const input =
+      this.pending.length > 0 ? concatBytes([this.pending, bytes]) : bytes;
+    const usable = input.length - (input.length % this.windowBytes);
+    this.pending = input.slice(usable);
+
+    const output: Uint8Array[] = [];
+    for (let offset = 0; offset < usable; offset += this.windowBytes) {
+      const window = input.subarray(offset, offset + this.windowBytes);
+      output.push(...this.gate(window));
+    }
+    return concatBytes(output);
+  }
+
+  /**
+   * Emit the trailing partial window, unless it falls in skipped silence
+   * The timeline map is kept, so late timestamps can still be converted.
+   */
+  flush(): Uint8Array {
+    const rest = this.pending.subarray(
+      0,
+      this.pending.length - (this.pending.length % 2)
+    );
+    this.pending = new Uint8Array(0);
+    const samples = rest.length / 2;
+    this.inputSamples += samples;
+    if (this.skipping) {
+      return new Uint8Array(0);
+    }
+    this.outputSamples += samples;
+    return rest;
+  }
+
+  private gate(window: Uint8Array): Uint8Array[] {
+    const samples = window.length / 2;
+    const silent = meanSquare(bytesToSamples(window)) < this.threshold;
+    this.inputSamples += samples;
+
+    if (!silent) {
+      const output = this.resume();
+      output.push(window);
+      this.silentRun = 0;
+      this.outputSamples += samples;
+      return output;
+    }
+
+    this.silentRun += samples;
+    if (this.silentRun <= this.maxSilence) {
+      this.outputSamples += samples;
+      return [window];
+    }
+
+    this.skipping = true;
+    this.held.push(window);
+    this.heldSamples += samples;
+    while (this.heldSamples > this.preRoll) {
+      const oldest = this.held.shift();
+      this.heldSamples -= (oldest?.length ?? 0) / 2;
+    }
+    return [];
+  }
+
+  /**
+   * End a skip: emit the pre-roll and record where the output rejoins the input
+   */
+  private resume(): Uint8Array[] {
+    if (!this.skipping) {
+      return [];
+    }
+    const preRoll = this.held;
+    // The current window was already counted as input
+    const window = this.windowBytes / 2;
+    this.anchors.push({
+      output: this.outputSamples,
+      input: this.inputSamples - window - this.heldSamples,
+    });
+    this.outputSamples += this.heldSamples;
+    this.skipping = false;
+    this.held = [];
+    this.heldSamples = 0;
+    return preRoll;
+  }
+
+  /**
+   * Convert a time in the gated output to the matching time in the input
+   * @param seconds - Position in the gated audio, in seconds
+   */
+  toSourceTime(seconds: number): number {
+    const position = seconds * this.sampleRate;
+    let low = 0;
+    let high = this.anchors.length - 1;
+    // Last anchor at or before the position
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.anchors[middle].output <= position) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    const anchor = this.anchors[low];
+    return (anchor.input + position - anchor.output) / this.sampleRate;
+  }
+
+  /**
+   * Seconds of input audio the gate has consumed
+   */
+  get inputDuration(): number {
+    return this.inputSamples / this.sampleRate;
+  }
+
+  /**
+   * Seconds of input audio skipped so far
+   */
+  get skippedDuration(): number {
+    return (
+      (this.inputSamples -
+        this.outputSamples -
+        (this.skipping ? this.heldSamples : 0)) /
+      this.sampleRate
+    );
+  }
+}
+
+function meanSquare(samples: Int16Array): number {
+  let sum = 0;
+  for (const sample of samples) {
+    sum += sample * sample;
+  }
+  return samples.length > 0 ? sum / samples.length : 0;
+}
@@ -0,0 +1,162 @@
+// biome-ignore-all lint/suspicious/noBitwiseOperators: the Ogg CRC is specified on bit fields
+import { GradiumError } from "../errors";
+import type { TTSOutputFormat } from "../types";
+import { getAudioFormatInfo } from "./formats";
+import { encodeALaw, encodeMuLaw } from "./g711";
+import { concatBytes } from "./pcm";
+import { encodeWav } from "./wav";
+
+/** Samples per Opus frame (20ms at 48kHz) */
+const OPUS_FRAME_SAMPLES = 960;
+/** A 20ms CELT frame that decodes to silence */
+const OPUS_SILENT_FRAME = Uint8Array.of(0xf8, 0xff, 0xfe);
+/** Packets per Ogg page, one lacing value each */
+const OGG_PAGE_PACKETS = 255;
+const OGG_BEGIN_OF_STREAM = 0x02;
+const OGG_END_OF_STREAM = 0x04;
+const OPUS_VENDOR = "gradium-sdk-js";
+
+const OGG_CRC_TABLE = Uint32Array.from({ length: 256 }, (_, i) => {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80_00_00_00 ? (crc << 1) ^ 0x04_c1_1d_b7 : crc << 1;
+  }
+  return crc >>> 0;
+});
+
+function oggCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc = (crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff];
+  }
+  return crc >>> 0;
+}
+
+type OggPage = {
+  packets: Uint8Array[];
+  flags: number;
+  granule: number;
+  sequence: number;
+};
+
+/**
+ * Encode one Ogg page holding whole packets shorter than 255 bytes
+ */
+function oggPage(page: OggPage, serial: number): Uint8Array {
+  const bodySize = page.packets.reduce((sum, packet) => sum + packet.length, 0);
+  const headerSize = 27 + page.packets.length;
+  const bytes = new Uint8Array(headerSize + bodySize);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, page.flags);
+  view.setBigUint64(6, BigInt(page.granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, page.sequence, true);
+  view.setUint8(26, page.packets.length);
+
+  let offset = headerSize;
+  for (const [index, packet] of page.packets.entries()) {
+    bytes[27 + index] = packet.length;
+    bytes.set(packet, offset);
+    offset += packet.length;
+  }
+
+  view.setUint32(22, oggCrc(bytes), true);
+  return bytes;
+}
+
+function opusHeaders(sampleRate: number, channels: number): Uint8Array[] {
+  const encoder = new TextEncoder();
+
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(encoder.encode("OpusHead"));
+  headView.setUint8(8, 1); // version
+  headView.setUint8(9, channels);
+  headView.setUint16(10, 0, true); // pre-skip
+  headView.setUint32(12, sampleRate, true);
+
+  const vendor = encoder.encode(OPUS_VENDOR);
+  const tags = new Uint8Array(16 + vendor.length);
+  const tagsView = new DataView(tags.buffer);
+  tags.set(encoder.encode("OpusTags"));
+  tagsView.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  // No user comments: the trailing count stays zero
+
+  return [head, tags];
+}
+
+/**
+ * Ogg Opus stream of silent 20ms frames, as a link that can be chained
+ * after other Ogg streams
+ */
+function opusSilence(
+  frames: number,
+  sampleRate: number,
+  channels: number
+): Uint8Array[] {
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const [head, tags] = opusHeaders(sampleRate, channels);
+  const pages = [
+    { packets: [head], flags: OGG_BEGIN_OF_STREAM, granule: 0 },
+    { packets: [tags], flags: 0, granule: 0 },
+  ];
+
+  for (let start = 0; start < frames; start += OGG_PAGE_PACKETS) {
+    const count = Math.min(OGG_PAGE_PACKETS, frames - start);
+    pages.push({
+      packets: Array.from({ length: count }, () => OPUS_SILENT_FRAME),
+      flags: start + count === frames ? OGG_END_OF_STREAM : 0,
+      granule: (start + count) * OPUS_FRAME_SAMPLES,
+    });
+  }
+
+  return pages.map((page, sequence) => oggPage({ ...page, sequence }, serial));
+}
+
+/**
+ * Generate silence in a TTS output format, laid out like the audio the
+ * server returns in that format: a WAV file for `wav`, a chainable Ogg Opus
+ * stream for `opus` (rounded up to whole 20ms frames), raw samples otherwise.
+ * A zero duration gives no bytes, except the header of a WAV file.
+ *
+ * @example
+ * ```ts
+ * const pause = createSilence('ulaw_8000', 0.5); // 4000 µ-law bytes
+ * ```
+ */
+export function createSilence(
+  format: TTSOutputFormat,
+  duration_s: number
+): Uint8Array {
+  if (!Number.isFinite(duration_s) || duration_s < 0) {
+    throw new GradiumError(`Invalid silence duration: ${duration_s}`);
+  }
+
+  const info = getAudioFormatInfo(format);
+  if (info.encoding === "opus") {
+    const frames = Math.ceil(
+      (duration_s * info.sample_rate) / OPUS_FRAME_SAMPLES
+    );
+    return frames === 0
+      ? new Uint8Array(0)
+      : concatBytes(opusSilence(frames, info.sample_rate, info.channels));
+  }
+
+  const samples = new Int16Array(
+    Math.round(duration_s * info.sample_rate) * info.channels
+  );
+  if (info.encoding === "mulaw") {
+    return encodeMuLaw(samples);
+  }
+  if (info.encoding === "alaw") {
+    return encodeALaw(samples);
+  }
+
+  const pcm = new Uint8Array(samples.buffer);
+  return info.container === "wav"
+    ? encodeWav(pcm, { sample_rate: info.sample_rate, channels: info.channels })
+    : pcm;
+}
@@ -0,0 +1,238 @@
+import { GradiumError } from "../errors";
+import type { AudioEncoding } from "../types";
+
+/** WAVE format codes from the RIFF specification */
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_ALAW = 6;
+const WAVE_FORMAT_MULAW = 7;
+const WAVE_FORMAT_EXTENSIBLE = 0xff_fe;
+
+/** Placeholder size written by streaming encoders */
+const UNKNOWN_SIZE = 0xff_ff_ff_ff;
+
+export type WavFormat = {
+  /** Sample rate in Hz */
+  sample_rate: number;
+  /** Number of channels (default: 1) */
+  channels?: number;
+  /** Sample encoding (default: 'pcm_s16le') */
+  encoding?: Exclude<AudioEncoding, "opus">;
+};
+
+export type WavInfo = {
+  /** WAVE format code (1 = PCM, 6 = A-law, 7 = µ-law) */
+  format_code: number;
+  /** Sample encoding, or null when not supported by the SDK */
+  encoding: Exclude<AudioEncoding, "opus"> | null;
+  /** Sample rate in Hz */
+  sample_rate: number;
+  /** Number of channels */
+  channels: number;
+  /** Bits per sample */
+  bit_depth: number;
+  /** Bytes per sample frame (all channels) */
+  block_align: number;
+  /** Byte offset of the first sample */
+  data_offset: number;
+  /** Size of the sample data in bytes, clamped to the available bytes */
+  data_size: number;
+};
+
+function formatCode(encoding: Exclude<AudioEncoding, "opus">): number {
+  switch (encoding) {
+    case "pcm_s16le":
+      return WAVE_FORMAT_PCM;
+    case "alaw":
+      return WAVE_FORMAT_ALAW;
+    case "mulaw":
+      return WAVE_FORMAT_MULAW;
+  }
+}
+
+function writeTag(view: DataView, offset: number, tag: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, tag.charCodeAt(i));
+  }
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Create a RIFF/WAV header for `dataSize` bytes of samples.
+ * PCM uses the canonical 44-byte header; µ-law and A-law add the
+ * `cbSize` field and `fact` chunk required for non-PCM formats.
+ */
+export function createWavHeader(
+  format: WavFormat,
+  dataSize: number
+): Uint8Array {
+  const encoding = format.encoding ?? "pcm_s16le";
+  const channels = format.channels ?? 1;
+  const isPCM = encoding === "pcm_s16le";
+  const bitDepth = isPCM ? 16 : 8;
+  const blockAlign = (channels * bitDepth) / 8;
+  const fmtSize = isPCM ? 16 : 18;
+  const factSize = isPCM ? 0 : 12;
+  const headerSize = 12 + 8 + fmtSize + factSize + 8;
+
+  const header = new Uint8Array(headerSize);
+  const view = new DataView(header.buffer);
+
+  writeTag(view, 0, "RIFF");
+  view.setUint32(4, headerSize - 8 + dataSize, true);
+  writeTag(view, 8, "WAVE");
+
+  writeTag(view, 12, "fmt ");
+  view.setUint32(16, fmtSize, true);
+  view.setUint16(20, formatCode(encoding), true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, format.sample_rate, true);
+  view.setUint32(28, format.sample_rate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  let offset = 36;
+  if (!isPCM) {
+    view.setUint16(offset, 0, true); // cbSize
+    offset += 2;
+    writeTag(view, offset, "fact");
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, dataSize / blockAlign, true);
+    offset += 12;
+  }
+
+  writeTag(view, offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+
+  return header;
+}
+
+/**
+ * Wrap raw PCM, µ-law or A-law samples in a WAV container
+ *
+ * @example
+ * ```ts
+ * const result = await client.tts.create({ voice_id, output_format: 'pcm_16000', text });
+ * const wav = encodeWav(result.raw_data, { sample_rate: 16000 });
+ * ```
+ */
+export function encodeWav(data: Uint8Array, format: WavFormat): Uint8Array {
+  const header = createWavHeader(format, data.length);
+  const wav = new Uint8Array(header.length + data.length);
+  wav.set(header);
+  wav.set(data, header.length);
+  return wav;
+}
+
+/**
+ * Check whether the bytes start with a RIFF/WAVE header
+ */
+export function isWav(data: Uint8Array): boolean {
+  if (data.length < 12) {
+    return false;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return readTag(view, 0) === "RIFF" && readTag(view, 8) === "WAVE";
+}
+
+/**
+ * Parse the header of a WAV file.
+ * Tolerates streamed files whose size fields are unset or too large.
+ *
+ * @throws GradiumError if the bytes are not a WAV file or lack fmt/data chunks
+ */
+export function parseWav(data: Uint8Array): WavInfo {
+  if (!isWav(data)) {
+    throw new GradiumError("Invalid WAV file: missing RIFF/WAVE header");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let fmt: Omit<WavInfo, "data_offset" | "data_size"> | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === "fmt ") {
+      if (body + 16 > data.length) {
+        break;
+      }
+      let code = view.getUint16(body, true);
+      const bitDepth = view.getUint16(body + 14, true);
+      if (code === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        // The sub-format GUID starts with the actual format code
+        code = view.getUint16(body + 24, true);
+      }
+      fmt = {
+        format_code: code,
+        encoding: encodingFor(code, bitDepth),
+        channels: view.getUint16(body + 2, true),
+        sample_rate: view.getUint32(body + 4, true),
+        block_align: view.getUint16(body + 12, true),
+        bit_depth: bitDepth,
+      };
+    } else if (tag === "data") {
+      if (!fmt) {
+        break;
+      }
+      // Streaming encoders leave the size at 0 or 0xFFFFFFFF
+      const available = data.length - body;
+      const unknown = size === 0 || size === UNKNOWN_SIZE;
+      return {
+        ...fmt,
+        data_offset: body,
+        data_size: unknown ? available : Math.min(size, available),
+      };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+
+  throw new GradiumError(
+    fmt
+      ? "Invalid WAV file: missing data chunk"
+      : "Invalid WAV file: missing fmt chunk"
+  );
+}
+
+function encodingFor(
+  code: number,
+  bitDepth: number
+): Exclude<AudioEncoding, "opus"> | null {
+  if (code === WAVE_FORMAT_PCM && bitDepth === 16) {
+    return "pcm_s16le";
+  }
+  if (code === WAVE_FORMAT_ALAW) {
+    return "alaw";
+  }
+  if (code === WAVE_FORMAT_MULAW) {
+    return "mulaw";
+  }
+  return null;
+}
+
+/**
+ * Rewrite the RIFF and data chunk sizes of a WAV file to match its length.
+ * Streaming encoders write placeholder sizes because the final length is
+ * unknown when the header is sent. The bytes are patched in place.
+ */
+export function patchWavHeader(data: Uint8Array): Uint8Array {
+  const info = parseWav(data);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const dataSize = data.length - info.data_offset;
+
+  view.setUint32(4, data.length - 8, true);
+  view.setUint32(info.data_offset - 4, dataSize, true);
+
+  return data;
+}
@@ -1,15 +1,37 @@
-import { AuthenticationError } from "./errors";
+import {
+  AuthenticationError,
+  ConnectionError,
+  GradiumError,
+  handleAPIError,
+} from "./errors";
 import { Credits } from "./resources/credits";
 import { STT } from "./resources/stt";
 import { TTS } from "./resources/tts";
 import { Voices } from "./resources/voices";
-import type { GradiumClientOptions, Region } from "./types";
+import type {
+  FetchLike,
+  GradiumClientOptions,
+  Region,
+  RequestOptions,
+  WebSocketConstructor,
+  WebSocketLike,
+} from "./types";
+import { DEFAULT_TIMEOUT, Deadline } from "./utils/abort";
+import {
+  nonIdempotentRetryPolicy,
+  type RetryPolicy,
+  resolveRetryPolicy,
+  withRetry,
+} from "./utils/retry";
 
 const API_URLS: Record<Region, string> = {
   eu: "https://eu.api.gradium.ai/api",
   us: "https://us.api.gradium.ai/api",
 };
 
+/** Methods that can be repeated without changing the result */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
 const WS_URLS: Record<Region, string> = {
   eu: "wss://eu.api.gradium.ai/api/speech",
   us: "wss://us.api.gradium.ai/api/speech",
@@ -53,6 +75,9 @@ export class Gradium {
   /** Request timeout in milliseconds */
   readonly timeout: number;
 
+  /** Retry policy applied to REST calls and WebSocket connections */
+  readonly retry: RetryPolicy;
+
   /** Voices resource for managing custom voice clones */
   readonly voices: Voices;
 
@@ -65,6 +90,9 @@ export class Gradium {
   /** STT resource for speech-to-text conversion */
   readonly stt: STT;
 
+  private readonly fetchImpl?: FetchLike;
+  private readonly WebSocketImpl?: WebSocketConstructor;
+
   constructor(options: GradiumClientOptions = {}) {
     // Get API key from options or environment
     const apiKey = options.apiKey ?? process.env.GRADIUM_API_KEY;
@@ -77,7 +105,10 @@ export class Gradium {
 
     this.apiKey = apiKey;
     this.region = options.region ?? "eu";
-    this.timeout = options.timeout ?? 30_000;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.fetchImpl = options.fetch;
+    this.WebSocketImpl = options.WebSocket;
+    this.retry = resolveRetryPolicy(options.retry);
 
     // Set base URLs
     if (options.baseURL) {
@@ -105,6 +136,100 @@ export class Gradium {
       Accept: "application/json",
     };
   }
+
+  /**
+   * Perform an HTTP request with the configured fetch implementation
+   */
+  fetch(url: string, init?: RequestInit): Promise<Response> {
+    // Resolve the global lazily so it can be replaced after construction
+    const fetchImpl = this.fetchImpl ?? globalThis.fetch;
+    return fetchImpl(url, init);
+  }
+
+  /**
+   * Perform an API request and parse its JSON body, retrying transient
+   * failures and throwing the appropriate error for non-2xx responses
+   * The body is read under the same timeout and signal as the request.
+   * Requests that are not idempotent (see `RequestOptions.idempotent`) are
+   * only retried when rate limited.
+   */
+  request<T>(
+    url: string,
+    init: RequestInit = {},
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const timeout = options.timeout ?? this.timeout;
+    const idempotent =
+      options.idempotent ??
+      IDEMPOTENT_METHODS.has((init.method ?? "GET").toUpperCase());
+    const policy = idempotent
+      ? this.retry
+      : nonIdempotentRetryPolicy(this.retry);
+
+    return withRetry(
+      async () => {
+        const deadline = new Deadline(timeout, options.signal);
+
+        try {
+          const response = await this.fetch(url, {
+            ...init,
+            headers: { ...init.headers, ...options.headers },
+            signal: deadline.signal,
+          });
+
+          if (!response.ok) {
+            await handleAPIError(response);
+          }
+
+          // An empty body, as from DELETE, resolves to undefined
+          const body = await response.text();
+          return (body ? JSON.parse(body) : undefined) as T;
+        } catch (e) {
+          if (deadline.signal.aborted) {
+            throw deadline.signal.reason;
+          }
+          if (e instanceof GradiumError) {
+            throw e;
+          }
+          throw new ConnectionError(
+            e instanceof Error ? e.message : "Failed to connect to the API"
+          );
+        } finally {
+          deadline.dispose();
+        }
+      },
+      policy,
+      options.signal
+    );
+  }
+
+  /**
+   * Run an operation under the client's retry policy
+   */
+  withRetry<T>(
+    fn: (attempt: number) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return withRetry(fn, this.retry, signal);
+  }
+
+  /**
+   * Open an authenticated WebSocket with the configured implementation
+   */
+  createWebSocket(
+    url: string,
+    headers: Record<string, string> = {}
+  ): WebSocketLike {
+    const WebSocketImpl =
+      this.WebSocketImpl ??
+      (globalThis.WebSocket as unknown as WebSocketConstructor);
+    return new WebSocketImpl(url, {
+      headers: {
+        ...headers,
+        "x-api-key": this.apiKey,
+      },
+    });
+  }
 }
 
 export default Gradium;
@@ -108,6 +108,18 @@ export class WebSocketError extends GradiumError {
   }
 }
 
+/**
+ * Error thrown when a WebSocket connection closes unexpectedly, with the
+ * close code (such as 1006 when the connection dropped)
+ */
+export class WebSocketCloseError extends WebSocketError {
+  constructor(message: string, code?: number) {
+    super(message, code);
+    this.name = "WebSocketCloseError";
+    Object.setPrototypeOf(this, WebSocketCloseError.prototype);
+  }
+}
+
 /**
  * Error thrown when a request times out
  */
@@ -119,6 +131,17 @@ export class TimeoutError extends GradiumError {
   }
 }
 
+/**
+ * Error thrown when a request is cancelled through an AbortSignal
+ */
+export class AbortError extends GradiumError {
+  constructor(message = "Request was aborted") {
+    super(message);
+    this.name = "AbortError";
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
 /**
  * Error thrown when a connection fails
  */
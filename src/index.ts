@@ -35,10 +35,40 @@
  * @packageDocumentation
  */
 
+export type {
+  PCMConverterOptions,
+  ResamplerOptions,
+  WavFormat,
+  WavInfo,
+} from "./audio";
+// Audio utilities
+export {
+  bytesToSamples,
+  concatBytes,
+  createSilence,
+  createWavHeader,
+  decodeALaw,
+  decodeMuLaw,
+  downmix,
+  encodeALaw,
+  encodeMuLaw,
+  encodeWav,
+  getAudioDuration,
+  getAudioFormatInfo,
+  isWav,
+  PCMConverter,
+  parseWav,
+  patchWavHeader,
+  Resampler,
+  resample,
+  SilenceGate,
+  samplesToBytes,
+} from "./audio";
 // Main client
 export { default, Gradium } from "./client";
 // Errors
 export {
+  AbortError,
   APIError,
   AuthenticationError,
   ConnectionError,
@@ -48,6 +78,7 @@ export {
   RateLimitError,
   TimeoutError,
   ValidationError,
+  WebSocketCloseError,
   WebSocketError,
 } from "./errors";
 export { Credits } from "./resources/credits";
@@ -55,31 +86,109 @@ export { STT, STTStream } from "./resources/stt";
 export { TTS, TTSStream } from "./resources/tts";
 // Resources
 export { Voices } from "./resources/voices";
-
+// STT utilities
+export {
+  buildCues,
+  CueBuilder,
+  formatSRTCue,
+  formatWebVTTCue,
+  stitchTranscripts,
+  TranscriptBuilder,
+  TurnDetector,
+  toSRT,
+  toWebVTT,
+  toWordTimings,
+} from "./stt";
+// TTS utilities
+export {
+  chunkTextStream,
+  createTextNormalizer,
+  Lexicon,
+  normalizeText,
+  parseMarkup,
+  registerNormalizer,
+  splitText,
+  TextChunker,
+} from "./tts";
 // Types
 export type {
+  // Audio
+  AudioEncoding,
+  AudioFormatInfo,
+  AudioInput,
+  AudioSource,
+  BatchProgress,
   // Credits
   CreditsSummary,
   // Client
+  FetchLike,
+  FinalizedSegment,
   GradiumClientOptions,
   HTTPValidationError,
+  LexiconData,
+  LexiconEntry,
+  LexiconEntryOptions,
+  ListenerErrorEvent,
+  MarkupSpan,
+  ReconnectedEvent,
+  ReconnectingEvent,
   Region,
+  RequestOptions,
+  RetryOptions,
+  SilenceGateOptions,
+  SilenceSplitOptions,
+  SpeechEvent,
+  STTBatchOptions,
+  STTBatchResult,
+  STTCollectOptions,
+  STTCollectTranscriptOptions,
+  STTCueOptions,
   STTEndTextMessage,
   STTInputFormat,
+  STTLongTranscriptionOptions,
   STTReadyMessage,
+  STTReconnectOptions,
+  STTServerInputFormat,
   STTServerMessage,
   // STT
   STTSetupParams,
   STTStepMessage,
+  STTStreamAudioOptions,
+  STTStreamEvents,
+  STTStreamOptions,
   STTTextMessage,
+  STTTextStreamOptions,
+  STTTranscribeParams,
+  StreamOptions,
+  SubtitleCue,
+  SubtitleOptions,
+  SynthesisProgress,
+  TextChunkerOptions,
+  TextNormalizationOptions,
+  TextNormalizer,
+  TextSegmentOptions,
+  Transcript,
+  TranscriptionProgress,
+  TranscriptOptions,
+  TranscriptSegment,
+  TranscriptUtterance,
   TTSAudioMessage,
+  TTSCollectOptions,
   TTSErrorMessage,
+  TTSLongFormOptions,
+  TTSMarkupOptions,
   TTSOutputFormat,
   TTSReadyMessage,
   TTSResult,
+  TTSSegment,
   TTSServerMessage,
   // TTS
   TTSSetupParams,
+  TTSStreamOptions,
+  TTSStreamTextOptions,
+  TurnDetectionOptions,
+  TurnEndEvent,
+  TurnEvent,
   VADPrediction,
   // Errors
   ValidationErrorDetail,
@@ -89,4 +198,7 @@ export type {
   VoiceCreateResponse,
   VoiceListParams,
   VoiceUpdateParams,
+  WebSocketConstructor,
+  WebSocketLike,
+  WordTimings,
 } from "./types";
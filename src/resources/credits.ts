@@ -1,6 +1,5 @@
 import type { Gradium } from "../client";
-import { handleAPIError } from "../errors";
-import type { CreditsSummary } from "../types";
+import type { CreditsSummary, RequestOptions } from "../types";
 
 /**
  * Credits resource for monitoring API credit balance
@@ -23,16 +22,14 @@ export class Credits {
    * console.log(`Next rollover: ${credits.next_rollover_date}`);
    * ```
    */
-  async get(): Promise<CreditsSummary> {
-    const response = await fetch(`${this.client.baseURL}/usages/credits`, {
-      method: "GET",
-      headers: this.client.headers,
-    });
-
-    if (!response.ok) {
-      await handleAPIError(response);
-    }
-
-    return response.json();
+  async get(options?: RequestOptions): Promise<CreditsSummary> {
+    return this.client.request(
+      `${this.client.baseURL}/usages/credits`,
+      {
+        method: "GET",
+        headers: this.client.headers,
+      },
+      options
+    );
   }
 }
@@ -1,23 +1,105 @@
+import { decodeALaw, decodeMuLaw } from "../audio/g711";
+import { samplesToBytes } from "../audio/pcm";
+import { PCMConverter } from "../audio/resample";
+import { SilenceGate } from "../audio/silence-gate";
 import type { Gradium } from "../client";
-import { ConnectionError, WebSocketError } from "../errors";
+import {
+  AbortError,
+  ConnectionError,
+  GradiumError,
+  WebSocketCloseError,
+  WebSocketError,
+} from "../errors";
+import { detectSTTInput, openSTTInput } from "../stt/input";
+import { findSilenceSplits, prepareLongFormSource } from "../stt/long-form";
+import { CueBuilder } from "../stt/subtitles";
+import { stitchTranscripts, TranscriptBuilder } from "../stt/transcript";
+import { TurnDetector } from "../stt/turn-detector";
 import type {
+  AudioInput,
+  AudioSource,
+  RequestOptions,
+  SilenceGateOptions,
   STTAudioMessage,
+  STTBatchOptions,
+  STTBatchResult,
+  STTCollectOptions,
+  STTCollectTranscriptOptions,
+  STTCueOptions,
+  STTEndTextMessage,
+  STTInputFormat,
+  STTLongTranscriptionOptions,
   STTReadyMessage,
+  STTServerInputFormat,
   STTServerMessage,
   STTSetupMessage,
   STTSetupParams,
   STTStepMessage,
+  STTStreamAudioOptions,
+  STTStreamEvents,
+  STTStreamOptions,
   STTTextMessage,
+  STTTranscribeParams,
+  StreamOptions,
+  SubtitleCue,
+  Transcript,
+  TranscriptOptions,
+  WebSocketLike,
 } from "../types";
+import { DEFAULT_TIMEOUT, Deadline } from "../utils/abort";
+import { readAudioInput } from "../utils/audio-input";
+import { encodeBase64 } from "../utils/base64";
+import { BroadcastQueue } from "../utils/broadcast-queue";
+import { mapConcurrent } from "../utils/concurrency";
+import { Emitter, type Listener } from "../utils/emitter";
+import { Framer } from "../utils/framer";
+import { sessionRetryPolicy, sleep, withRetry } from "../utils/retry";
+
+/** G.711 decoders, keyed by the input format they handle */
+const G711_DECODERS: Partial<
+  Record<STTInputFormat, (bytes: Uint8Array) => Int16Array>
+> = {
+  ulaw_8000: decodeMuLaw,
+  alaw_8000: decodeALaw,
+};
+
+/** G.711 input is narrowband telephony audio */
+const G711_SAMPLE_RATE = 8000;
+
+/** The server expects 16-bit PCM */
+const BYTES_PER_SAMPLE = 2;
+
+/** Reconnections tried in a row before a resilient stream fails */
+const DEFAULT_RECONNECT_ATTEMPTS = 3;
+/** Seconds of sent audio a resilient stream keeps for replay */
+const DEFAULT_REPLAY_BUFFER_S = 30;
+/** Replayed text starting within this of already delivered text is a duplicate */
+const DUPLICATE_TEXT_TOLERANCE_S = 0.001;
+
+/** Sessions running at once in transcribeLong() and transcribeBatch() */
+const DEFAULT_SESSION_CONCURRENCY = 3;
+/** Retries of a failed session in transcribeLong() and transcribeBatch() */
+const DEFAULT_SESSION_RETRIES = 2;
+
+/** Reconnection settings of a resilient stream, with defaults applied */
+type ReconnectConfig = Required<NonNullable<STTStreamOptions["reconnect"]>>;
+
+/**
+ * Map an SDK input format to the format sent to the server
+ */
+function toServerInputFormat(format: STTInputFormat): STTServerInputFormat {
+  return G711_DECODERS[format] ? "pcm" : (format as STTServerInputFormat);
+}
 
 /**
  * STT Stream for handling speech-to-text streaming
  */
 export class STTStream {
-  private readonly ws: WebSocket;
+  private ws: WebSocketLike;
   private requestId = "";
   private sampleRate = 24_000;
   private frameSize = 1920;
+  private textStreamNames: string[] = [];
   private isReady = false;
   private readonly readyPromise: Promise<STTReadyMessage>;
   private readyResolve!: (value: STTReadyMessage) => void;
@@ -25,12 +107,65 @@ export class STTStream {
   private readonly endPromise: Promise<void>;
   private endResolve!: () => void;
   private endReject!: (error: Error) => void;
-  private readonly messageQueue: STTServerMessage[] = [];
-  private readonly textResults: STTTextMessage[] = [];
-  private readonly vadResults: STTStepMessage[] = [];
+  private readonly timeout: number;
+  private readonly deadlines = new Set<Deadline>();
+  private readonly messageQueue = new BroadcastQueue<STTServerMessage>();
+  private readonly events = new Emitter<STTStreamEvents>((error, event) => {
+    // Errors of listenerError listeners themselves are dropped
+    if (event !== "listenerError") {
+      this.events.emit("listenerError", { event, error });
+    }
+  });
+  private readonly turnDetector: TurnDetector;
+  private readonly sourceSampleRate?: number;
+  private readonly sourceChannels: number;
+  private converter: PCMConverter | null = null;
+  private readonly decoder: ((bytes: Uint8Array) => Int16Array) | null;
+  private readonly reframe: boolean;
+  private framer: Framer | null = null;
+  private readonly silenceGateOptions?: SilenceGateOptions;
+  private silenceGate: SilenceGate | null = null;
+  private sentSamples = 0;
+  private pacingStart: number | null = null;
+  private readonly reconnectOptions: ReconnectConfig | null;
+  /** Sent audio the server has not acknowledged yet, keyed by first sample */
+  private readonly replayBuffer: { start: number; audio: Uint8Array }[] = [];
+  private replayBufferSamples = 0;
+  /** Sample of the stream timeline the current session started at */
+  private sessionOffset = 0;
+  private connected = true;
+  private resumeWaiter: {
+    resolve: (message: STTReadyMessage) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private endRequested = false;
+  private finished = false;
+  private closed = false;
+  private readonly lastTextStart = new Map<number, number>();
+  private readonly openTexts = new Set<number>();
+  private readonly skippedTexts = new Set<number>();
+  private readonly signal?: AbortSignal;
+  private readonly onAbort = () => {
+    this.abort();
+  };
 
-  constructor(ws: WebSocket) {
+  constructor(ws: WebSocketLike, options: STTStreamOptions = {}) {
     this.ws = ws;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.decoder = G711_DECODERS[options.input_format ?? "pcm"] ?? null;
+    this.sourceSampleRate =
+      options.sample_rate ?? (this.decoder ? G711_SAMPLE_RATE : undefined);
+    this.sourceChannels = options.channels ?? 1;
+    this.reframe = options.reframe ?? false;
+    this.silenceGateOptions = options.silence_gate;
+    this.turnDetector = new TurnDetector(options.turn_detection);
+    this.reconnectOptions = options.reconnect
+      ? {
+          max_attempts: DEFAULT_RECONNECT_ATTEMPTS,
+          buffer_duration_s: DEFAULT_REPLAY_BUFFER_S,
+          ...options.reconnect,
+        }
+      : null;
 
     this.readyPromise = new Promise((resolve, reject) => {
       this.readyResolve = resolve;
@@ -42,88 +177,522 @@ export class STTStream {
       this.endReject = reject;
     });
 
-    this.setupMessageHandler();
+    // Failures are surfaced through waitReady()/collect(); avoid unhandled rejections
+    this.readyPromise.catch(() => null);
+    this.endPromise.catch(() => null);
+
+    this.setupMessageHandler(ws);
+
+    this.signal = options.signal;
+    if (this.signal?.aborted) {
+      this.abort();
+    } else {
+      this.signal?.addEventListener("abort", this.onAbort, { once: true });
+    }
+  }
+
+  /**
+   * Remove the abort listener, so a long-lived signal does not keep the
+   * stream alive once it has ended
+   */
+  private release(): void {
+    this.signal?.removeEventListener("abort", this.onAbort);
   }
 
-  private setupMessageHandler(): void {
-    this.ws.onmessage = (event) => {
+  private setupMessageHandler(ws: WebSocketLike): void {
+    ws.onmessage = (event) => {
+      if (ws !== this.ws) {
+        return;
+      }
+      for (const deadline of this.deadlines) {
+        deadline.refresh();
+      }
+
       try {
         const message: STTServerMessage = JSON.parse(event.data as string);
-        this.messageQueue.push(message);
 
         switch (message.type) {
           case "ready":
+            if (this.isReady) {
+              this.resumeWaiter?.resolve(message);
+              break;
+            }
             this.requestId = message.request_id;
             this.sampleRate = message.sample_rate;
             this.frameSize = message.frame_size;
+            this.textStreamNames = message.text_stream_names;
+            this.converter = this.createConverter(message.sample_rate);
+            this.framer = this.reframe
+              ? new Framer(message.frame_size * BYTES_PER_SAMPLE)
+              : null;
+            this.silenceGate = this.silenceGateOptions
+              ? new SilenceGate(message.sample_rate, this.silenceGateOptions)
+              : null;
             this.isReady = true;
             this.readyResolve(message);
+            this.emitTurnEvents(message);
             break;
           case "text":
-            this.textResults.push(message);
-            break;
           case "step":
-            this.vadResults.push(message);
+          case "end_text": {
+            const shifted = this.toStreamTimeline(message);
+            if (shifted) {
+              const remapped = this.toSourceTimeline(shifted);
+              this.messageQueue.push(remapped);
+              this.emitTurnEvents(remapped);
+            }
             break;
+          }
           case "end_of_stream":
+            this.finished = true;
+            this.messageQueue.push(message);
+            this.messageQueue.close();
             this.endResolve();
+            this.release();
+            this.emitTurnEvents(message);
             break;
-          case "error": {
-            const error = new WebSocketError(message.message, message.code);
-            this.readyReject(error);
-            this.endReject(error);
+          case "error":
+            this.fail(new WebSocketError(message.message, message.code));
             break;
-          }
         }
       } catch (e) {
-        const error = e instanceof Error ? e : new Error(String(e));
-        this.endReject(error);
+        this.fail(e instanceof Error ? e : new Error(String(e)));
       }
     };
 
-    this.ws.onerror = () => {
-      const error = new ConnectionError("WebSocket error occurred");
-      this.readyReject(error);
-      this.endReject(error);
+    ws.onerror = () => {
+      if (ws === this.ws) {
+        this.disconnect(new ConnectionError("WebSocket error occurred"));
+      }
     };
 
-    this.ws.onclose = (event) => {
-      if (!event.wasClean && event.code !== 1000) {
-        const error = new WebSocketError(
-          `WebSocket closed unexpectedly: ${event.reason}`,
-          event.code
+    ws.onclose = (event) => {
+      if (ws === this.ws && !event.wasClean && event.code !== 1000) {
+        this.disconnect(
+          new WebSocketCloseError(
+            `WebSocket closed unexpectedly: ${event.reason}`,
+            event.code
+          )
         );
-        this.readyReject(error);
-        this.endReject(error);
       }
     };
   }
 
+  /**
+   * Handle a dropped connection: fail the stream, or resume it on a new
+   * connection when reconnection is enabled
+   */
+  private disconnect(error: Error): void {
+    if (this.resumeWaiter) {
+      this.resumeWaiter.reject(error);
+      return;
+    }
+    if (!this.connected) {
+      return;
+    }
+    if (
+      !(this.reconnectOptions && this.isReady) ||
+      this.finished ||
+      this.closed
+    ) {
+      this.fail(error);
+      return;
+    }
+    this.connected = false;
+    this.ws.close();
+    this.reconnect(this.reconnectOptions, error).catch((e) => this.fail(e));
+  }
+
+  private async reconnect(
+    { connect, max_attempts }: ReconnectConfig,
+    error: Error
+  ): Promise<void> {
+    let lastError = error;
+
+    for (let attempt = 1; attempt <= max_attempts; attempt++) {
+      if (this.closed) {
+        return;
+      }
+      this.events.emit("reconnecting", { attempt, error: lastError });
+      try {
+        const replayed = await this.resume(await connect());
+        this.events.emit("reconnected", {
+          attempt,
+          resumed_at_s: this.sessionOffset / this.sampleRate,
+          replayed_duration_s: replayed / this.sampleRate,
+        });
+        return;
+      } catch (e) {
+        lastError = e instanceof Error ? e : new Error(String(e));
+      }
+    }
+    this.fail(lastError);
+  }
+
+  /**
+   * Continue the stream on a new connection once its session is ready,
+   * replaying unacknowledged audio; returns the number of samples replayed
+   */
+  private async resume(ws: WebSocketLike): Promise<number> {
+    if (this.closed) {
+      ws.close();
+      throw new AbortError();
+    }
+
+    const ready = new Promise<STTReadyMessage>((resolve, reject) => {
+      this.resumeWaiter = { resolve, reject };
+    });
+    this.ws = ws;
+    this.setupMessageHandler(ws);
+    try {
+      await this.waitFor(ready);
+    } catch (e) {
+      ws.close();
+      throw e;
+    } finally {
+      this.resumeWaiter = null;
+    }
+
+    // The new session's time 0 is the first sample replayed
+    this.sessionOffset = this.replayBuffer[0]?.start ?? this.sentSamples;
+    this.connected = true;
+    for (const { audio } of this.replayBuffer) {
+      this.sendAudioMessage(audio);
+    }
+    if (this.endRequested) {
+      this.ws.send(JSON.stringify({ type: "end_of_stream" }));
+    }
+    return this.replayBufferSamples;
+  }
+
+  /**
+   * Shift a message from the current session onto the stream timeline
+   * After a reconnection, text the previous session already delivered for
+   * replayed audio is dropped. Returns null for dropped messages.
+   */
+  private toStreamTimeline(
+    message: STTTextMessage | STTStepMessage | STTEndTextMessage
+  ): STTTextMessage | STTStepMessage | STTEndTextMessage | null {
+    if (!this.reconnectOptions) {
+      return message;
+    }
+    const offset = this.sessionOffset / this.sampleRate;
+
+    switch (message.type) {
+      case "step": {
+        const total = message.total_duration_s + offset;
+        this.acknowledge(Math.round(total * this.sampleRate));
+        return { ...message, total_duration_s: total };
+      }
+      case "text": {
+        const id = message.stream_id ?? 0;
+        const start = message.start_s + offset;
+        const last = this.lastTextStart.get(id);
+        if (last !== undefined && start < last + DUPLICATE_TEXT_TOLERANCE_S) {
+          // Drop its end_text too, unless the original is still waiting for one
+          if (!this.openTexts.has(id)) {
+            this.skippedTexts.add(id);
+          }
+          return null;
+        }
+        this.skippedTexts.delete(id);
+        this.lastTextStart.set(id, start);
+        this.openTexts.add(id);
+        return { ...message, start_s: start };
+      }
+      case "end_text": {
+        const id = message.stream_id ?? 0;
+        if (this.skippedTexts.delete(id)) {
+          return null;
+        }
+        this.openTexts.delete(id);
+        return { ...message, stop_s: message.stop_s + offset };
+      }
+    }
+  }
+
+  /**
+   * Map a message's timestamps from the gated audio back to the audio passed
+   * to sendAudio(), when the silence gate is enabled
+   */
+  private toSourceTimeline(
+    message: STTTextMessage | STTStepMessage | STTEndTextMessage
+  ): STTTextMessage | STTStepMessage | STTEndTextMessage {
+    const gate = this.silenceGate;
+    if (!gate) {
+      return message;
+    }
+    switch (message.type) {
+      case "text":
+        return { ...message, start_s: gate.toSourceTime(message.start_s) };
+      case "end_text":
+        return { ...message, stop_s: gate.toSourceTime(message.stop_s) };
+      case "step":
+        return {
+          ...message,
+          total_duration_s: gate.toSourceTime(message.total_duration_s),
+        };
+    }
+  }
+
+  /**
+   * Release buffered audio the server has processed
+   */
+  private acknowledge(samples: number): void {
+    let oldest = this.replayBuffer[0];
+    while (oldest) {
+      const length = oldest.audio.length / BYTES_PER_SAMPLE;
+      if (oldest.start + length > samples) {
+        break;
+      }
+      this.replayBuffer.shift();
+      this.replayBufferSamples -= length;
+      oldest = this.replayBuffer[0];
+    }
+  }
+
+  private emitTurnEvents(message: STTServerMessage): void {
+    for (const { type, ...payload } of this.turnDetector.push(message)) {
+      this.events.emit(type, payload as STTStreamEvents[typeof type]);
+    }
+  }
+
+  /**
+   * Register a listener for stream events; returns a function that removes it
+   * - `speechStart` / `speechEnd` - the user started or stopped speaking
+   * - `turnEnd` - the user finished their turn, with the text transcribed during it
+   * - `reconnecting` / `reconnected` - the connection dropped and the session is
+   *   being resumed, or was resumed (with `reconnect` enabled)
+   * - `listenerError` - a listener threw; listener errors never fail the stream,
+   *   and are ignored when nothing listens to this event
+   * @example
+   * ```ts
+   * stream.on('turnEnd', ({ text }) => agent.reply(text));
+   * ```
+   */
+  on<K extends keyof STTStreamEvents>(
+    event: K,
+    listener: Listener<STTStreamEvents[K]>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Remove a listener registered with on()
+   */
+  off<K extends keyof STTStreamEvents>(
+    event: K,
+    listener: Listener<STTStreamEvents[K]>
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Reject pending waits and end consumers with the given error
+   */
+  private fail(error: Error): void {
+    this.release();
+    this.readyReject(error);
+    this.endReject(error);
+    this.messageQueue.fail(error);
+  }
+
   /**
    * Wait for the stream to be ready
+   * Rejects with TimeoutError if the server does not answer within the timeout
+   */
+  async waitReady(options?: StreamOptions): Promise<STTReadyMessage> {
+    return this.waitFor(this.readyPromise, options);
+  }
+
+  /**
+   * Wait for a promise under a deadline that is refreshed by every server message
+   */
+  private async waitFor<T>(
+    promise: Promise<T>,
+    options: StreamOptions = {}
+  ): Promise<T> {
+    const deadline = new Deadline(
+      options.timeout ?? this.timeout,
+      options.signal
+    );
+    this.deadlines.add(deadline);
+
+    try {
+      return await deadline.race(promise);
+    } finally {
+      this.deadlines.delete(deadline);
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Cancel the stream: reject pending waits and consumers with the error
+   * (AbortError by default) and close the connection
+   */
+  abort(error: Error = new AbortError()): void {
+    this.closed = true;
+    this.fail(error);
+    this.ws.close();
+  }
+
+  /**
+   * Build the converter from the declared source format to the server's PCM format
    */
-  async waitReady(): Promise<STTReadyMessage> {
-    return this.readyPromise;
+  private createConverter(serverSampleRate: number): PCMConverter | null {
+    const fromRate = this.sourceSampleRate ?? serverSampleRate;
+    if (fromRate === serverSampleRate && this.sourceChannels === 1) {
+      return null;
+    }
+    return new PCMConverter({
+      from_rate: fromRate,
+      to_rate: serverSampleRate,
+      channels: this.sourceChannels,
+    });
   }
 
   /**
    * Send audio data to be transcribed
-   * @param audio - Uint8Array of audio data (PCM 24kHz 16-bit mono)
+   * G.711 input is decoded to PCM first. PCM is resampled and downmixed when a
+   * source sample rate or channel count was declared; otherwise it must match
+   * the server format (24kHz 16-bit mono). When the silence gate is enabled,
+   * long silences are shortened. When reframing is enabled, audio is
+   * buffered and sent in frames of exactly `frame_size` samples.
+   * @param audio - Uint8Array of audio data
    */
   sendAudio(audio: Uint8Array): void {
     if (!this.isReady) {
       throw new WebSocketError("Stream is not ready. Call waitReady() first.");
     }
-    const base64Audio = btoa(String.fromCharCode(...audio));
-    const message: STTAudioMessage = { type: "audio", audio: base64Audio };
+    const pcm = this.decoder ? samplesToBytes(this.decoder(audio)) : audio;
+    this.sendGated(this.converter ? this.converter.process(pcm) : pcm);
+  }
+
+  private sendGated(audio: Uint8Array): void {
+    this.sendFrames(this.silenceGate ? this.silenceGate.process(audio) : audio);
+  }
+
+  private sendFrames(audio: Uint8Array): void {
+    if (!this.framer) {
+      this.sendChunk(audio);
+      return;
+    }
+    for (const frame of this.framer.push(audio)) {
+      this.sendChunk(frame);
+    }
+  }
+
+  private sendChunk(audio: Uint8Array): void {
+    if (audio.length === 0) {
+      return;
+    }
+    if (this.reconnectOptions) {
+      this.bufferForReplay(audio, this.reconnectOptions.buffer_duration_s);
+    }
+    // While reconnecting, audio is only buffered and sent on resume
+    if (this.connected) {
+      this.sendAudioMessage(audio);
+    }
+    this.sentSamples += audio.length / BYTES_PER_SAMPLE;
+  }
+
+  private sendAudioMessage(audio: Uint8Array): void {
+    const message: STTAudioMessage = {
+      type: "audio",
+      audio: encodeBase64(audio),
+    };
     this.ws.send(JSON.stringify(message));
   }
 
+  /**
+   * Keep sent audio for replay, dropping the oldest beyond the buffer duration
+   */
+  private bufferForReplay(audio: Uint8Array, bufferDuration: number): void {
+    const length = audio.length / BYTES_PER_SAMPLE;
+    this.replayBuffer.push({ start: this.sentSamples, audio: audio.slice() });
+    this.replayBufferSamples += length;
+
+    const maxSamples = bufferDuration * this.sampleRate;
+    while (this.replayBufferSamples > maxSamples) {
+      const oldest = this.replayBuffer.shift();
+      if (!oldest) {
+        break;
+      }
+      this.replayBufferSamples -= oldest.audio.length / BYTES_PER_SAMPLE;
+    }
+  }
+
+  /**
+   * Send audio paced at a multiple of real time
+   * Audio is split into pieces of one server frame, and each piece is sent
+   * once the audio already sent has had time to play at the given pace.
+   * Only meaningful for PCM and G.711 input.
+   * @param audio - Uint8Array of audio data
+   * @param pace - Multiple of real time (1 = live speed)
+   * @param signal - Stops waiting with AbortError when aborted
+   */
+  async sendAudioPaced(
+    audio: Uint8Array,
+    pace: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!(pace > 0)) {
+      throw new GradiumError(`Invalid pace: ${pace}`);
+    }
+    if (!this.isReady) {
+      throw new WebSocketError("Stream is not ready. Call waitReady() first.");
+    }
+
+    this.pacingStart ??= performance.now();
+    const pieceBytes = this.getInputFrameBytes();
+
+    for (let i = 0; i < audio.length; i += pieceBytes) {
+      this.sendAudio(audio.subarray(i, i + pieceBytes));
+
+      // Skipped silence still takes its real time to play
+      const played = this.silenceGate
+        ? this.silenceGate.inputDuration
+        : this.getSentDuration();
+      const due = this.pacingStart + (played * 1000) / pace;
+      const delay = due - performance.now();
+      if (delay > 0) {
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Number of input bytes holding one server frame of audio
+   */
+  private getInputFrameBytes(): number {
+    const sourceRate = this.sourceSampleRate ?? this.sampleRate;
+    const samples = Math.max(
+      1,
+      Math.round((this.frameSize * sourceRate) / this.sampleRate)
+    );
+    const bytesPerSample = this.decoder ? 1 : BYTES_PER_SAMPLE;
+    return samples * bytesPerSample * this.sourceChannels;
+  }
+
   /**
    * Signal end of audio stream
+   * Buffered audio is flushed first, padding the last frame with silence.
    */
   sendEndOfStream(): void {
-    this.ws.send(JSON.stringify({ type: "end_of_stream" }));
+    if (this.converter) {
+      this.sendGated(this.converter.flush());
+    }
+    if (this.silenceGate) {
+      this.sendFrames(this.silenceGate.flush());
+    }
+    const lastFrame = this.framer?.flush();
+    if (lastFrame) {
+      this.sendChunk(lastFrame);
+    }
+    this.endRequested = true;
+    if (this.connected) {
+      this.ws.send(JSON.stringify({ type: "end_of_stream" }));
+    }
   }
 
   /**
@@ -142,33 +711,24 @@ export class STTStream {
 
   /**
    * Async iterator for text transcription results
+   * @param stream - Only yield results of this text stream, by name from
+   * `text_stream_names` (default: all streams)
+   * @example
+   * ```ts
+   * const [primary] = stream.getTextStreamNames();
+   * for await (const result of stream.iterText(primary)) {
+   *   console.log(result.text);
+   * }
+   * ```
    */
-  async *iterText(): AsyncGenerator<STTTextMessage, void, unknown> {
-    let processedIndex = 0;
-
-    while (true) {
-      // Yield any new text results
-      while (processedIndex < this.textResults.length) {
-        yield this.textResults[processedIndex];
-        processedIndex++;
-      }
-
-      // Check if stream has ended
-      const hasEnded = this.messageQueue.some(
-        (msg) => msg.type === "end_of_stream" || msg.type === "error"
-      );
-
-      if (hasEnded) {
-        // Yield any remaining results
-        while (processedIndex < this.textResults.length) {
-          yield this.textResults[processedIndex];
-          processedIndex++;
-        }
-        break;
+  async *iterText(
+    stream?: string
+  ): AsyncGenerator<STTTextMessage, void, unknown> {
+    this.checkTextStream(stream);
+    for await (const message of this.messageQueue.subscribe()) {
+      if (message.type === "text" && this.isInTextStream(message, stream)) {
+        yield message;
       }
-
-      // Wait a bit for more data
-      await new Promise((resolve) => setTimeout(resolve, 10));
     }
   }
 
@@ -176,77 +736,132 @@ export class STTStream {
    * Async iterator for VAD (Voice Activity Detection) results
    */
   async *iterVAD(): AsyncGenerator<STTStepMessage, void, unknown> {
-    let processedIndex = 0;
-
-    while (true) {
-      // Yield any new VAD results
-      while (processedIndex < this.vadResults.length) {
-        yield this.vadResults[processedIndex];
-        processedIndex++;
+    for await (const message of this.messageQueue.subscribe()) {
+      if (message.type === "step") {
+        yield message;
       }
+    }
+  }
 
-      // Check if stream has ended
-      const hasEnded = this.messageQueue.some(
-        (msg) => msg.type === "end_of_stream" || msg.type === "error"
-      );
+  /**
+   * Async iterator for all messages (except the ready message)
+   * Each iterator is an independent consumer woken as messages arrive;
+   * messages are released once every active consumer has read them.
+   * Throws if the stream fails.
+   */
+  iter(): AsyncGenerator<STTServerMessage, void, unknown> {
+    return this.messageQueue.subscribe();
+  }
 
-      if (hasEnded) {
-        // Yield any remaining results
-        while (processedIndex < this.vadResults.length) {
-          yield this.vadResults[processedIndex];
-          processedIndex++;
-        }
-        break;
-      }
+  /**
+   * Wait for the stream to complete and return all text results
+   * Results already consumed by iterators are not included.
+   * Rejects with TimeoutError if the server goes silent for longer than the timeout
+   */
+  async collectText(options: STTCollectOptions = {}): Promise<string> {
+    await this.waitFor(this.endPromise, options);
 
-      // Wait a bit for more data
-      await new Promise((resolve) => setTimeout(resolve, 10));
+    const texts: string[] = [];
+    for await (const message of this.iterText(options.stream)) {
+      texts.push(message.text);
     }
+    return texts.join(" ");
   }
 
   /**
-   * Async iterator for all messages
+   * Wait for the stream to complete and return a timed transcript
+   * Text and end_text messages are paired into segments, grouped into
+   * utterances at pauses reported by the VAD.
+   * Messages already consumed by iterators are not included.
+   * Rejects with TimeoutError if the server goes silent for longer than the timeout
    */
-  async *iter(): AsyncGenerator<STTServerMessage, void, unknown> {
-    let processedIndex = 0;
+  async collectTranscript(
+    options: STTCollectTranscriptOptions = {}
+  ): Promise<Transcript> {
+    this.checkTextStream(options.stream);
+    await this.waitFor(this.endPromise, options);
 
-    while (true) {
-      // Yield any new messages
-      while (processedIndex < this.messageQueue.length) {
-        const message = this.messageQueue[processedIndex];
-        // Skip ready message in the iterator
-        if (message.type !== "ready") {
-          yield message;
-        }
-        processedIndex++;
+    const builder = new TranscriptBuilder(options);
+    for await (const message of this.iter()) {
+      if (this.isInTextStream(message, options.stream)) {
+        builder.push(message);
       }
+    }
+    return builder.build();
+  }
 
-      // Check if stream has ended
-      const hasEnded = this.messageQueue.some(
-        (msg) => msg.type === "end_of_stream" || msg.type === "error"
-      );
+  /**
+   * Wait for the stream to complete and return one transcript per text stream
+   * Keyed by the names from `text_stream_names`; VAD steps apply to every stream.
+   * Rejects with TimeoutError if the server goes silent for longer than the timeout
+   */
+  async collectTranscripts(
+    options: StreamOptions & TranscriptOptions = {}
+  ): Promise<Record<string, Transcript>> {
+    await this.waitFor(this.endPromise, options);
 
-      if (hasEnded) {
-        break;
+    const builders = new Map<string, TranscriptBuilder>(
+      this.textStreamNames.map((name) => [name, new TranscriptBuilder(options)])
+    );
+    const builderFor = (name: string) => {
+      let builder = builders.get(name);
+      if (!builder) {
+        builder = new TranscriptBuilder(options);
+        builders.set(name, builder);
       }
+      return builder;
+    };
 
-      // Wait a bit for more data
-      await new Promise((resolve) => setTimeout(resolve, 10));
+    for await (const message of this.iter()) {
+      if (message.type === "text" || message.type === "end_text") {
+        builderFor(this.getTextStreamName(message.stream_id)).push(message);
+      } else {
+        for (const builder of builders.values()) {
+          builder.push(message);
+        }
+      }
     }
+
+    return Object.fromEntries(
+      [...builders].map(([name, builder]) => [name, builder.build()])
+    );
   }
 
   /**
-   * Wait for the stream to complete and return all text results
+   * Async iterator for subtitle cues, emitted as soon as they are final
+   * A cue is yielded once the segment after it starts a new cue, or at the end
+   * of the stream, so captions can be displayed while audio is still streaming.
+   * @example
+   * ```ts
+   * for await (const cue of stream.iterCues({ max_chars_per_cue: 42 })) {
+   *   process.stdout.write(formatSRTCue(cue));
+   * }
+   * ```
    */
-  async collectText(): Promise<string> {
-    await this.endPromise;
-    return this.textResults.map((t) => t.text).join(" ");
+  async *iterCues(
+    options: STTCueOptions = {}
+  ): AsyncGenerator<SubtitleCue, void, unknown> {
+    this.checkTextStream(options.stream);
+    const transcript = new TranscriptBuilder(options);
+    const cues = new CueBuilder(options);
+
+    for await (const message of this.iter()) {
+      if (!this.isInTextStream(message, options.stream)) {
+        continue;
+      }
+      for (const { segment, utterance } of transcript.push(message)) {
+        yield* cues.push(segment, utterance);
+      }
+    }
+    yield* cues.flush();
   }
 
   /**
    * Close the stream
    */
   close(): void {
+    this.closed = true;
+    this.release();
     this.ws.close();
   }
 
@@ -264,6 +879,62 @@ export class STTStream {
     return this.sampleRate;
   }
 
+  /**
+   * Duration of PCM audio sent to the server so far, in seconds
+   */
+  getSentDuration(): number {
+    return this.sentSamples / this.sampleRate;
+  }
+
+  /**
+   * Duration of silence skipped by the silence gate so far, in seconds
+   */
+  getSkippedDuration(): number {
+    return this.silenceGate?.skippedDuration ?? 0;
+  }
+
+  /**
+   * Get the names of the server's text streams, indexed by `stream_id`
+   */
+  getTextStreamNames(): string[] {
+    return [...this.textStreamNames];
+  }
+
+  /**
+   * Name of the text stream a message belongs to
+   * `stream_id` indexes into `text_stream_names`; a missing id means the first stream.
+   */
+  private getTextStreamName(streamId: number | null | undefined): string {
+    const index = streamId ?? 0;
+    return this.textStreamNames[index] ?? String(index);
+  }
+
+  /**
+   * Whether a message belongs to the given text stream
+   * Messages not tied to a text stream (VAD steps, end of stream) always match.
+   */
+  private isInTextStream(message: STTServerMessage, stream?: string): boolean {
+    if (stream === undefined) {
+      return true;
+    }
+    if (message.type !== "text" && message.type !== "end_text") {
+      return true;
+    }
+    return this.getTextStreamName(message.stream_id) === stream;
+  }
+
+  private checkTextStream(stream?: string): void {
+    if (
+      stream !== undefined &&
+      this.isReady &&
+      !this.textStreamNames.includes(stream)
+    ) {
+      throw new GradiumError(
+        `Unknown text stream '${stream}'. Available streams: ${this.textStreamNames.join(", ")}`
+      );
+    }
+  }
+
   /**
    * Get the frame size
    */
@@ -272,6 +943,51 @@ export class STTStream {
   }
 }
 
+/**
+ * Validate client-side processing options against the input format
+ */
+function checkSetupParams(params: STTSetupParams): void {
+  if (toServerInputFormat(params.input_format) === "pcm") {
+    return;
+  }
+  const converts =
+    params.sample_rate !== undefined ||
+    (params.channels ?? 1) !== 1 ||
+    params.reframe === true;
+  if (converts) {
+    throw new GradiumError(
+      "sample_rate, channels and reframe are only supported with 'pcm', 'ulaw_8000' and 'alaw_8000' input"
+    );
+  }
+  if (params.reconnect) {
+    throw new GradiumError(
+      "reconnect is only supported with 'pcm', 'ulaw_8000' and 'alaw_8000' input"
+    );
+  }
+  if (params.silence_gate) {
+    throw new GradiumError(
+      "silence_gate is only supported with 'pcm', 'ulaw_8000' and 'alaw_8000' input"
+    );
+  }
+}
+
+/**
+ * Validate a pacing option against the input format
+ */
+function checkPace(params: STTSetupParams, pace?: number): void {
+  if (pace === undefined) {
+    return;
+  }
+  if (!(pace > 0)) {
+    throw new GradiumError(`Invalid pace: ${pace}`);
+  }
+  if (toServerInputFormat(params.input_format) !== "pcm") {
+    throw new GradiumError(
+      "pace is only supported with 'pcm', 'ulaw_8000' and 'alaw_8000' input"
+    );
+  }
+}
+
 /**
  * STT resource for speech-to-text conversion
  */
@@ -306,39 +1022,108 @@ export class STT {
    * }
    * ```
    */
-  async stream(params: STTSetupParams): Promise<STTStream> {
+  async stream(
+    params: STTSetupParams,
+    options: RequestOptions = {}
+  ): Promise<STTStream> {
+    checkSetupParams(params);
+    return this.client.withRetry(
+      () => this.connect(params, options),
+      options.signal
+    );
+  }
+
+  /**
+   * Open a stream on a new connection
+   */
+  private async connect(
+    params: STTSetupParams,
+    options: RequestOptions
+  ): Promise<STTStream> {
+    let stream: STTStream | undefined;
+    await this.open(params, options, (ws) => {
+      stream = new STTStream(ws, {
+        timeout: options.timeout ?? this.client.timeout,
+        signal: options.signal,
+        input_format: params.input_format,
+        sample_rate: params.sample_rate,
+        channels: params.channels,
+        turn_detection: params.turn_detection,
+        reframe:
+          params.reframe ?? toServerInputFormat(params.input_format) === "pcm",
+        silence_gate:
+          params.silence_gate === true ? {} : params.silence_gate || undefined,
+        reconnect: params.reconnect
+          ? {
+              ...(params.reconnect === true ? {} : params.reconnect),
+              connect: () =>
+                this.client.withRetry(
+                  () => this.open(params, options),
+                  options.signal
+                ),
+            }
+          : undefined,
+      });
+    });
+    return stream as STTStream;
+  }
+
+  /**
+   * Open the WebSocket and send the setup message once connected
+   * @param init - Called with the socket before it opens, to attach handlers
+   */
+  private open(
+    params: STTSetupParams,
+    options: RequestOptions,
+    init?: (ws: WebSocketLike) => void
+  ): Promise<WebSocketLike> {
     const wsUrl = `${this.client.wsURL}/stt`;
 
     return new Promise((resolve, reject) => {
-      // Bun's WebSocket supports headers option for authentication
-      const ws = new WebSocket(wsUrl, {
-        headers: {
-          "x-api-key": this.client.apiKey,
-        },
-      } as any);
+      const timeout = options.timeout ?? this.client.timeout;
+      const ws = this.client.createWebSocket(wsUrl, options.headers);
+      init?.(ws);
+      const streamErrorHandler = ws.onerror;
 
-      const stream = new STTStream(ws);
+      // Bound the handshake by the timeout and the caller's signal
+      const deadline = new Deadline(timeout, options.signal);
+      deadline.signal.addEventListener(
+        "abort",
+        () => {
+          ws.close();
+          reject(deadline.signal.reason);
+        },
+        { once: true }
+      );
 
       ws.onopen = () => {
+        deadline.dispose();
+        ws.onerror = streamErrorHandler;
+
         // Send setup message
         const setupMessage: STTSetupMessage = {
           type: "setup",
-          input_format: params.input_format,
+          input_format: toServerInputFormat(params.input_format),
           model_name: params.model_name || "default",
         };
 
         ws.send(JSON.stringify(setupMessage));
-        resolve(stream);
+        resolve(ws);
       };
 
       ws.onerror = () => {
+        deadline.dispose();
         reject(new ConnectionError("Failed to connect to STT WebSocket"));
       };
     });
   }
 
   /**
-   * Stream STT with an async audio generator
+   * Stream STT from an audio source
+   * The source can be an async iterable of chunks (including a Node Readable),
+   * a Web ReadableStream, a Blob or File, a file path or a Uint8Array; it is
+   * read as it is sent. Without an `input_format`, WAV files are detected
+   * from their header (see STTTranscribeParams).
    *
    * @example
    * ```ts
@@ -359,48 +1144,264 @@ export class STT {
    * ```
    */
   async streamAudio(
-    params: STTSetupParams,
-    audioGenerator: AsyncIterable<Uint8Array>
+    params: STTTranscribeParams,
+    audio: AudioSource,
+    options: STTStreamAudioOptions = {}
   ): Promise<STTStream> {
-    const stream = await this.stream(params);
-    await stream.waitReady();
+    // Declared formats connect right away; others wait for the first bytes
+    const { input_format } = params;
+    const input = input_format
+      ? openSTTInput({ ...params, input_format }, audio)
+      : await detectSTTInput(params, audio);
+    let stream: STTStream;
+    try {
+      checkPace(input.params, options.pace);
+      stream = await this.stream(input.params, options);
+      await stream.waitReady();
+    } catch (error) {
+      await input.chunks.return();
+      throw error;
+    }
 
     // Send audio chunks asynchronously
     (async () => {
-      for await (const audio of audioGenerator) {
-        stream.sendAudio(audio);
+      for await (const chunk of input.chunks) {
+        if (options.pace) {
+          await stream.sendAudioPaced(chunk, options.pace, options.signal);
+        } else {
+          stream.sendAudio(chunk);
+        }
       }
       stream.sendEndOfStream();
-    })();
+    })().catch((error) => {
+      // An aborted signal has already failed the stream itself
+      if (!(error instanceof AbortError)) {
+        stream.abort(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
 
     return stream;
   }
 
   /**
-   * Transcribe complete audio data (non-streaming)
+   * Transcribe complete audio (non-streaming)
+   * Accepts the same sources as streamAudio(); streams and files are sent as
+   * they are read rather than loaded into memory.
    *
    * @example
    * ```ts
-   * const audioData = await Bun.file('audio.wav').arrayBuffer();
-   * const text = await client.stt.transcribe({
-   *   input_format: 'wav'
-   * }, new Uint8Array(audioData));
-   *
+   * // The WAV header sets the input format and sample rate
+   * const text = await client.stt.transcribe({}, 'audio.wav');
    * console.log(`Transcription: ${text}`);
+   *
+   * // Pipe an HTTP request body straight through
+   * const uploaded = await client.stt.transcribe({}, request.body);
    * ```
    */
-  async transcribe(params: STTSetupParams, audio: Uint8Array): Promise<string> {
-    const stream = await this.stream(params);
-    await stream.waitReady();
+  async transcribe(
+    params: STTTranscribeParams,
+    audio: AudioSource,
+    options: STTStreamAudioOptions = {}
+  ): Promise<string> {
+    // Declared formats connect right away; others wait for the first bytes
+    const { input_format } = params;
+    const input = input_format
+      ? openSTTInput({ ...params, input_format }, audio)
+      : await detectSTTInput(params, audio);
+    let stream: STTStream | undefined;
+    try {
+      checkPace(input.params, options.pace);
+      stream = await this.stream(input.params, options);
+      await stream.waitReady();
+
+      // PCM is reframed by the stream; chunking bounds message size for other formats
+      const chunkSize = stream.getFrameSize() * BYTES_PER_SAMPLE;
+      for await (const chunk of input.chunks) {
+        if (options.pace) {
+          await stream.sendAudioPaced(chunk, options.pace, options.signal);
+          continue;
+        }
+        for (let i = 0; i < chunk.length; i += chunkSize) {
+          stream.sendAudio(chunk.subarray(i, i + chunkSize));
+        }
+      }
 
-    // Send audio in chunks (recommended: 1920 samples = 80ms at 24kHz)
-    const chunkSize = 1920 * 2; // 16-bit = 2 bytes per sample
-    for (let i = 0; i < audio.length; i += chunkSize) {
-      const chunk = audio.slice(i, Math.min(i + chunkSize, audio.length));
-      stream.sendAudio(chunk);
+      stream.sendEndOfStream();
+      return await stream.collectText();
+    } finally {
+      stream?.close();
+      await input.chunks.return();
     }
+  }
 
-    stream.sendEndOfStream();
-    return stream.collectText();
+  /**
+   * Transcribe long recordings across several sessions
+   * The audio is split at silences into chunks of at most
+   * `max_chunk_duration_s`, transcribed with bounded concurrency, and the
+   * chunk transcripts are stitched with timestamps relative to the full audio.
+   * A chunk whose session fails transiently, such as a dropped connection,
+   * is retried from its start.
+   * Requires PCM, G.711 or WAV input.
+   *
+   * @example
+   * ```ts
+   * const audio = new Uint8Array(await Bun.file('meeting.wav').arrayBuffer());
+   * const transcript = await client.stt.transcribeLong(
+   *   { input_format: 'wav' },
+   *   audio,
+   *   { concurrency: 4, on_progress: (p) => console.log(`${p.completed_chunks}/${p.total_chunks}`) }
+   * );
+   * ```
+   */
+  async transcribeLong(
+    params: STTSetupParams,
+    audio: Uint8Array,
+    options: STTLongTranscriptionOptions = {}
+  ): Promise<Transcript> {
+    const source = prepareLongFormSource(params, audio);
+    const boundaries = findSilenceSplits(source, options);
+    const chunks = boundaries.slice(1).map((end, i) => ({
+      start: boundaries[i],
+      end,
+    }));
+    const totalDuration = (boundaries.at(-1) ?? 0) / source.sample_rate;
+
+    const policy = sessionRetryPolicy(
+      this.client.retry,
+      options.max_chunk_retries ?? DEFAULT_SESSION_RETRIES
+    );
+
+    let completed = 0;
+    let transcribed = 0;
+
+    const transcripts = await mapConcurrent(
+      chunks,
+      options.concurrency ?? DEFAULT_SESSION_CONCURRENCY,
+      async ({ start, end }) => {
+        const data = source.data.subarray(
+          start * source.block_align,
+          end * source.block_align
+        );
+        const transcript = await withRetry(
+          () => this.transcribeSession(source.params, data, options),
+          policy,
+          options.signal
+        );
+
+        completed++;
+        transcribed += (end - start) / source.sample_rate;
+        options.on_progress?.({
+          completed_chunks: completed,
+          total_chunks: chunks.length,
+          transcribed_duration_s: transcribed,
+          total_duration_s: totalDuration,
+        });
+        return transcript;
+      }
+    );
+
+    const stitched = stitchTranscripts(
+      transcripts.map((transcript, i) => ({
+        transcript,
+        offset_s: chunks[i].start / source.sample_rate,
+      }))
+    );
+    return {
+      ...stitched,
+      duration_s: Math.max(stitched.duration_s, totalDuration),
+    };
+  }
+
+  /**
+   * Transcribe many recordings, each in its own session
+   * Inputs are read lazily from the list or async iterable and transcribed
+   * with bounded concurrency. A session that fails transiently is retried; an
+   * item that still fails is reported in its result without stopping the batch.
+   * Results keep the order of the inputs.
+   *
+   * @example
+   * ```ts
+   * const results = await client.stt.transcribeBatch(
+   *   { input_format: 'wav' },
+   *   ['voicemail-1.wav', 'voicemail-2.wav'],
+   *   { concurrency: 8, on_progress: (p) => console.log(`${p.completed_items}/${p.total_items}`) }
+   * );
+   * for (const result of results) {
+   *   console.log(result.ok ? result.transcript.text : result.error.message);
+   * }
+   * ```
+   */
+  async transcribeBatch(
+    params: STTSetupParams,
+    inputs: Iterable<AudioInput> | AsyncIterable<AudioInput>,
+    options: STTBatchOptions = {}
+  ): Promise<STTBatchResult[]> {
+    checkSetupParams(params);
+    const policy = sessionRetryPolicy(
+      this.client.retry,
+      options.max_retries ?? DEFAULT_SESSION_RETRIES
+    );
+    const total = Array.isArray(inputs) ? inputs.length : null;
+
+    let completed = 0;
+    let failed = 0;
+
+    return mapConcurrent(
+      inputs,
+      options.concurrency ?? DEFAULT_SESSION_CONCURRENCY,
+      async (input, index) => {
+        let result: STTBatchResult;
+        try {
+          const audio = await readAudioInput(input);
+          const transcript = await withRetry(
+            () => this.transcribeSession(params, audio, options),
+            policy,
+            options.signal
+          );
+          result = { index, input, ok: true, transcript };
+        } catch (e) {
+          // Cancelling the batch stops it rather than failing each item
+          if (e instanceof AbortError) {
+            throw e;
+          }
+          const error = e instanceof Error ? e : new Error(String(e));
+          result = { index, input, ok: false, error };
+          failed++;
+        }
+
+        completed++;
+        options.on_progress?.({
+          completed_items: completed,
+          failed_items: failed,
+          total_items: total,
+          result,
+        });
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Transcribe audio in its own session
+   */
+  private async transcribeSession(
+    params: STTSetupParams,
+    audio: Uint8Array,
+    options: RequestOptions & TranscriptOptions
+  ): Promise<Transcript> {
+    // Failed sessions, including connection failures, are retried by the caller
+    const stream = await this.connect(params, options);
+    try {
+      await stream.waitReady();
+      // PCM is reframed by the stream; chunking bounds message size for other formats
+      const chunkSize = stream.getFrameSize() * BYTES_PER_SAMPLE;
+      for (let i = 0; i < audio.length; i += chunkSize) {
+        stream.sendAudio(audio.subarray(i, i + chunkSize));
+      }
+      stream.sendEndOfStream();
+      return await stream.collectTranscript(options);
+    } finally {
+      stream.close();
+    }
   }
 }
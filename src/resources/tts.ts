@@ -1,21 +1,151 @@
+import { getAudioDuration, getAudioFormatInfo } from "../audio/formats";
+import { concatBytes } from "../audio/pcm";
+import { createSilence } from "../audio/silence";
+import {
+  encodeWav,
+  isWav,
+  parseWav,
+  patchWavHeader,
+  type WavFormat,
+} from "../audio/wav";
 import type { Gradium } from "../client";
-import { ConnectionError, WebSocketError } from "../errors";
+import {
+  AbortError,
+  ConnectionError,
+  GradiumError,
+  WebSocketCloseError,
+  WebSocketError,
+} from "../errors";
+import { chunkTextStream } from "../tts/chunker";
+import { Lexicon } from "../tts/lexicon";
+import { parseMarkup } from "../tts/markup";
+import { createTextNormalizer } from "../tts/normalize";
+import { splitText } from "../tts/segment";
 import type {
+  AudioFormatInfo,
+  RequestOptions,
+  StreamOptions,
+  TextNormalizer,
+  TTSCollectOptions,
+  TTSLongFormOptions,
+  TTSMarkupOptions,
+  TTSOutputFormat,
   TTSResult,
+  TTSSegment,
   TTSServerMessage,
   TTSSetupMessage,
   TTSSetupParams,
+  TTSStreamOptions,
+  TTSStreamTextOptions,
   TTSTextMessage,
+  WebSocketLike,
 } from "../types";
+import { DEFAULT_TIMEOUT, Deadline } from "../utils/abort";
+import { decodeBase64 } from "../utils/base64";
+import { BroadcastQueue } from "../utils/broadcast-queue";
+import { mapConcurrent, mapOrdered } from "../utils/concurrency";
+import { sessionRetryPolicy, withRetry } from "../utils/retry";
+
+/** Sessions running at once in long-form synthesis */
+const DEFAULT_LONG_FORM_CONCURRENCY = 3;
+/** Retries of a failed segment in long-form synthesis */
+const DEFAULT_SEGMENT_RETRIES = 2;
+
+function toWavFormat(format: AudioFormatInfo): WavFormat {
+  return {
+    sample_rate: format.sample_rate,
+    channels: format.channels,
+    encoding: format.encoding === "opus" ? undefined : format.encoding,
+  };
+}
+
+/**
+ * Samples of a WAV file, or the bytes as-is when they have no WAV header
+ */
+function wavSamples(data: Uint8Array): Uint8Array {
+  if (!isWav(data)) {
+    return data;
+  }
+  const info = parseWav(data);
+  return data.subarray(info.data_offset, info.data_offset + info.data_size);
+}
+
+/**
+ * Concatenate audio in an output format into one result
+ * WAV output gets a single header; Opus output is a chained Ogg stream.
+ * `request_id` lists the request IDs of the parts that have one, separated
+ * by commas.
+ */
+function concatResults(
+  parts: { raw_data: Uint8Array; request_id?: string }[],
+  outputFormat: TTSOutputFormat,
+  container?: "wav"
+): TTSResult {
+  const format = getAudioFormatInfo(outputFormat);
+  const data = concatBytes(
+    parts.map(({ raw_data }) =>
+      format.container === "wav" ? wavSamples(raw_data) : raw_data
+    )
+  );
+  const rawData =
+    format.container === "wav" ? encodeWav(data, toWavFormat(format)) : data;
+
+  return {
+    raw_data:
+      container === "wav" && format.container !== "wav"
+        ? encodeWav(rawData, toWavFormat(format))
+        : rawData,
+    sample_rate: format.sample_rate,
+    encoding: format.encoding,
+    bit_depth: format.bit_depth,
+    channels: format.channels,
+    duration_s: getAudioDuration(rawData, outputFormat),
+    request_id: parts.flatMap(({ request_id }) => request_id ?? []).join(","),
+  };
+}
+
+/**
+ * Send a whole text on a stream and collect its audio, closing the stream
+ */
+async function synthesizeText(
+  stream: TTSStream,
+  text: string,
+  options: RequestOptions
+): Promise<TTSResult> {
+  try {
+    await stream.waitReady();
+    stream.sendText(text);
+    stream.sendEndOfStream();
+    return await stream.collect({
+      timeout: options.timeout,
+      signal: options.signal,
+    });
+  } finally {
+    stream.close();
+  }
+}
+
+/**
+ * Start of the text that may still change meaning with what follows: the
+ * last `words` words, a number before them that a unit may follow, or an
+ * unclosed tag
+ */
+function heldTextStart(text: string, words: number): number {
+  const start = text.search(
+    new RegExp(`(?:\\S*\\d\\s+)?(?:\\S*\\s+){0,${words - 1}}\\S*$`)
+  );
+  const tagStart = text.lastIndexOf("<");
+  return tagStart > text.lastIndexOf(">") ? Math.min(start, tagStart) : start;
+}
 
 /**
  * TTS Stream for handling streamed audio responses
  */
 export class TTSStream {
-  private readonly ws: WebSocket;
-  private readonly audioChunks: Uint8Array[] = [];
+  private readonly ws: WebSocketLike;
+  private readonly audioQueue = new BroadcastQueue<Uint8Array>();
   private requestId = "";
-  private readonly sampleRate = 48_000;
+  private readonly outputFormat: TTSOutputFormat;
   private isReady = false;
   private readonly readyPromise: Promise<void>;
   private readyResolve!: () => void;
@@ -23,10 +153,25 @@ export class TTSStream {
   private readonly endPromise: Promise<void>;
   private endResolve!: () => void;
   private endReject!: (error: Error) => void;
-  private readonly messageQueue: TTSServerMessage[] = [];
-
-  constructor(ws: WebSocket) {
+  private readonly timeout: number;
+  private readonly deadlines = new Set<Deadline>();
+  private readonly normalizer?: TextNormalizer;
+  private readonly lexicon?: Lexicon;
+  private readonly language?: string;
+  /** Text held back from rewriting until its last words are complete */
+  private pendingText = "";
+  private readonly signal?: AbortSignal;
+  private readonly onAbort = () => {
+    this.abort();
+  };
+
+  constructor(ws: WebSocketLike, options: TTSStreamOptions = {}) {
     this.ws = ws;
+    this.outputFormat = options.output_format ?? "pcm";
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.normalizer = options.normalizer;
+    this.lexicon = options.lexicon;
+    this.language = options.language;
 
     this.readyPromise = new Promise((resolve, reject) => {
       this.readyResolve = resolve;
@@ -38,14 +183,36 @@ export class TTSStream {
       this.endReject = reject;
     });
 
+    // Failures are surfaced through waitReady()/collect(); avoid unhandled rejections
+    this.readyPromise.catch(() => null);
+    this.endPromise.catch(() => null);
+
     this.setupMessageHandler();
+
+    this.signal = options.signal;
+    if (this.signal?.aborted) {
+      this.abort();
+    } else {
+      this.signal?.addEventListener("abort", this.onAbort, { once: true });
+    }
+  }
+
+  /**
+   * Remove the abort listener, so a long-lived signal does not keep the
+   * stream alive once it has ended
+   */
+  private release(): void {
+    this.signal?.removeEventListener("abort", this.onAbort);
   }
 
   private setupMessageHandler(): void {
     this.ws.onmessage = (event) => {
+      for (const deadline of this.deadlines) {
+        deadline.refresh();
+      }
+
       try {
         const message: TTSServerMessage = JSON.parse(event.data as string);
-        this.messageQueue.push(message);
 
         switch (message.type) {
           case "ready":
@@ -53,74 +220,146 @@ export class TTSStream {
             this.isReady = true;
             this.readyResolve();
             break;
-          case "audio": {
-            const audioData = Uint8Array.from(atob(message.audio), (c) =>
-              c.charCodeAt(0)
-            );
-            this.audioChunks.push(audioData);
+          case "audio":
+            this.audioQueue.push(decodeBase64(message.audio));
             break;
-          }
           case "end_of_stream":
+            this.audioQueue.close();
             this.endResolve();
+            this.release();
             break;
-          case "error": {
-            const error = new WebSocketError(message.message, message.code);
-            this.readyReject(error);
-            this.endReject(error);
+          case "error":
+            this.fail(new WebSocketError(message.message, message.code));
             break;
-          }
         }
       } catch (e) {
-        const error = e instanceof Error ? e : new Error(String(e));
-        this.endReject(error);
+        this.fail(e instanceof Error ? e : new Error(String(e)));
       }
     };
 
     this.ws.onerror = () => {
-      const error = new ConnectionError("WebSocket error occurred");
-      this.readyReject(error);
-      this.endReject(error);
+      this.fail(new ConnectionError("WebSocket error occurred"));
     };
 
     this.ws.onclose = (event) => {
+      this.release();
       if (!event.wasClean && event.code !== 1000) {
-        const error = new WebSocketError(
-          `WebSocket closed unexpectedly: ${event.reason}`,
-          event.code
+        this.fail(
+          new WebSocketCloseError(
+            `WebSocket closed unexpectedly: ${event.reason}`,
+            event.code
+          )
         );
-        this.readyReject(error);
-        this.endReject(error);
       }
     };
   }
 
+  /**
+   * Reject pending waits and end consumers with the given error
+   */
+  private fail(error: Error): void {
+    this.release();
+    this.readyReject(error);
+    this.endReject(error);
+    this.audioQueue.fail(error);
+  }
+
   /**
    * Wait for the stream to be ready
+   * Rejects with TimeoutError if the server does not answer within the timeout
    */
-  async waitReady(): Promise<void> {
-    return this.readyPromise;
+  async waitReady(options?: StreamOptions): Promise<void> {
+    return this.waitFor(this.readyPromise, options);
+  }
+
+  /**
+   * Wait for a promise under a deadline that is refreshed by every server message
+   */
+  private async waitFor<T>(
+    promise: Promise<T>,
+    options: StreamOptions = {}
+  ): Promise<T> {
+    const deadline = new Deadline(
+      options.timeout ?? this.timeout,
+      options.signal
+    );
+    this.deadlines.add(deadline);
+
+    try {
+      return await deadline.race(promise);
+    } finally {
+      this.deadlines.delete(deadline);
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Cancel the stream: reject pending waits and consumers with the error
+   * (AbortError by default) and close the connection
+   */
+  abort(error: Error = new AbortError()): void {
+    this.fail(error);
+    this.ws.close();
   }
 
   /**
    * Send text to be converted to speech
+   * With a lexicon or normalization, the end of the text is held back until
+   * the next call or the end of stream, so words, phrases and values split
+   * across calls are rewritten whole.
    */
   sendText(text: string): void {
     if (!this.isReady) {
       throw new WebSocketError("Stream is not ready. Call waitReady() first.");
     }
-    const message: TTSTextMessage = { type: "text", text };
-    this.ws.send(JSON.stringify(message));
+    if (!(this.normalizer || this.lexicon?.size || this.pendingText)) {
+      this.sendTextMessage(text);
+      return;
+    }
+
+    this.pendingText += text;
+    let held = heldTextStart(this.pendingText, this.lexicon?.maxWords ?? 1);
+    if (this.lexicon) {
+      held = this.lexicon.splitPoint(this.pendingText, held, this.language);
+    }
+    const ready = this.pendingText.slice(0, held);
+    this.pendingText = this.pendingText.slice(held);
+    if (ready) {
+      this.sendTextMessage(this.rewrite(ready));
+    }
   }
 
   /**
    * Signal end of input stream
    */
   sendEndOfStream(): void {
+    if (this.pendingText) {
+      this.sendTextMessage(this.rewrite(this.pendingText));
+      this.pendingText = "";
+    }
     this.ws.send(JSON.stringify({ type: "end_of_stream" }));
   }
 
+  /**
+   * Apply the lexicon, then normalization
+   */
+  private rewrite(text: string): string {
+    const respelled = this.lexicon
+      ? this.lexicon.apply(text, this.language)
+      : text;
+    return this.normalizer ? this.normalizer(respelled) : respelled;
+  }
+
+  private sendTextMessage(text: string): void {
+    const message: TTSTextMessage = { type: "text", text };
+    this.ws.send(JSON.stringify(message));
+  }
+
   /**
    * Async iterator for audio chunks
+   * Each iterator is an independent consumer woken as chunks arrive;
+   * chunks are released once every active consumer has read them.
+   * Throws if the stream fails.
    * @example
    * ```ts
    * for await (const chunk of stream) {
@@ -128,64 +367,69 @@ export class TTSStream {
    * }
    * ```
    */
-  async *[Symbol.asyncIterator](): AsyncGenerator<Uint8Array, void, unknown> {
-    let processedIndex = 0;
-
-    while (true) {
-      // Yield any new chunks
-      while (processedIndex < this.audioChunks.length) {
-        yield this.audioChunks[processedIndex];
-        processedIndex++;
-      }
-
-      // Check if stream has ended
-      const hasEnded = this.messageQueue.some(
-        (msg) => msg.type === "end_of_stream" || msg.type === "error"
-      );
-
-      if (hasEnded) {
-        // Yield any remaining chunks
-        while (processedIndex < this.audioChunks.length) {
-          yield this.audioChunks[processedIndex];
-          processedIndex++;
-        }
-        break;
-      }
-
-      // Wait a bit for more data
-      await new Promise((resolve) => setTimeout(resolve, 10));
-    }
+  [Symbol.asyncIterator](): AsyncGenerator<Uint8Array, void, unknown> {
+    return this.audioQueue.subscribe();
   }
 
   /**
    * Wait for the stream to complete and return all audio
+   * Audio already consumed by iterators is not included.
+   * Rejects with TimeoutError if the server goes silent for longer than the timeout
+   *
+   * @example
+   * ```ts
+   * // Guaranteed-valid WAV file, whatever the raw output format
+   * const result = await stream.collect({ container: 'wav' });
+   * ```
    */
-  async collect(): Promise<TTSResult> {
-    await this.endPromise;
+  async collect(options: TTSCollectOptions = {}): Promise<TTSResult> {
+    const format = getAudioFormatInfo(this.outputFormat);
+    if (options.container === "wav" && format.encoding === "opus") {
+      throw new GradiumError("Opus audio cannot be stored in a WAV container");
+    }
+
+    await this.waitFor(this.endPromise, options);
 
     // Concatenate all audio chunks
-    const totalLength = this.audioChunks.reduce(
-      (sum, chunk) => sum + chunk.length,
-      0
-    );
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of this.audioQueue.subscribe()) {
+      chunks.push(chunk);
+    }
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
     const rawData = new Uint8Array(totalLength);
     let offset = 0;
-    for (const chunk of this.audioChunks) {
+    for (const chunk of chunks) {
       rawData.set(chunk, offset);
       offset += chunk.length;
     }
 
     return {
-      raw_data: rawData,
-      sample_rate: this.sampleRate,
+      raw_data:
+        options.container === "wav" ? this.toWav(rawData, format) : rawData,
+      sample_rate: format.sample_rate,
+      encoding: format.encoding,
+      bit_depth: format.bit_depth,
+      channels: format.channels,
+      duration_s: getAudioDuration(rawData, this.outputFormat),
       request_id: this.requestId,
     };
   }
 
+  /**
+   * Wrap raw samples in a WAV header, or patch the header of streamed WAV output
+   */
+  private toWav(data: Uint8Array, format: AudioFormatInfo): Uint8Array {
+    if (format.container === "wav" && isWav(data)) {
+      return patchWavHeader(data);
+    }
+    return encodeWav(data, toWavFormat(format));
+  }
+
   /**
    * Close the stream
    */
   close(): void {
+    this.release();
     this.ws.close();
   }
 
@@ -203,6 +447,17 @@ export class TTSStream {
 export class TTS {
   private readonly client: Gradium;
 
+  /**
+   * Respellings applied to the text of every session, unless the setup
+   * params pass their own `lexicon`
+   *
+   * @example
+   * ```ts
+   * client.tts.lexicon.add('Gradium', 'Grey-dee-um');
+   * ```
+   */
+  readonly lexicon = new Lexicon();
+
   constructor(client: Gradium) {
     this.client = client;
   }
@@ -221,12 +476,19 @@ export class TTS {
    * await Bun.write('output.wav', result.raw_data);
    * ```
    */
-  async create(params: TTSSetupParams & { text: string }): Promise<TTSResult> {
-    const stream = await this.stream(params);
-    await stream.waitReady();
-    stream.sendText(params.text);
-    stream.sendEndOfStream();
-    return stream.collect();
+  async create(
+    params: TTSSetupParams & { text: string },
+    options?: RequestOptions
+  ): Promise<TTSResult> {
+    const stream = await this.stream(params, options);
+    try {
+      await stream.waitReady();
+      stream.sendText(params.text);
+      stream.sendEndOfStream();
+      return await stream.collect();
+    } finally {
+      stream.close();
+    }
   }
 
   /**
@@ -249,20 +511,59 @@ export class TTS {
    * }
    * ```
    */
-  async stream(params: TTSSetupParams): Promise<TTSStream> {
+  async stream(
+    params: TTSSetupParams,
+    options: RequestOptions = {}
+  ): Promise<TTSStream> {
+    return this.client.withRetry(
+      () => this.connect(params, options),
+      options.signal
+    );
+  }
+
+  /**
+   * Open the WebSocket and send the setup message once connected
+   */
+  private connect(
+    params: TTSSetupParams,
+    options: RequestOptions
+  ): Promise<TTSStream> {
     const wsUrl = `${this.client.wsURL}/tts`;
+    const normalizer = params.normalize
+      ? createTextNormalizer({
+          language: params.language,
+          ...(params.normalize === true ? {} : params.normalize),
+        })
+      : undefined;
 
     return new Promise((resolve, reject) => {
-      // Bun's WebSocket supports headers option for authentication
-      const ws = new WebSocket(wsUrl, {
-        headers: {
-          "x-api-key": this.client.apiKey,
+      const timeout = options.timeout ?? this.client.timeout;
+      const ws = this.client.createWebSocket(wsUrl, options.headers);
+      const stream = new TTSStream(ws, {
+        timeout,
+        signal: options.signal,
+        output_format: params.output_format,
+        normalizer,
+        lexicon: params.lexicon ?? this.lexicon,
+        language: params.language,
+      });
+      const streamErrorHandler = ws.onerror;
+
+      // Bound the handshake by the timeout and the caller's signal
+      const deadline = new Deadline(timeout, options.signal);
+      deadline.signal.addEventListener(
+        "abort",
+        () => {
+          ws.close();
+          reject(deadline.signal.reason);
         },
-      } as any);
-
-      const stream = new TTSStream(ws);
+        { once: true }
+      );
 
       ws.onopen = () => {
+        deadline.dispose();
+        ws.onerror = streamErrorHandler;
+
         // Send setup message
         const setupMessage: TTSSetupMessage = {
           type: "setup",
@@ -280,13 +581,165 @@ export class TTS {
       };
 
       ws.onerror = () => {
+        deadline.dispose();
         reject(new ConnectionError("Failed to connect to TTS WebSocket"));
       };
     });
   }
 
+  /**
+   * Synthesize long text across several sessions, yielding segments in order
+   * The text is split at paragraphs and sentences into segments of at most
+   * `max_segment_chars`, which are synthesized with bounded concurrency.
+   * A segment whose session fails transiently, such as a dropped
+   * connection, is retried.
+   *
+   * @example
+   * ```ts
+   * for await (const segment of client.tts.streamLong({
+   *   voice_id: 'YTpq7expH9539ERJ',
+   *   output_format: 'pcm',
+   *   text: chapter,
+   * }, { concurrency: 4 })) {
+   *   player.write(segment.result.raw_data);
+   * }
+   * ```
+   */
+  async *streamLong(
+    params: TTSSetupParams & { text: string },
+    options: TTSLongFormOptions = {}
+  ): AsyncGenerator<TTSSegment, void, unknown> {
+    const segments = splitText(params.text, options);
+    const policy = sessionRetryPolicy(
+      this.client.retry,
+      options.max_segment_retries ?? DEFAULT_SEGMENT_RETRIES
+    );
+    const totalChars = segments.reduce((sum, text) => sum + text.length, 0);
+
+    let completed = 0;
+    let synthesized = 0;
+
+    yield* mapOrdered(
+      segments,
+      options.concurrency ?? DEFAULT_LONG_FORM_CONCURRENCY,
+      async (text, index) => {
+        const result = await withRetry(
+          () => this.synthesizeSegment(params, text, options),
+          policy,
+          options.signal
+        );
+
+        completed++;
+        synthesized += text.length;
+        options.on_progress?.({
+          completed_segments: completed,
+          total_segments: segments.length,
+          synthesized_chars: synthesized,
+          total_chars: totalChars,
+        });
+        return { index, text, result };
+      }
+    );
+  }
+
+  /**
+   * Synthesize long text across several sessions into one result
+   * Segments are synthesized as with streamLong() and their audio is
+   * concatenated in order. WAV output gets a single header; Opus output is a
+   * chained Ogg stream. `request_id` lists the segments' request IDs,
+   * separated by commas.
+   *
+   * @example
+   * ```ts
+   * const result = await client.tts.createLong({
+   *   voice_id: 'YTpq7expH9539ERJ',
+   *   output_format: 'wav',
+   *   text: book,
+   * }, {
+   *   on_progress: (p) => console.log(`${p.completed_segments}/${p.total_segments}`),
+   * });
+   * ```
+   */
+  async createLong(
+    params: TTSSetupParams & { text: string },
+    options: TTSLongFormOptions & Pick<TTSCollectOptions, "container"> = {}
+  ): Promise<TTSResult> {
+    const format = getAudioFormatInfo(params.output_format);
+    if (options.container === "wav" && format.encoding === "opus") {
+      throw new GradiumError("Opus audio cannot be stored in a WAV container");
+    }
+
+    const results: TTSResult[] = [];
+    for await (const { result } of this.streamLong(params, options)) {
+      results.push(result);
+    }
+    return concatResults(results, params.output_format, options.container);
+  }
+
+  /**
+   * Synthesize one segment of a long text in its own session
+   */
+  private async synthesizeSegment(
+    params: TTSSetupParams,
+    text: string,
+    options: RequestOptions
+  ): Promise<TTSResult> {
+    // Failed sessions, including connection failures, are retried by streamLong()
+    const stream = await this.connect(params, options);
+    return synthesizeText(stream, text, options);
+  }
+
+  /**
+   * Synthesize a script marked up with pauses and voice switches into one
+   * result
+   * The script is split by parseMarkup(): each text span is synthesized in
+   * its own session with its voice, each `<break>` becomes silence in the
+   * output format, and the audio is concatenated in order as with
+   * createLong(). Other setup params apply to every span.
+   *
+   * @example
+   * ```ts
+   * const result = await client.tts.createMarkup({
+   *   voice_id: 'YTpq7expH9539ERJ',
+   *   output_format: 'wav',
+   *   text: 'Welcome back. <break time="500ms"/> ' +
+   *     '<voice id="b35yykvVppLXyw_l">Bonjour à tous.</voice>',
+   * });
+   * ```
+   */
+  async createMarkup(
+    params: TTSSetupParams & { text: string },
+    options: TTSMarkupOptions = {}
+  ): Promise<TTSResult> {
+    const format = getAudioFormatInfo(params.output_format);
+    if (options.container === "wav" && format.encoding === "opus") {
+      throw new GradiumError("Opus audio cannot be stored in a WAV container");
+    }
+
+    const spans = parseMarkup(params.text, params.voice_id);
+    const parts = await mapConcurrent(
+      spans,
+      options.concurrency ?? DEFAULT_LONG_FORM_CONCURRENCY,
+      async (span) => {
+        if (span.type === "break") {
+          return {
+            raw_data: createSilence(params.output_format, span.duration_s),
+          };
+        }
+        const stream = await this.stream(
+          { ...params, voice_id: span.voice_id },
+          options
+        );
+        return synthesizeText(stream, span.text, options);
+      }
+    );
+    return concatResults(parts, params.output_format, options.container);
+  }
+
   /**
    * Stream TTS with an async text generator
+   * Each string is sent as it arrives; with `chunking`, text is first
+   * buffered into phrases (see TextChunker), which suits LLM token streams.
    *
    * @example
    * ```ts
@@ -305,22 +758,36 @@ export class TTS {
    * for await (const chunk of stream) {
    *   console.log(`Received ${chunk.length} bytes`);
    * }
+   *
+   * // LLM output, sent a phrase at a time
+   * const stream = await client.tts.streamText(params, llmTokens(), {
+   *   chunking: { max_wait_ms: 500 },
+   * });
    * ```
    */
   async streamText(
     params: TTSSetupParams,
-    textGenerator: AsyncIterable<string>
+    textGenerator: AsyncIterable<string>,
+    options: TTSStreamTextOptions = {}
   ): Promise<TTSStream> {
-    const stream = await this.stream(params);
+    // Chunking options are checked before connecting
+    const { chunking } = options;
+    const texts = chunking
+      ? chunkTextStream(textGenerator, chunking === true ? {} : chunking)
+      : textGenerator;
+
+    const stream = await this.stream(params, options);
     await stream.waitReady();
 
     // Send text chunks asynchronously
     (async () => {
-      for await (const text of textGenerator) {
+      for await (const text of texts) {
         stream.sendText(text);
       }
       stream.sendEndOfStream();
-    })();
+    })().catch((error) => {
+      stream.abort(error instanceof Error ? error : new Error(String(error)));
+    });
 
     return stream;
   }
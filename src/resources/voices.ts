@@ -1,12 +1,13 @@
 import type { Gradium } from "../client";
-import { handleAPIError } from "../errors";
 import type {
+  RequestOptions,
   Voice,
   VoiceCreateParams,
   VoiceCreateResponse,
   VoiceListParams,
   VoiceUpdateParams,
 } from "../types";
+import { readAudioInput } from "../utils/audio-input";
 
 /**
  * Voices resource for managing custom voice clones
@@ -34,7 +35,10 @@ export class Voices {
    * });
    * ```
    */
-  async list(params?: VoiceListParams): Promise<Voice[]> {
+  async list(
+    params?: VoiceListParams,
+    options?: RequestOptions
+  ): Promise<Voice[]> {
     const searchParams = new URLSearchParams();
 
     if (params?.skip !== undefined) {
@@ -50,16 +54,14 @@ export class Voices {
     const queryString = searchParams.toString();
     const url = `${this.client.baseURL}/voices/${queryString ? `?${queryString}` : ""}`;
 
-    const response = await fetch(url, {
-      method: "GET",
-      headers: this.client.headers,
-    });
-
-    if (!response.ok) {
-      await handleAPIError(response);
-    }
-
-    return response.json();
+    return this.client.request(
+      url,
+      {
+        method: "GET",
+        headers: this.client.headers,
+      },
+      options
+    );
   }
 
   /**
@@ -71,17 +73,15 @@ export class Voices {
    * console.log(voice.name);
    * ```
    */
-  async get(voiceUid: string): Promise<Voice> {
-    const response = await fetch(`${this.client.baseURL}/voices/${voiceUid}`, {
-      method: "GET",
-      headers: this.client.headers,
-    });
-
-    if (!response.ok) {
-      await handleAPIError(response);
-    }
-
-    return response.json();
+  async get(voiceUid: string, options?: RequestOptions): Promise<Voice> {
+    return this.client.request(
+      `${this.client.baseURL}/voices/${voiceUid}`,
+      {
+        method: "GET",
+        headers: this.client.headers,
+      },
+      options
+    );
   }
 
   /**
@@ -105,16 +105,20 @@ export class Voices {
    * });
    * ```
    */
-  async create(params: VoiceCreateParams): Promise<VoiceCreateResponse> {
+  async create(
+    params: VoiceCreateParams,
+    options?: RequestOptions
+  ): Promise<VoiceCreateResponse> {
     const formData = new FormData();
 
     // Handle audio file
     if (typeof params.audio_file === "string") {
       // File path - read the file
-      const file = Bun.file(params.audio_file);
-      const blob = await file.arrayBuffer();
+      const audio = await readAudioInput(params.audio_file);
       const filename = params.audio_file.split("/").pop() || "audio.wav";
-      formData.append("audio_file", new Blob([blob]), filename);
+      // Bytes read from a file are backed by a plain ArrayBuffer
+      const blob = new Blob([audio as Uint8Array<ArrayBuffer>]);
+      formData.append("audio_file", blob, filename);
     } else {
       // Blob or File
       formData.append("audio_file", params.audio_file);
@@ -144,17 +148,15 @@ export class Voices {
       "x-api-key": this.client.apiKey,
     };
 
-    const response = await fetch(`${this.client.baseURL}/voices/`, {
-      method: "POST",
-      headers,
-      body: formData,
-    });
-
-    if (!response.ok) {
-      await handleAPIError(response);
-    }
-
-    return response.json();
+    return this.client.request(
+      `${this.client.baseURL}/voices/`,
+      {
+        method: "POST",
+        headers,
+        body: formData,
+      },
+      options
+    );
   }
 
   /**
@@ -168,21 +170,23 @@ export class Voices {
    * });
    * ```
    */
-  async update(voiceUid: string, params: VoiceUpdateParams): Promise<Voice> {
-    const response = await fetch(`${this.client.baseURL}/voices/${voiceUid}`, {
-      method: "PUT",
-      headers: {
-        ...this.client.headers,
-        "Content-Type": "application/json",
+  async update(
+    voiceUid: string,
+    params: VoiceUpdateParams,
+    options?: RequestOptions
+  ): Promise<Voice> {
+    return this.client.request(
+      `${this.client.baseURL}/voices/${voiceUid}`,
+      {
+        method: "PUT",
+        headers: {
+          ...this.client.headers,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(params),
       },
-      body: JSON.stringify(params),
-    });
-
-    if (!response.ok) {
-      await handleAPIError(response);
-    }
-
-    return response.json();
+      options
+    );
   }
 
   /**
@@ -193,14 +197,14 @@ export class Voices {
    * await client.voices.delete('voice_uid_here');
    * ```
    */
-  async delete(voiceUid: string): Promise<void> {
-    const response = await fetch(`${this.client.baseURL}/voices/${voiceUid}`, {
-      method: "DELETE",
-      headers: this.client.headers,
-    });
-
-    if (!response.ok) {
-      await handleAPIError(response);
-    }
+  async delete(voiceUid: string, options?: RequestOptions): Promise<void> {
+    await this.client.request(
+      `${this.client.baseURL}/voices/${voiceUid}`,
+      {
+        method: "DELETE",
+        headers: this.client.headers,
+      },
+      options
+    );
   }
 }
@@ -0,0 +1,12 @@
+export {
+  buildCues,
+  CueBuilder,
+  formatSRTCue,
+  formatWebVTTCue,
+  toSRT,
+  toWebVTT,
+  toWordTimings,
+  wrapLines,
+} from "./subtitles";
+export { stitchTranscripts, TranscriptBuilder } from "./transcript";
+export { TurnDetector } from "./turn-detector";
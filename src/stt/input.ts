@@ -0,0 +1,147 @@
+import { concatBytes } from "../audio/pcm";
+import { isWav, parseWav, type WavInfo } from "../audio/wav";
+import { GradiumError } from "../errors";
+import type {
+  AudioSource,
+  STTSetupParams,
+  STTTranscribeParams,
+} from "../types";
+import { readAudioChunks } from "../utils/audio-input";
+
+/** Input format of the samples inside a WAV file, by encoding */
+export const WAV_INPUT_FORMATS = {
+  pcm_s16le: "pcm",
+  mulaw: "ulaw_8000",
+  alaw: "alaw_8000",
+} as const;
+
+/** Capture pattern starting every Ogg page */
+const OGG_CAPTURE = [0x4f, 0x67, 0x67, 0x53]; // "OggS"
+/** Bytes needed to check the RIFF/WAVE tags */
+const WAV_TAGS_BYTES = 12;
+/** Bytes read while looking for the data chunk of a WAV header */
+const MAX_WAV_HEADER_BYTES = 64 * 1024;
+
+/**
+ * Audio source resolved for a session
+ */
+export type STTInput = {
+  /** Setup parameters, with the input format and rate read from a WAV header */
+  params: STTSetupParams;
+  /** Audio to send, without the WAV header when its samples are sent as-is */
+  chunks: AsyncGenerator<Uint8Array, void, unknown>;
+};
+
+/**
+ * Read an audio source in the declared input format
+ */
+export function openSTTInput(
+  params: STTSetupParams,
+  source: AudioSource
+): STTInput {
+  return { params, chunks: readAudioChunks(source) };
+}
+
+/**
+ * Detect the input format of an audio source from its first bytes
+ * PCM, µ-law and A-law WAV files are unwrapped and sent as raw samples at
+ * their declared rate and channel count, other WAV files are sent to the
+ * server as-is, and Ogg streams are sent as Opus. Other audio needs an
+ * explicit input format.
+ *
+ * @throws GradiumError if a WAV header is truncated or malformed, or if the
+ * audio is neither WAV nor Ogg
+ */
+export async function detectSTTInput(
+  params: STTTranscribeParams,
+  source: AudioSource
+): Promise<STTInput> {
+  const chunks = readAudioChunks(source);
+  const head = await readHead(chunks);
+  if (isOgg(head)) {
+    return {
+      params: { ...params, input_format: "opus" },
+      chunks: prepend(head, chunks),
+    };
+  }
+  if (!isWav(head)) {
+    await chunks.return();
+    throw new GradiumError(
+      "Cannot detect the audio format: set input_format for audio that is not WAV or Ogg"
+    );
+  }
+
+  const { info, bytes } = await readWavHeader(head, chunks);
+  if (!info.encoding) {
+    return {
+      params: { ...params, input_format: "wav" },
+      chunks: prepend(bytes, chunks),
+    };
+  }
+
+  return {
+    params: {
+      ...params,
+      input_format: WAV_INPUT_FORMATS[info.encoding],
+      sample_rate: info.sample_rate,
+      channels: info.channels,
+    },
+    chunks: prepend(bytes.subarray(info.data_offset), chunks),
+  };
+}
+
+function isOgg(bytes: Uint8Array): boolean {
+  return OGG_CAPTURE.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Read the first chunks, until the RIFF/WAVE tags can be checked or the source ends
+ */
+async function readHead(
+  chunks: AsyncGenerator<Uint8Array, void, unknown>
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  while (length < WAV_TAGS_BYTES) {
+    const result = await chunks.next();
+    if (result.done) {
+      break;
+    }
+    parts.push(result.value);
+    length += result.value.length;
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Read chunks until the WAV header is complete up to the data chunk
+ */
+async function readWavHeader(
+  head: Uint8Array,
+  chunks: AsyncGenerator<Uint8Array, void, unknown>
+): Promise<{ info: WavInfo; bytes: Uint8Array }> {
+  let bytes = head;
+  while (true) {
+    try {
+      return { info: parseWav(bytes), bytes };
+    } catch (error) {
+      const next =
+        bytes.length < MAX_WAV_HEADER_BYTES ? await chunks.next() : null;
+      if (!next || next.done) {
+        await chunks.return();
+        throw error;
+      }
+      bytes = concatBytes([bytes, next.value]);
+    }
+  }
+}
+
+async function* prepend(
+  first: Uint8Array,
+  rest: AsyncGenerator<Uint8Array, void, unknown>
+): AsyncGenerator<Uint8Array, void, unknown> {
+  if (first.length > 0) {
+    yield first;
+  }
+  yield* rest;
+}
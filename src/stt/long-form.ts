@@ -0,0 +1,179 @@
+import { decodeALaw, decodeMuLaw } from "../audio/g711";
+import { bytesToSamples } from "../audio/pcm";
+import { parseWav } from "../audio/wav";
+import { GradiumError } from "../errors";
+import type { SilenceSplitOptions, STTSetupParams } from "../types";
+import { WAV_INPUT_FORMATS } from "./input";
+
+/** Sample rate assumed for PCM without a declared rate (the server default) */
+const DEFAULT_PCM_SAMPLE_RATE = 24_000;
+/** G.711 input is narrowband telephony audio */
+const G711_SAMPLE_RATE = 8000;
+
+const DEFAULT_MAX_CHUNK_DURATION_S = 300;
+const DEFAULT_SEARCH_WINDOW_S = 30;
+const DEFAULT_SILENCE_WINDOW_S = 0.5;
+
+/**
+ * Raw audio prepared for splitting into sessions
+ */
+export type LongFormSource = {
+  /** Sample data without any container header */
+  data: Uint8Array;
+  /** Setup parameters that make a session accept slices of `data` */
+  params: STTSetupParams;
+  /** Sample rate in Hz */
+  sample_rate: number;
+  /** Number of interleaved channels */
+  channels: number;
+  /** Bytes per sample frame (all channels) */
+  block_align: number;
+  /** Decode interleaved samples from a slice of `data` */
+  decode: (bytes: Uint8Array) => Int16Array;
+};
+
+/**
+ * Describe PCM, G.711 or WAV input so it can be split into sessions
+ *
+ * @throws GradiumError for Opus or WAV encodings the SDK cannot decode
+ */
+export function prepareLongFormSource(
+  params: STTSetupParams,
+  audio: Uint8Array
+): LongFormSource {
+  const channels = params.channels ?? 1;
+
+  switch (params.input_format) {
+    case "pcm":
+      return {
+        data: audio,
+        params,
+        sample_rate: params.sample_rate ?? DEFAULT_PCM_SAMPLE_RATE,
+        channels,
+        block_align: 2 * channels,
+        decode: bytesToSamples,
+      };
+    case "ulaw_8000":
+    case "alaw_8000":
+      return {
+        data: audio,
+        params,
+        sample_rate: params.sample_rate ?? G711_SAMPLE_RATE,
+        channels,
+        block_align: channels,
+        decode: params.input_format === "ulaw_8000" ? decodeMuLaw : decodeALaw,
+      };
+    case "wav":
+      return prepareWav(params, audio);
+    default:
+      throw new GradiumError(
+        "Long-form transcription requires 'pcm', 'ulaw_8000', 'alaw_8000' or 'wav' input"
+      );
+  }
+}
+
+function prepareWav(params: STTSetupParams, audio: Uint8Array): LongFormSource {
+  const info = parseWav(audio);
+  if (!info.encoding) {
+    throw new GradiumError(
+      `Unsupported WAV format code ${info.format_code} (${info.bit_depth}-bit)`
+    );
+  }
+
+  return prepareLongFormSource(
+    {
+      ...params,
+      input_format: WAV_INPUT_FORMATS[info.encoding],
+      sample_rate: info.sample_rate,
+      channels: info.channels,
+    },
+    audio.subarray(info.data_offset, info.data_offset + info.data_size)
+  );
+}
+
+/**
+ * Choose chunk boundaries at the quietest points of the audio
+ *
+ * Each chunk is at most `max_chunk_duration_s` long. Its end is placed in the
+ * middle of the quietest `silence_window_s` found in the last
+ * `search_window_s` before that limit.
+ *
+ * @returns Frame indices of the boundaries, starting at 0 and ending at the
+ * total number of frames
+ */
+export function findSilenceSplits(
+  source: LongFormSource,
+  options: SilenceSplitOptions = {}
+): number[] {
+  const rate = source.sample_rate;
+  const maxChunk = Math.round(
+    (options.max_chunk_duration_s ?? DEFAULT_MAX_CHUNK_DURATION_S) * rate
+  );
+  const search = Math.round(
+    (options.search_window_s ?? DEFAULT_SEARCH_WINDOW_S) * rate
+  );
+  const window = Math.max(
+    1,
+    Math.round((options.silence_window_s ?? DEFAULT_SILENCE_WINDOW_S) * rate)
+  );
+  if (!(maxChunk > 0 && search > 0 && search <= maxChunk)) {
+    throw new GradiumError(
+      "search_window_s must be positive and no longer than max_chunk_duration_s"
+    );
+  }
+
+  const totalFrames = Math.floor(source.data.length / source.block_align);
+  const boundaries = [0];
+  let start = 0;
+
+  while (totalFrames - start > maxChunk) {
+    const end = start + maxChunk;
+    const from = Math.max(start + 1, end - search);
+    const samples = source.decode(
+      source.data.subarray(from * source.block_align, end * source.block_align)
+    );
+    start = from + findQuietestFrame(samples, source.channels, window);
+    boundaries.push(start);
+  }
+
+  boundaries.push(totalFrames);
+  return boundaries;
+}
+
+/**
+ * Center frame of the window with the lowest energy
+ */
+function findQuietestFrame(
+  samples: Int16Array,
+  channels: number,
+  window: number
+): number {
+  const frames = Math.floor(samples.length / channels);
+  if (frames <= window) {
+    return Math.floor(frames / 2);
+  }
+
+  // Prefix sums of frame energy make every window sum O(1)
+  const energy = new Float64Array(frames + 1);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = samples[frame * channels + channel];
+      sum += sample * sample;
+    }
+    energy[frame + 1] = energy[frame] + sum;
+  }
+
+  let best = 0;
+  let bestEnergy = Number.POSITIVE_INFINITY;
+  for (let first = 0; first + window <= frames; first++) {
+    const windowEnergy = energy[first + window] - energy[first];
+    // Prefer the latest quiet window so chunks stay close to the maximum length
+    if (windowEnergy <= bestEnergy) {
+      bestEnergy = windowEnergy;
+      best = first;
+    }
+  }
+
+  return best + Math.floor(window / 2);
+}
@@ -0,0 +1,208 @@
+import type {
+  SubtitleCue,
+  SubtitleOptions,
+  Transcript,
+  TranscriptSegment,
+  WordTimings,
+} from "../types";
+
+const DEFAULT_MAX_CHARS_PER_CUE = 84;
+const DEFAULT_MAX_CUE_DURATION_S = 7;
+const DEFAULT_MAX_LINE_LENGTH = 42;
+const DEFAULT_MAX_LINES = 2;
+
+/**
+ * Wrap words greedily into lines of at most `maxLength` characters
+ * A single word longer than the limit gets a line of its own.
+ */
+export function wrapLines(words: string[], maxLength: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Groups finalized transcript segments into subtitle cues.
+ *
+ * A cue is closed when the next segment would exceed the character, duration
+ * or line limits, or when it starts a new utterance. `push()` returns the cues
+ * closed so far, so cues can be emitted while transcription is running.
+ */
+export class CueBuilder {
+  private readonly maxChars: number;
+  private readonly maxDuration: number;
+  private readonly maxLineLength: number;
+  private readonly maxLines: number;
+  private segments: TranscriptSegment[] = [];
+  private utterance = 0;
+  private index = 0;
+
+  constructor(options: SubtitleOptions = {}) {
+    this.maxChars = options.max_chars_per_cue ?? DEFAULT_MAX_CHARS_PER_CUE;
+    this.maxDuration = options.max_cue_duration_s ?? DEFAULT_MAX_CUE_DURATION_S;
+    this.maxLineLength = options.max_line_length ?? DEFAULT_MAX_LINE_LENGTH;
+    this.maxLines = options.max_lines ?? DEFAULT_MAX_LINES;
+  }
+
+  /**
+   * Add a finalized segment and return the cues it closed
+   */
+  push(segment: TranscriptSegment, utterance = this.utterance): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    if (
+      this.segments.length > 0 &&
+      (utterance !== this.utterance || !this.fits(segment))
+    ) {
+      cues.push(this.emit());
+    }
+    this.segments.push(segment);
+    this.utterance = utterance;
+    return cues;
+  }
+
+  /**
+   * Close the pending cue, if any
+   */
+  flush(): SubtitleCue[] {
+    return this.segments.length > 0 ? [this.emit()] : [];
+  }
+
+  private fits(segment: TranscriptSegment): boolean {
+    const words = [...this.segments, segment].map((s) => s.text);
+    const chars = words.join(" ").length;
+    const duration = segment.stop_s - this.segments[0].start_s;
+    return (
+      chars <= this.maxChars &&
+      duration <= this.maxDuration &&
+      wrapLines(words, this.maxLineLength).length <= this.maxLines
+    );
+  }
+
+  private emit(): SubtitleCue {
+    const segments = this.segments;
+    this.segments = [];
+    this.index++;
+    return {
+      index: this.index,
+      start_s: segments[0].start_s,
+      stop_s: segments.reduce((max, s) => Math.max(max, s.stop_s), 0),
+      text: wrapLines(
+        segments.map((s) => s.text),
+        this.maxLineLength
+      ).join("\n"),
+      segments,
+    };
+  }
+}
+
+/**
+ * Split a transcript into subtitle cues
+ */
+export function buildCues(
+  transcript: Transcript,
+  options?: SubtitleOptions
+): SubtitleCue[] {
+  const builder = new CueBuilder(options);
+  const cues: SubtitleCue[] = [];
+  transcript.utterances.forEach((utterance, index) => {
+    for (const segment of utterance.segments) {
+      cues.push(...builder.push(segment, index));
+    }
+  });
+  cues.push(...builder.flush());
+  return cues;
+}
+
+/**
+ * Format seconds as HH:MM:SS followed by the millisecond separator and milliseconds
+ */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Escape characters with a special meaning in WebVTT cue text
+ */
+function escapeWebVTT(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+}
+
+/**
+ * Format a single cue as an SRT block, including the trailing blank line
+ */
+export function formatSRTCue(cue: SubtitleCue): string {
+  const start = formatTimestamp(cue.start_s, ",");
+  const stop = formatTimestamp(cue.stop_s, ",");
+  return `${cue.index}\n${start} --> ${stop}\n${cue.text}\n\n`;
+}
+
+/**
+ * Format a single cue as a WebVTT block, including the trailing blank line
+ * The document must start with the `WEBVTT` header written by toWebVTT().
+ */
+export function formatWebVTTCue(cue: SubtitleCue): string {
+  const start = formatTimestamp(cue.start_s, ".");
+  const stop = formatTimestamp(cue.stop_s, ".");
+  return `${cue.index}\n${start} --> ${stop}\n${escapeWebVTT(cue.text)}\n\n`;
+}
+
+function resolveCues(
+  input: Transcript | SubtitleCue[],
+  options?: SubtitleOptions
+): SubtitleCue[] {
+  return Array.isArray(input) ? input : buildCues(input, options);
+}
+
+/**
+ * Export a transcript (or prebuilt cues) as SubRip subtitles
+ */
+export function toSRT(
+  input: Transcript | SubtitleCue[],
+  options?: SubtitleOptions
+): string {
+  return resolveCues(input, options).map(formatSRTCue).join("");
+}
+
+/**
+ * Export a transcript (or prebuilt cues) as WebVTT subtitles
+ */
+export function toWebVTT(
+  input: Transcript | SubtitleCue[],
+  options?: SubtitleOptions
+): string {
+  const cues = resolveCues(input, options).map(formatWebVTTCue).join("");
+  return `WEBVTT\n\n${cues}`;
+}
+
+/**
+ * Export the word timings of a transcript
+ */
+export function toWordTimings(transcript: Transcript): WordTimings {
+  return {
+    duration_s: transcript.duration_s,
+    words: transcript.utterances.flatMap((utterance, index) =>
+      utterance.segments.map((segment) => ({ ...segment, utterance: index }))
+    ),
+  };
+}
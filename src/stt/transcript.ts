@@ -0,0 +1,243 @@
+import type {
+  FinalizedSegment,
+  STTEndTextMessage,
+  STTServerMessage,
+  STTStepMessage,
+  STTTextMessage,
+  Transcript,
+  TranscriptOptions,
+  TranscriptSegment,
+  TranscriptUtterance,
+} from "../types";
+
+/** Default inactivity probability ending an utterance */
+const DEFAULT_VAD_THRESHOLD = 0.5;
+/** Default VAD horizon, matching the turn-taking example in the docs */
+const DEFAULT_VAD_HORIZON_INDEX = 2;
+
+/**
+ * A segment under construction and the utterance it belongs to
+ */
+type Entry = {
+  segment: TranscriptSegment;
+  utterance: number;
+  closed: boolean;
+};
+
+/**
+ * Builds a Transcript from STT server messages.
+ *
+ * Each text message opens a segment that the next end_text message of the same
+ * stream closes. A segment left open is closed by the next word of its stream,
+ * or at the end of the audio. An utterance ends when a VAD step reports an
+ * inactivity probability above the threshold; the next word starts a new one.
+ *
+ * `push()` returns the segments finalized by each message, in transcript order,
+ * so results can be consumed while the stream is still running.
+ */
+export class TranscriptBuilder {
+  private readonly threshold: number;
+  private readonly horizonIndex: number;
+  private readonly entries: Entry[] = [];
+  private readonly open = new Map<number | null, Entry>();
+  private finalized = 0;
+  private utterance = 0;
+  private paused = false;
+  private duration = 0;
+
+  constructor(options: TranscriptOptions = {}) {
+    this.threshold = options.vad_threshold ?? DEFAULT_VAD_THRESHOLD;
+    this.horizonIndex = options.vad_horizon_index ?? DEFAULT_VAD_HORIZON_INDEX;
+  }
+
+  /**
+   * Feed a server message and return the segments it finalized
+   * A segment is finalized once it and every segment before it are closed;
+   * end_of_stream closes all remaining segments. Other messages are ignored.
+   */
+  push(message: STTServerMessage): FinalizedSegment[] {
+    switch (message.type) {
+      case "text":
+        this.addText(message);
+        break;
+      case "end_text":
+        this.endText(message);
+        break;
+      case "step":
+        this.addStep(message);
+        break;
+      case "end_of_stream":
+        this.closeAll();
+        break;
+      default:
+        break;
+    }
+    return this.takeFinalized();
+  }
+
+  private closeAll(): void {
+    const duration = this.getDuration();
+    for (const entry of this.open.values()) {
+      entry.segment.stop_s = duration;
+      entry.closed = true;
+    }
+    this.open.clear();
+  }
+
+  private takeFinalized(): FinalizedSegment[] {
+    const finalized: FinalizedSegment[] = [];
+    while (this.entries[this.finalized]?.closed) {
+      const entry = this.entries[this.finalized];
+      finalized.push({
+        segment: { ...entry.segment },
+        utterance: entry.utterance,
+      });
+      this.finalized++;
+    }
+    return finalized;
+  }
+
+  private getDuration(): number {
+    return this.entries.reduce(
+      (max, entry) => Math.max(max, entry.segment.stop_s),
+      this.duration
+    );
+  }
+
+  private addText(message: STTTextMessage): void {
+    const streamId = message.stream_id ?? null;
+
+    const previous = this.open.get(streamId);
+    if (previous) {
+      previous.segment.stop_s = Math.max(
+        previous.segment.start_s,
+        message.start_s
+      );
+      previous.closed = true;
+    }
+
+    const last = this.entries.at(-1);
+    if (this.paused && last && last.utterance === this.utterance) {
+      this.utterance++;
+    }
+    this.paused = false;
+
+    const entry: Entry = {
+      segment: {
+        text: message.text,
+        start_s: message.start_s,
+        stop_s: message.start_s,
+        stream_id: streamId,
+      },
+      utterance: this.utterance,
+      closed: false,
+    };
+    this.entries.push(entry);
+    this.open.set(streamId, entry);
+  }
+
+  private endText(message: STTEndTextMessage): void {
+    const streamId = message.stream_id ?? null;
+    const entry = this.open.get(streamId);
+    if (!entry) {
+      return;
+    }
+    entry.segment.stop_s = Math.max(entry.segment.start_s, message.stop_s);
+    entry.closed = true;
+    this.open.delete(streamId);
+  }
+
+  private addStep(message: STTStepMessage): void {
+    this.duration = Math.max(this.duration, message.total_duration_s);
+    const prediction = message.vad[this.horizonIndex];
+    if (prediction && prediction.inactivity_prob >= this.threshold) {
+      this.paused = true;
+    }
+  }
+
+  /**
+   * Build a snapshot of the transcript from the messages received so far
+   * Segments still awaiting their end_text are closed at the end of the audio.
+   */
+  build(): Transcript {
+    const duration = this.getDuration();
+
+    const segments: TranscriptSegment[] = [];
+    const groups: TranscriptSegment[][] = [];
+    for (const entry of this.entries) {
+      const segment = entry.closed
+        ? { ...entry.segment }
+        : { ...entry.segment, stop_s: duration };
+      segments.push(segment);
+      groups[entry.utterance] ??= [];
+      groups[entry.utterance].push(segment);
+    }
+
+    return {
+      text: joinText(segments),
+      segments,
+      utterances: groups.map(toUtterance),
+      duration_s: duration,
+    };
+  }
+}
+
+function joinText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text).join(" ");
+}
+
+function toUtterance(segments: TranscriptSegment[]): TranscriptUtterance {
+  return {
+    text: joinText(segments),
+    start_s: segments[0].start_s,
+    stop_s: segments.reduce((max, segment) => Math.max(max, segment.stop_s), 0),
+    segments,
+  };
+}
+
+function offsetSegment(
+  segment: TranscriptSegment,
+  offset: number
+): TranscriptSegment {
+  return {
+    ...segment,
+    start_s: segment.start_s + offset,
+    stop_s: segment.stop_s + offset,
+  };
+}
+
+/**
+ * Join transcripts of consecutive pieces of audio into one transcript
+ * Timestamps of each part are shifted by its offset in the full audio, and
+ * utterances never span two parts.
+ */
+export function stitchTranscripts(
+  parts: { transcript: Transcript; offset_s: number }[]
+): Transcript {
+  const segments: TranscriptSegment[] = [];
+  const utterances: TranscriptUtterance[] = [];
+  let duration = 0;
+
+  for (const { transcript, offset_s } of parts) {
+    for (const utterance of transcript.utterances) {
+      const shifted = utterance.segments.map((segment) =>
+        offsetSegment(segment, offset_s)
+      );
+      segments.push(...shifted);
+      utterances.push({
+        ...utterance,
+        start_s: utterance.start_s + offset_s,
+        stop_s: utterance.stop_s + offset_s,
+        segments: shifted,
+      });
+    }
+    duration = Math.max(duration, offset_s + transcript.duration_s);
+  }
+
+  return {
+    text: joinText(segments),
+    segments,
+    utterances,
+    duration_s: duration,
+  };
+}
@@ -0,0 +1,192 @@
+import type {
+  STTServerMessage,
+  STTStepMessage,
+  TurnDetectionOptions,
+  TurnEvent,
+} from "../types";
+
+type TimedText = { text: string; start_s: number };
+
+/** A turn that has ended, waiting for the text sent before its end */
+type ClosedTurn = {
+  start_s: number;
+  end_s: number;
+  /** Time the turn ended at: text starting earlier belongs to it */
+  closed_s: number;
+};
+
+const DEFAULT_HORIZON_INDEX = 2;
+const DEFAULT_SPEECH_THRESHOLD = 0.5;
+const DEFAULT_TURN_END_THRESHOLD = 0.8;
+const DEFAULT_HANGOVER_S = 0.3;
+
+/**
+ * Detects speech and end of turn from STT VAD steps.
+ *
+ * Speech starts when the inactivity probability drops below the speech
+ * threshold and ends when it rises back. The turn ends once the probability
+ * has stayed at or above the turn-end threshold for the hangover time; speech
+ * resuming before that continues the same turn. Text is assigned to turns by
+ * its start time: as the server sends text `delay_in_tokens` behind the VAD
+ * (taken from the ready message), turnEnd is reported once that delay has
+ * passed, or earlier when text starting after the turn arrives. At end of
+ * stream, pending and open turns are ended.
+ */
+export class TurnDetector {
+  private readonly horizonIndex: number;
+  private readonly speechThreshold: number;
+  private readonly turnEndThreshold: number;
+  private readonly hangover: number;
+  private speaking = false;
+  private inTurn = false;
+  private turnStart = 0;
+  private speechEnd = 0;
+  private silentSince: number | null = null;
+  private time = 0;
+  /** Seconds the server's text lags behind its VAD steps */
+  private textDelay = 0;
+  private texts: TimedText[] = [];
+  private closedTurn: ClosedTurn | null = null;
+
+  constructor(options: TurnDetectionOptions = {}) {
+    this.horizonIndex = options.horizon_index ?? DEFAULT_HORIZON_INDEX;
+    this.speechThreshold = options.speech_threshold ?? DEFAULT_SPEECH_THRESHOLD;
+    this.turnEndThreshold =
+      options.turn_end_threshold ?? DEFAULT_TURN_END_THRESHOLD;
+    this.hangover = options.hangover_s ?? DEFAULT_HANGOVER_S;
+  }
+
+  /**
+   * Whether the user is currently speaking
+   */
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Feed a server message and return the events it triggered
+   */
+  push(message: STTServerMessage): TurnEvent[] {
+    switch (message.type) {
+      case "ready":
+        this.textDelay =
+          (message.delay_in_tokens * message.frame_size) / message.sample_rate;
+        return [];
+      case "text":
+        this.texts.push({ text: message.text, start_s: message.start_s });
+        // Text arrives in order, so the closed turn has all of its text
+        return this.closedTurn && message.start_s >= this.closedTurn.closed_s
+          ? [this.reportTurn()]
+          : [];
+      case "step":
+        return this.addStep(message);
+      case "end_of_stream":
+        return this.finish();
+      default:
+        return [];
+    }
+  }
+
+  private addStep(message: STTStepMessage): TurnEvent[] {
+    this.time = message.total_duration_s;
+    const events: TurnEvent[] = [];
+    if (
+      this.closedTurn &&
+      this.time >= this.closedTurn.closed_s + this.textDelay
+    ) {
+      events.push(this.reportTurn());
+    }
+
+    const prediction = message.vad[this.horizonIndex];
+    if (!prediction) {
+      return events;
+    }
+
+    const inactivity = prediction.inactivity_prob;
+
+    if (inactivity < this.speechThreshold) {
+      this.silentSince = null;
+      if (!this.speaking) {
+        this.speaking = true;
+        if (!this.inTurn) {
+          this.inTurn = true;
+          this.turnStart = this.time;
+        }
+        events.push({ type: "speechStart", time_s: this.time });
+      }
+      return events;
+    }
+
+    if (this.speaking) {
+      events.push(this.endSpeech());
+    }
+
+    if (this.inTurn && inactivity >= this.turnEndThreshold) {
+      this.silentSince ??= this.time;
+      if (this.time - this.silentSince >= this.hangover) {
+        events.push(...this.endTurn());
+      }
+    } else {
+      this.silentSince = null;
+    }
+
+    return events;
+  }
+
+  private finish(): TurnEvent[] {
+    const events: TurnEvent[] = [];
+    if (this.speaking) {
+      events.push(this.endSpeech());
+    }
+    if (this.inTurn) {
+      events.push(...this.endTurn());
+    }
+    if (this.closedTurn) {
+      // No more text will arrive
+      this.closedTurn.closed_s = Number.POSITIVE_INFINITY;
+      events.push(this.reportTurn());
+    }
+    return events;
+  }
+
+  private endSpeech(): TurnEvent {
+    this.speaking = false;
+    this.speechEnd = this.time;
+    return { type: "speechEnd", time_s: this.time };
+  }
+
+  /**
+   * Close the current turn, reporting it at once if its text is complete
+   */
+  private endTurn(): TurnEvent[] {
+    // A turn shorter than the text delay may still wait for its text
+    const events = this.closedTurn ? [this.reportTurn()] : [];
+    this.closedTurn = {
+      start_s: this.turnStart,
+      end_s: this.speechEnd,
+      closed_s: this.time,
+    };
+    this.inTurn = false;
+    this.silentSince = null;
+    if (this.textDelay === 0) {
+      events.push(this.reportTurn());
+    }
+    return events;
+  }
+
+  /**
+   * Report the closed turn with the text that started before it ended
+   */
+  private reportTurn(): TurnEvent {
+    const turn = this.closedTurn as ClosedTurn;
+    const texts = this.texts.filter(({ start_s }) => start_s < turn.closed_s);
+    this.texts = this.texts.filter(({ start_s }) => start_s >= turn.closed_s);
+    this.closedTurn = null;
+    return {
+      type: "turnEnd",
+      text: texts.map(({ text }) => text).join(" "),
+      start_s: turn.start_s,
+      end_s: turn.end_s,
+    };
+  }
+}
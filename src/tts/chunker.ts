@@ -0,0 +1,346 @@
+import { GradiumError } from "../errors";
+import type { TextChunkerOptions } from "../types";
+
+const DEFAULT_MIN_CHUNK_CHARS = 20;
+const DEFAULT_MAX_CHUNK_CHARS = 250;
+const DEFAULT_MAX_WAIT_MS = 1000;
+
+/** A word followed by whitespace, so known to be complete */
+const COMPLETE_WORD = /^(\s*)(\S+)(?=\s)/;
+/** The last word of a stream */
+const LAST_WORD = /^(\s*)(\S+)/;
+/** A word ending a sentence: terminal punctuation, then closing quotes or brackets */
+const SENTENCE_END = /[.!?…]["'”’»)\]]*$/;
+/** Sentence ends inside buffered text, before the space that follows them */
+const SENTENCE_BREAKS = /[.!?…]["'”’»)\]]*(?= )/g;
+/** Clause ends inside buffered text, before the space that follows them */
+const CLAUSE_BREAKS = /[,;:—–]["'”’»)\]]*(?= )/g;
+
+/** Opening or closing line of a fenced code block */
+const CODE_FENCE = /^(?:```|~~~)/;
+/** Line prefixes: headings, list bullets and numbers, quotes and rules */
+const LINE_MARKER = /^(?:#{1,6}|[-*+]|\d+[.)]|>+|[-*_]{3,})$/;
+/** Emphasis, strikethrough or inline code marker opening a word */
+const OPENING_MARKER = /^(["'“‘(]*)(\*{1,3}|_{1,3}|`+|~~)(?=[^\s*_`~])/u;
+/** Emphasis, strikethrough or inline code marker closing a word */
+const CLOSING_MARKER = /(?<=[^\s*_`~])(\*{1,3}|_{1,3}|`+|~~)([^\p{L}\p{N}]*)$/u;
+
+/**
+ * Buffers streamed text, such as LLM tokens, into phrases for synthesis.
+ *
+ * Text is emitted at the first sentence end, or line break, once at least
+ * `min_chunk_chars` are buffered. Text reaching `max_chunk_chars` without one
+ * is cut at its last sentence end, clause punctuation or space that fits.
+ * A word is only emitted once it is complete, and whitespace runs are
+ * collapsed to a single space; chunks after the first start with that space,
+ * so they can be sent as they are.
+ *
+ * Markdown is stripped unless `strip_markdown` is false: emphasis, inline
+ * code and link markers are removed, keeping their text, line prefixes such
+ * as headings and list bullets are dropped, and fenced code blocks are left
+ * out entirely.
+ *
+ * @example
+ * ```ts
+ * const chunker = new TextChunker({ min_chunk_chars: 30 });
+ * for await (const token of llmTokens) {
+ *   for (const chunk of chunker.push(token)) stream.sendText(chunk);
+ * }
+ * for (const chunk of chunker.flush()) stream.sendText(chunk);
+ * ```
+ */
+export class TextChunker {
+  private readonly minChars: number;
+  private readonly maxChars: number;
+  private readonly stripMarkdown: boolean;
+  /** Text not yet split into words */
+  private raw = "";
+  /** Complete words waiting to be emitted */
+  private buffer = "";
+  private hasText = false;
+  private atStart = true;
+  private markdown = new MarkdownFilter();
+
+  constructor(options: TextChunkerOptions = {}) {
+    this.minChars = options.min_chunk_chars ?? DEFAULT_MIN_CHUNK_CHARS;
+    this.maxChars = options.max_chunk_chars ?? DEFAULT_MAX_CHUNK_CHARS;
+    this.stripMarkdown = options.strip_markdown ?? true;
+
+    if (!(Number.isInteger(this.maxChars) && this.maxChars > 0)) {
+      throw new GradiumError(`Invalid max_chunk_chars: ${this.maxChars}`);
+    }
+    if (
+      !(
+        Number.isInteger(this.minChars) &&
+        this.minChars >= 0 &&
+        this.minChars <= this.maxChars
+      )
+    ) {
+      throw new GradiumError(`Invalid min_chunk_chars: ${this.minChars}`);
+    }
+  }
+
+  /**
+   * Number of characters of complete words waiting to be emitted
+   */
+  get buffered(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Add streamed text and return the chunks it completed
+   */
+  push(text: string): string[] {
+    this.raw += text;
+    const chunks: string[] = [];
+    for (;;) {
+      const match = COMPLETE_WORD.exec(this.raw);
+      if (!match) {
+        return chunks;
+      }
+      this.raw = this.raw.slice(match[0].length);
+      this.addWord(match[1], match[2], chunks);
+    }
+  }
+
+  /**
+   * Emit the complete words buffered so far, whatever their length
+   * The word being streamed, if any, is kept until it is complete.
+   */
+  drain(): string[] {
+    if (!this.buffer) {
+      return [];
+    }
+    const chunk = this.buffer;
+    this.buffer = "";
+    return [chunk];
+  }
+
+  /**
+   * End the stream: emit all remaining text and reset the chunker
+   */
+  flush(): string[] {
+    const chunks: string[] = [];
+    const match = LAST_WORD.exec(this.raw);
+    if (match) {
+      this.addWord(match[1], match[2], chunks);
+    }
+    chunks.push(...this.drain());
+
+    this.raw = "";
+    this.hasText = false;
+    this.atStart = true;
+    this.markdown = new MarkdownFilter();
+    return chunks;
+  }
+
+  private addWord(space: string, word: string, chunks: string[]): void {
+    const lineStart = this.atStart || space.includes("\n");
+    this.atStart = false;
+
+    if (lineStart && this.buffer.length >= this.minChars) {
+      chunks.push(...this.drain());
+    }
+
+    const text = this.stripMarkdown
+      ? this.markdown.filter(word, lineStart)
+      : word;
+    if (!text) {
+      return;
+    }
+    this.buffer += (this.hasText ? " " : "") + text;
+    this.hasText = true;
+
+    if (SENTENCE_END.test(text) && this.buffer.length >= this.minChars) {
+      chunks.push(...this.drain());
+      return;
+    }
+    while (this.buffer.length > this.maxChars) {
+      chunks.push(this.cut());
+    }
+  }
+
+  /**
+   * Remove and return the longest prefix of the buffer that ends at a good
+   * break and fits in `max_chunk_chars`
+   */
+  private cut(): string {
+    const head = this.buffer.slice(0, this.maxChars + 1);
+    let end =
+      this.lastBreak(head, SENTENCE_BREAKS) ??
+      this.lastBreak(head, CLAUSE_BREAKS) ??
+      head.lastIndexOf(" ");
+    if (end <= 0) {
+      // A single word longer than the limit
+      end = this.buffer.indexOf(" ", 1);
+      if (end < 0) {
+        end = this.buffer.length;
+      }
+    }
+    const chunk = this.buffer.slice(0, end);
+    this.buffer = this.buffer.slice(end);
+    return chunk;
+  }
+
+  private lastBreak(text: string, pattern: RegExp): number | undefined {
+    let end: number | undefined;
+    for (const match of text.matchAll(pattern)) {
+      const position = match.index + match[0].length;
+      if (position >= this.minChars && position <= this.maxChars) {
+        end = position;
+      }
+    }
+    return end;
+  }
+}
+
+/**
+ * Removes Markdown from a stream of words, tracking code blocks, line
+ * prefixes and inline markers across them
+ */
+class MarkdownFilter {
+  private inCodeBlock = false;
+  /** Inline markers opened on the current line and not closed yet */
+  private readonly openMarkers = new Set<string>();
+  /** Rest of a fence line, such as the code block's language */
+  private skipLine = false;
+  /** Whether only line prefixes have been seen on the current line */
+  private inPrefix = false;
+
+  filter(word: string, lineStart: boolean): string {
+    if (lineStart) {
+      this.skipLine = false;
+      this.inPrefix = true;
+      this.openMarkers.clear();
+      if (CODE_FENCE.test(word)) {
+        this.inCodeBlock = !this.inCodeBlock;
+        this.skipLine = true;
+        return "";
+      }
+    }
+    if (this.inCodeBlock || this.skipLine) {
+      return "";
+    }
+    let text = word;
+    if (this.inPrefix) {
+      if (LINE_MARKER.test(word)) {
+        return "";
+      }
+      this.inPrefix = false;
+      text = word.replace(/^>+/, "");
+    }
+
+    return this.stripMarkers(
+      text
+        // Links and images, whole or split across words
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/\]\([^)]*\)/g, "")
+        .replace(/^(["'“‘(]*)!?\[/, "$1")
+        .replace(/\](?=[^\p{L}\p{N}]*$)/u, "")
+    );
+  }
+
+  /**
+   * Strip emphasis, strikethrough and inline code markers around words,
+   * keeping literal characters such as the `*` in "2*3"; a closing marker
+   * is only stripped when the same marker was opened
+   */
+  private stripMarkers(word: string): string {
+    let text = word;
+    let opening = text.match(OPENING_MARKER);
+    while (opening) {
+      this.openMarkers.add(opening[2]);
+      text = opening[1] + text.slice(opening[0].length);
+      opening = text.match(OPENING_MARKER);
+    }
+
+    let closing = text.match(CLOSING_MARKER);
+    while (closing && this.openMarkers.delete(closing[1])) {
+      text = text.slice(0, closing.index) + closing[2];
+      closing = text.match(CLOSING_MARKER);
+    }
+    return text;
+  }
+}
+
+/**
+ * Buffer a stream of text into phrases with a TextChunker
+ *
+ * Besides the chunker's boundaries, buffered words are emitted once the
+ * oldest of them has waited `max_wait_ms`, so slow streams keep speaking.
+ * Remaining text is emitted when the stream ends.
+ *
+ * @throws {GradiumError} If an option is invalid, when called rather than
+ * when iterated
+ *
+ * @example
+ * ```ts
+ * for await (const chunk of chunkTextStream(llmTokens, { max_wait_ms: 500 })) {
+ *   stream.sendText(chunk);
+ * }
+ * ```
+ */
+export function chunkTextStream(
+  source: AsyncIterable<string>,
+  options: TextChunkerOptions = {}
+): AsyncGenerator<string, void, unknown> {
+  const maxWait = options.max_wait_ms ?? DEFAULT_MAX_WAIT_MS;
+  if (!(maxWait > 0)) {
+    throw new GradiumError(`Invalid max_wait_ms: ${maxWait}`);
+  }
+  return chunkWithDeadline(source, new TextChunker(options), maxWait);
+}
+
+async function* chunkWithDeadline(
+  source: AsyncIterable<string>,
+  chunker: TextChunker,
+  maxWait: number
+): AsyncGenerator<string, void, unknown> {
+  const iterator = source[Symbol.asyncIterator]();
+  let deadline: number | null = null;
+  let finished = false;
+
+  try {
+    for (;;) {
+      const next = iterator.next();
+      if (deadline !== null && !(await beforeDeadline(next, deadline))) {
+        deadline = null;
+        yield* chunker.drain();
+      }
+      const result = await next;
+
+      if (result.done) {
+        finished = true;
+        yield* chunker.flush();
+        return;
+      }
+
+      const chunks = chunker.push(result.value);
+      if (chunks.length > 0 || chunker.buffered === 0) {
+        deadline = null;
+      }
+      if (chunker.buffered > 0 && Number.isFinite(maxWait)) {
+        deadline ??= Date.now() + maxWait;
+      }
+      yield* chunks;
+    }
+  } finally {
+    if (!finished) {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Settle with the promise's value, or with null once the deadline passes
+ */
+function beforeDeadline<T>(
+  promise: Promise<T>,
+  deadline: number
+): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), Math.max(0, deadline - Date.now()));
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,9 @@
+export { chunkTextStream, TextChunker } from "./chunker";
+export { Lexicon } from "./lexicon";
+export { parseMarkup } from "./markup";
+export {
+  createTextNormalizer,
+  normalizeText,
+  registerNormalizer,
+} from "./normalize";
+export { splitText } from "./segment";
@@ -0,0 +1,318 @@
+import { GradiumError } from "../errors";
+import type { LexiconData, LexiconEntry, LexiconEntryOptions } from "../types";
+import { mapTextOutsideTags } from "./markup";
+
+/** Characters that make up words, for whole-word matching */
+const WORD_START = "(?<![\\p{L}\\p{N}_])";
+const WORD_END = "(?![\\p{L}\\p{N}_])";
+
+/** Entries applying to one language, compiled into a single pattern */
+type CompiledLexicon = {
+  pattern: RegExp | null;
+  /** Case-sensitive entries by word */
+  exact: Map<string, LexiconEntry>;
+  /** Case-insensitive entries by lowercased word */
+  folded: Map<string, LexiconEntry>;
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Words of a phrase separated by single spaces */
+function collapseSpaces(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+function appliesTo(entry: LexiconEntry, language: string | undefined): boolean {
+  if (entry.language === undefined) {
+    return true;
+  }
+  if (language === undefined) {
+    return false;
+  }
+  const tag = entry.language.toLowerCase();
+  const target = language.toLowerCase();
+  return target === tag || target.startsWith(`${tag}-`);
+}
+
+/**
+ * Word to respelling mappings that fix the pronunciation of names, brands
+ * and acronyms.
+ *
+ * Matching ignores case and only covers whole words unless an entry says
+ * otherwise; a phrase matches whatever whitespace separates its words. The
+ * longest matching entry wins, and entries limited to a language take
+ * precedence over entries for all languages. Text is rewritten in one pass,
+ * so respellings are never matched again, and markup tags are left alone.
+ *
+ * @example
+ * ```ts
+ * const lexicon = new Lexicon()
+ *   .add('Gradium', 'Grey-dee-um')
+ *   .add('SQL', 'sequel', { case_sensitive: true })
+ *   .add('SQL', 'esse-cu-elle', { case_sensitive: true, language: 'fr' });
+ *
+ * lexicon.apply('Gradium loves SQL'); // "Grey-dee-um loves sequel"
+ * ```
+ */
+export class Lexicon {
+  private readonly defaults: LexiconEntryOptions;
+  private readonly list: LexiconEntry[] = [];
+  private readonly compiled = new Map<string, CompiledLexicon>();
+
+  /**
+   * @param entries - Initial entries
+   * @param defaults - Options for entries that do not set them
+   */
+  constructor(
+    entries: LexiconEntry[] = [],
+    defaults: LexiconEntryOptions = {}
+  ) {
+    this.defaults = defaults;
+    for (const entry of entries) {
+      this.addEntry(entry);
+    }
+  }
+
+  /**
+   * Build a lexicon from its JSON form or parsed data
+   *
+   * @example
+   * ```ts
+   * const lexicon = Lexicon.fromJSON(await Bun.file('lexicon.json').text());
+   * // {
+   * //   "entries": { "Gradium": "Grey-dee-um" },
+   * //   "languages": { "fr": [{ "word": "SQL", "respelling": "esse-cu-elle", "case_sensitive": true }] }
+   * // }
+   * ```
+   */
+  static fromJSON(json: string | LexiconData | LexiconEntry[]): Lexicon {
+    let data: unknown = json;
+    if (typeof json === "string") {
+      try {
+        data = JSON.parse(json);
+      } catch (error) {
+        throw new GradiumError(
+          `Invalid lexicon JSON: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    if (Array.isArray(data)) {
+      return new Lexicon(data);
+    }
+    if (typeof data !== "object" || data === null) {
+      throw new GradiumError("Invalid lexicon: expected an object or array");
+    }
+
+    const { entries, languages, ...defaults } = data as LexiconData;
+    const lexicon = new Lexicon([], defaults);
+    for (const entry of toEntries(entries)) {
+      lexicon.addEntry(entry);
+    }
+    for (const [language, list] of Object.entries(languages ?? {})) {
+      for (const entry of toEntries(list)) {
+        lexicon.addEntry({ ...entry, language });
+      }
+    }
+    return lexicon;
+  }
+
+  /**
+   * Number of entries
+   */
+  get size(): number {
+    return this.list.length;
+  }
+
+  /**
+   * Most words in an entry, which bounds how much streamed text must be
+   * held back before applying the lexicon
+   */
+  get maxWords(): number {
+    return Math.max(
+      1,
+      ...this.list.map((entry) => entry.word.split(" ").length)
+    );
+  }
+
+  /**
+   * Add a respelling, replacing any entry for the same word, case
+   * sensitivity and language
+   */
+  add(
+    word: string,
+    respelling: string,
+    options: LexiconEntryOptions & { language?: string } = {}
+  ): this {
+    this.addEntry({ ...options, word, respelling });
+    return this;
+  }
+
+  /**
+   * Remove the entries for a word
+   * @param language - Only remove the entries limited to this language
+   * @returns Whether an entry was removed
+   */
+  remove(word: string, language?: string): boolean {
+    const phrase = collapseSpaces(word).toLowerCase();
+    const before = this.list.length;
+    for (let i = this.list.length - 1; i >= 0; i--) {
+      const entry = this.list[i];
+      if (
+        entry.word.toLowerCase() === phrase &&
+        (language === undefined ||
+          entry.language?.toLowerCase() === language.toLowerCase())
+      ) {
+        this.list.splice(i, 1);
+      }
+    }
+    this.compiled.clear();
+    return this.list.length < before;
+  }
+
+  /**
+   * Respell the entries found in text
+   * @param language - Language of the text; without it, only entries for all
+   * languages apply
+   */
+  apply(text: string, language?: string): string {
+    const { pattern, exact, folded } = this.compile(language);
+    if (!pattern) {
+      return text;
+    }
+    return mapTextOutsideTags(text, (part) =>
+      part.replace(pattern, (match) => {
+        const phrase = collapseSpaces(match);
+        const entry = exact.get(phrase) ?? folded.get(phrase.toLowerCase());
+        return entry ? entry.respelling : match;
+      })
+    );
+  }
+
+  /**
+   * Move a split position back to the start of the entry it falls inside, if
+   * any, so the text on each side can be respelled separately
+   */
+  splitPoint(text: string, index: number, language?: string): number {
+    const { pattern } = this.compile(language);
+    if (!pattern) {
+      return index;
+    }
+    for (const match of text.matchAll(pattern)) {
+      if (match.index >= index) {
+        break;
+      }
+      if (match.index + match[0].length > index) {
+        return match.index;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Entries in serializable form, accepted by fromJSON()
+   */
+  toJSON(): LexiconEntry[] {
+    return this.list.map((entry) => ({ ...entry }));
+  }
+
+  private addEntry(entry: LexiconEntry): void {
+    if (
+      typeof entry?.word !== "string" ||
+      !entry.word.trim() ||
+      typeof entry.respelling !== "string"
+    ) {
+      throw new GradiumError(`Invalid lexicon entry: ${JSON.stringify(entry)}`);
+    }
+
+    const normalized: LexiconEntry = {
+      word: collapseSpaces(entry.word),
+      respelling: entry.respelling,
+      case_sensitive:
+        entry.case_sensitive ?? this.defaults.case_sensitive ?? false,
+      whole_word: entry.whole_word ?? this.defaults.whole_word ?? true,
+    };
+    if (entry.language !== undefined) {
+      normalized.language = entry.language;
+    }
+
+    const index = this.list.findIndex(
+      (existing) =>
+        existing.language?.toLowerCase() ===
+          normalized.language?.toLowerCase() &&
+        existing.case_sensitive === normalized.case_sensitive &&
+        (normalized.case_sensitive
+          ? existing.word === normalized.word
+          : existing.word.toLowerCase() === normalized.word.toLowerCase())
+    );
+    if (index >= 0) {
+      this.list[index] = normalized;
+    } else {
+      this.list.push(normalized);
+    }
+    this.compiled.clear();
+  }
+
+  private compile(language: string | undefined): CompiledLexicon {
+    const key = language?.toLowerCase() ?? "";
+    const cached = this.compiled.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const exact = new Map<string, LexiconEntry>();
+    const folded = new Map<string, LexiconEntry>();
+    const entries = this.list
+      .filter((entry) => appliesTo(entry, language))
+      // Entries for all languages first, so language entries override them
+      .sort(
+        (a, b) =>
+          Number(a.language !== undefined) - Number(b.language !== undefined)
+      );
+    for (const entry of entries) {
+      if (entry.case_sensitive) {
+        exact.set(entry.word, entry);
+      } else {
+        folded.set(entry.word.toLowerCase(), entry);
+      }
+    }
+
+    const alternatives = [...exact.values(), ...folded.values()]
+      .sort((a, b) => b.word.length - a.word.length)
+      .map((entry) => {
+        const body = entry.word.split(" ").map(escapeRegExp).join("\\s+");
+        return entry.whole_word ? `${WORD_START}${body}${WORD_END}` : body;
+      });
+    const compiled: CompiledLexicon = {
+      pattern:
+        alternatives.length > 0
+          ? new RegExp(alternatives.join("|"), "giu")
+          : null,
+      exact,
+      folded,
+    };
+    this.compiled.set(key, compiled);
+    return compiled;
+  }
+}
+
+function toEntries(
+  list: Record<string, string> | LexiconEntry[] | undefined
+): LexiconEntry[] {
+  if (list === undefined) {
+    return [];
+  }
+  if (Array.isArray(list)) {
+    return list;
+  }
+  if (typeof list !== "object" || list === null) {
+    throw new GradiumError(
+      "Invalid lexicon: entries must be an object or array"
+    );
+  }
+  return Object.entries(list).map(([word, respelling]) => ({
+    word,
+    respelling,
+  }));
+}
@@ -0,0 +1,159 @@
+import { GradiumError } from "../errors";
+import type { MarkupSpan } from "../types";
+
+/** Markup tags, such as `<break time="1s" />` */
+const MARKUP_TAG = /(<[^<>]*>)/;
+/** Parts of a tag: closing slash, name, attributes and self-closing slash */
+const TAG_PARTS =
+  /^<\s*(\/?)\s*([\w-]+)((?:\s+[\w-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)\s*>$/;
+const TAG_ATTRIBUTE = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+/** Break durations, as in "500ms" or "1.5s" */
+const BREAK_TIME = /^(\d+(?:\.\d+)?)(ms|s)$/;
+/** Longest break, in seconds, as in SSML */
+const MAX_BREAK_S = 10;
+const ENTITIES: Record<string, string> = {
+  "&lt;": "<",
+  "&gt;": ">",
+  "&amp;": "&",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+/**
+ * Rewrite the text between markup tags, leaving the tags untouched
+ */
+export function mapTextOutsideTags(
+  text: string,
+  rewrite: (part: string) => string
+): string {
+  return (
+    text
+      .split(MARKUP_TAG)
+      // Odd indexes hold the tags captured by the split
+      .map((part, index) => (index % 2 === 1 ? part : rewrite(part)))
+      .join("")
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(?:lt|gt|amp|quot|apos);/g,
+    (entity) => ENTITIES[entity]
+  );
+}
+
+type MarkupTag = {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  attributes: Record<string, string>;
+};
+
+function parseTag(tag: string): MarkupTag {
+  const match = tag.match(TAG_PARTS);
+  if (!match || (match[1] && (match[3] || match[4]))) {
+    throw new GradiumError(`Invalid markup tag: ${tag}`);
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of match[3].matchAll(TAG_ATTRIBUTE)) {
+    attributes[name.toLowerCase()] = decodeEntities(double ?? single);
+  }
+  return {
+    name: match[2].toLowerCase(),
+    closing: match[1] === "/",
+    selfClosing: match[4] === "/",
+    attributes,
+  };
+}
+
+function breakDuration(time: string | undefined): number {
+  const match = time?.trim().match(BREAK_TIME);
+  if (!match) {
+    throw new GradiumError(`Invalid break time: ${time ?? "(missing)"}`);
+  }
+  const duration =
+    match[2] === "ms" ? Number(match[1]) / 1000 : Number(match[1]);
+  if (duration > MAX_BREAK_S) {
+    throw new GradiumError(
+      `Break time exceeds ${MAX_BREAK_S}s: ${time?.trim()}`
+    );
+  }
+  return duration;
+}
+
+/**
+ * Split a script written in an SSML subset into text spans and pauses
+ *
+ * `<break time="500ms"/>` inserts a pause (in `ms` or `s`, up to 10s), and
+ * `<voice id="...">...</voice>` reads the text it wraps with another voice;
+ * voices nest. A `<speak>` root is allowed, and `&lt;`, `&gt;`, `&amp;`,
+ * `&quot;` and `&apos;` stand for the characters they escape. Text spans are
+ * trimmed, and consecutive text of the same voice forms one span.
+ *
+ * @param voice_id - Voice of the text outside any `<voice>` tag
+ * @throws {GradiumError} If a tag is malformed, unsupported or unbalanced
+ *
+ * @example
+ * ```ts
+ * parseMarkup('Hi. <break time="1s"/> <voice id="b35yykvVppLXyw_l">Salut.</voice>', 'YTpq7expH9539ERJ');
+ * // [
+ * //   { type: 'text', text: 'Hi.', voice_id: 'YTpq7expH9539ERJ' },
+ * //   { type: 'break', duration_s: 1 },
+ * //   { type: 'text', text: 'Salut.', voice_id: 'b35yykvVppLXyw_l' },
+ * // ]
+ * ```
+ */
+export function parseMarkup(text: string, voice_id: string): MarkupSpan[] {
+  const voices = [voice_id];
+  const spans: MarkupSpan[] = [];
+
+  for (const [index, part] of text.split(MARKUP_TAG).entries()) {
+    const voice = voices.at(-1) ?? voice_id;
+
+    // Odd indexes hold the tags captured by the split
+    if (index % 2 === 0) {
+      const last = spans.at(-1);
+      if (last?.type === "text" && last.voice_id === voice) {
+        last.text += decodeEntities(part);
+      } else if (part.trim()) {
+        spans.push({
+          type: "text",
+          text: decodeEntities(part),
+          voice_id: voice,
+        });
+      }
+      continue;
+    }
+
+    const tag = parseTag(part);
+    if (tag.name === "break" && !tag.closing) {
+      spans.push({
+        type: "break",
+        duration_s: breakDuration(tag.attributes.time),
+      });
+    } else if (tag.name === "voice" && tag.closing) {
+      if (voices.length === 1) {
+        throw new GradiumError("Unexpected </voice> tag");
+      }
+      voices.pop();
+    } else if (tag.name === "voice") {
+      if (!tag.attributes.id || tag.selfClosing) {
+        throw new GradiumError(`Invalid voice tag: ${part}`);
+      }
+      voices.push(tag.attributes.id);
+    } else if (tag.name !== "speak") {
+      throw new GradiumError(`Unsupported markup tag: ${part}`);
+    }
+  }
+
+  if (voices.length > 1) {
+    throw new GradiumError("Unclosed <voice> tag");
+  }
+
+  return spans
+    .map((span) =>
+      span.type === "text" ? { ...span, text: span.text.trim() } : span
+    )
+    .filter((span) => span.type === "break" || span.text);
+}
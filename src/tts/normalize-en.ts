@@ -0,0 +1,241 @@
+import {
+  abbreviation,
+  createLocaleNormalizer,
+  endsSentence,
+  type NormalizationLocale,
+} from "./normalize-rules";
+
+const ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const TENS = [
+  "",
+  "",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+];
+const SCALES: [number, string][] = [
+  [1e12, "trillion"],
+  [1e9, "billion"],
+  [1e6, "million"],
+  [1e3, "thousand"],
+];
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+/** Ordinals that do not just add "th" */
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+function belowHundred(value: number): string {
+  if (value < 20) {
+    return ONES[value];
+  }
+  const unit = value % 10;
+  return TENS[Math.floor(value / 10)] + (unit ? `-${ONES[unit]}` : "");
+}
+
+function belowThousand(value: number): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const words = hundreds ? [`${ONES[hundreds]} hundred`] : [];
+  if (rest || !hundreds) {
+    words.push(belowHundred(rest));
+  }
+  return words.join(" ");
+}
+
+function cardinal(value: number): string {
+  if (value < 1000) {
+    return belowThousand(value);
+  }
+  const words: string[] = [];
+  let rest = value;
+  for (const [scale, name] of SCALES) {
+    if (rest >= scale) {
+      words.push(`${belowThousand(Math.floor(rest / scale))} ${name}`);
+      rest %= scale;
+    }
+  }
+  if (rest) {
+    words.push(belowThousand(rest));
+  }
+  return words.join(" ");
+}
+
+function ordinal(value: number): string {
+  return cardinal(value).replace(/[a-z]+$/, (last) => {
+    if (last in IRREGULAR_ORDINALS) {
+      return IRREGULAR_ORDINALS[last];
+    }
+    return last.endsWith("y") ? `${last.slice(0, -1)}ieth` : `${last}th`;
+  });
+}
+
+/**
+ * Years are read in pairs, as in "nineteen eighty-four" or "twenty twenty-five"
+ */
+function year(value: number): string {
+  const high = Math.floor(value / 100);
+  const low = value % 100;
+  if (value < 1000 || value >= 10_000 || (high % 10 === 0 && low < 10)) {
+    return cardinal(value);
+  }
+  if (low === 0) {
+    return `${belowHundred(high)} hundred`;
+  }
+  return `${belowHundred(high)} ${low < 10 ? "oh " : ""}${belowHundred(low)}`;
+}
+
+/**
+ * Clock times, as in "ten thirty AM", "seven oh five" or "fourteen hundred"
+ */
+function time(hours: number, minutes: number, meridiem?: string): string {
+  const suffix = meridiem ? ` ${meridiem.toUpperCase()}M` : "";
+  if (minutes > 0) {
+    return `${cardinal(hours)} ${minutes < 10 ? "oh " : ""}${belowHundred(minutes)}${suffix}`;
+  }
+  if (meridiem) {
+    return `${cardinal(hours)}${suffix}`;
+  }
+  return hours === 0 || hours > 12
+    ? `${cardinal(hours)} hundred`
+    : `${cardinal(hours)} o'clock`;
+}
+
+const locale: NormalizationLocale = {
+  cardinal,
+  ordinal,
+  fraction: (digits) =>
+    [...digits].map((digit) => ONES[Number(digit)]).join(" "),
+  date: (day, month, value) =>
+    `${MONTHS[month - 1]} ${ordinal(day)}, ${year(value)}`,
+  year,
+  isPlural: (value) => value !== 1,
+  currencyMagnitude: (amount, magnitude, unit) =>
+    `${amount} ${magnitude} ${unit[1]}`,
+  dayFirst: false,
+  groupSeparators: ",",
+  decimalSeparator: ".",
+  point: "point",
+  minus: "minus",
+  and: "and",
+  percent: "percent",
+  ordinalSuffix: "st|nd|rd|th",
+  magnitudes: ["thousand", "million", "billion", "trillion"],
+  currencies: {
+    $: { unit: ["dollar", "dollars"], subunit: ["cent", "cents"] },
+    "€": { unit: ["euro", "euros"], subunit: ["cent", "cents"] },
+    "£": { unit: ["pound", "pounds"], subunit: ["penny", "pence"] },
+    "¥": { unit: ["yen", "yen"], subunit: ["sen", "sen"] },
+  },
+  units: {
+    "km/h": ["kilometer per hour", "kilometers per hour"],
+    "m/s": ["meter per second", "meters per second"],
+    mph: ["mile per hour", "miles per hour"],
+    km: ["kilometer", "kilometers"],
+    m: ["meter", "meters"],
+    cm: ["centimeter", "centimeters"],
+    mm: ["millimeter", "millimeters"],
+    mi: ["mile", "miles"],
+    ft: ["foot", "feet"],
+    kg: ["kilogram", "kilograms"],
+    g: ["gram", "grams"],
+    mg: ["milligram", "milligrams"],
+    lb: ["pound", "pounds"],
+    lbs: ["pound", "pounds"],
+    oz: ["ounce", "ounces"],
+    ml: ["milliliter", "milliliters"],
+    "°C": ["degree Celsius", "degrees Celsius"],
+    "°F": ["degree Fahrenheit", "degrees Fahrenheit"],
+    kW: ["kilowatt", "kilowatts"],
+    kWh: ["kilowatt hour", "kilowatt hours"],
+    KB: ["kilobyte", "kilobytes"],
+    MB: ["megabyte", "megabytes"],
+    GB: ["gigabyte", "gigabytes"],
+    TB: ["terabyte", "terabytes"],
+    ms: ["millisecond", "milliseconds"],
+    min: ["minute", "minutes"],
+    h: ["hour", "hours"],
+  },
+  ambiguousUnits: ["m", "g", "min", "h"],
+  rules: [
+    // Clock times, with an optional AM or PM
+    [
+      /(?<![\p{L}\p{N}_.,:])([01]?\d|2[0-3]):([0-5]\d)(?![\p{N}_]|:\d)(?:\s?([ap])\.?m\b\.?)?/giu,
+      (match, ...groups) => {
+        const [hours, minutes, meridiem] = groups;
+        const period = meridiem && endsSentence(match, groups) ? "." : "";
+        return time(Number(hours), Number(minutes), meridiem) + period;
+      },
+    ],
+    // Decades
+    [
+      /(?<![\p{L}\p{N}])(1[1-9]\d0|20\d0)s(?![\p{L}\p{N}])/gu,
+      (_, value) => `${year(Number(value))}s`.replace(/ys$/, "ies"),
+    ],
+    // Titles, when followed by a name
+    [/\bDr\.(?=\s+\p{Lu})/gu, "Doctor"],
+    [/\bMr\.(?=\s+\p{Lu})/gu, "Mister"],
+    [/\bMrs\.(?=\s+\p{Lu})/gu, "Missus"],
+    [/\bMs\.(?=\s+\p{Lu})/gu, "Miz"],
+    [/\bProf\.(?=\s+\p{Lu})/gu, "Professor"],
+    [/\bSt\.(?=\s+\p{Lu})/gu, "Saint"],
+    [/\bNo\.(?=\s*\d)/g, "number"],
+    abbreviation(/\bJr\./g, "Junior"),
+    abbreviation(/\bSr\./g, "Senior"),
+    abbreviation(/\bvs\./g, "versus"),
+    abbreviation(/\betc\./g, "et cetera"),
+    abbreviation(/\be\.g\./g, "for example"),
+    abbreviation(/\bi\.e\./g, "that is"),
+    abbreviation(/\bapprox\./g, "approximately"),
+  ],
+};
+
+/**
+ * Built-in English normalizer
+ */
+export const normalizeEnglish = createLocaleNormalizer(locale);
@@ -0,0 +1,246 @@
+import {
+  abbreviation,
+  createLocaleNormalizer,
+  type NormalizationLocale,
+} from "./normalize-rules";
+
+const UNITS = [
+  "zéro",
+  "un",
+  "deux",
+  "trois",
+  "quatre",
+  "cinq",
+  "six",
+  "sept",
+  "huit",
+  "neuf",
+  "dix",
+  "onze",
+  "douze",
+  "treize",
+  "quatorze",
+  "quinze",
+  "seize",
+  "dix-sept",
+  "dix-huit",
+  "dix-neuf",
+];
+const TENS = [
+  "",
+  "dix",
+  "vingt",
+  "trente",
+  "quarante",
+  "cinquante",
+  "soixante",
+];
+const SCALES: [number, string][] = [
+  [1e9, "milliard"],
+  [1e6, "million"],
+];
+const MONTHS = [
+  "janvier",
+  "février",
+  "mars",
+  "avril",
+  "mai",
+  "juin",
+  "juillet",
+  "août",
+  "septembre",
+  "octobre",
+  "novembre",
+  "décembre",
+];
+/** Larger numbers are read digit by digit */
+const MAX_CARDINAL = 999_999_999_999;
+
+/**
+ * @param final - Whether nothing follows but nouns, which keeps the "s" of
+ * "quatre-vingts" and "deux cents" (traditional spelling)
+ */
+function belowHundred(value: number, final: boolean): string {
+  if (value < 20) {
+    return UNITS[value];
+  }
+  const tens = Math.floor(value / 10);
+  const unit = value % 10;
+  if (tens === 7 || tens === 9) {
+    const base = tens === 7 ? "soixante" : "quatre-vingt";
+    return `${base}${tens === 7 && unit === 1 ? " et " : "-"}${UNITS[10 + unit]}`;
+  }
+  if (tens === 8) {
+    if (unit) {
+      return `quatre-vingt-${UNITS[unit]}`;
+    }
+    return final ? "quatre-vingts" : "quatre-vingt";
+  }
+  if (unit === 1) {
+    return `${TENS[tens]} et un`;
+  }
+  return TENS[tens] + (unit ? `-${UNITS[unit]}` : "");
+}
+
+function belowThousand(value: number, final: boolean): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const words: string[] = [];
+  if (hundreds === 1) {
+    words.push("cent");
+  } else if (hundreds > 1) {
+    words.push(`${UNITS[hundreds]} ${rest === 0 && final ? "cents" : "cent"}`);
+  }
+  if (rest || !hundreds) {
+    words.push(belowHundred(rest, final));
+  }
+  return words.join(" ");
+}
+
+function cardinal(value: number): string {
+  if (value > MAX_CARDINAL) {
+    return [...String(value)].map((digit) => UNITS[Number(digit)]).join(" ");
+  }
+  if (value < 1000) {
+    return belowThousand(value, true);
+  }
+
+  const words: string[] = [];
+  let rest = value;
+  for (const [scale, name] of SCALES) {
+    const count = Math.floor(rest / scale);
+    if (count) {
+      words.push(
+        `${belowThousand(count, true)} ${name}${count > 1 ? "s" : ""}`
+      );
+      rest %= scale;
+    }
+  }
+  const thousands = Math.floor(rest / 1000);
+  if (thousands) {
+    // "mille" is invariable and not preceded by "un"
+    words.push(
+      thousands === 1 ? "mille" : `${belowThousand(thousands, false)} mille`
+    );
+    rest %= 1000;
+  }
+  if (rest) {
+    words.push(belowThousand(rest, true));
+  }
+  return words.join(" ");
+}
+
+function ordinal(value: number): string {
+  if (value === 1) {
+    return "premier";
+  }
+  const words = cardinal(value).replace(/(vingt|cent)s$/, "$1");
+  if (words.endsWith("cinq")) {
+    return `${words}uième`;
+  }
+  if (words.endsWith("neuf")) {
+    return `${words.slice(0, -1)}vième`;
+  }
+  return `${words.endsWith("e") ? words.slice(0, -1) : words}ième`;
+}
+
+/** Decimals are read as a number, keeping their leading zeros */
+function fraction(digits: string): string {
+  if (digits.length > 3) {
+    return [...digits].map((digit) => UNITS[Number(digit)]).join(" ");
+  }
+  const zeros = digits.match(/^0*/)?.[0].length ?? 0;
+  const rest = digits.slice(zeros);
+  return [
+    ...Array.from({ length: zeros }, () => UNITS[0]),
+    ...(rest ? [cardinal(Number(rest))] : []),
+  ].join(" ");
+}
+
+const locale: NormalizationLocale = {
+  cardinal,
+  ordinal,
+  fraction,
+  date: (day, month, year) =>
+    `${day === 1 ? "premier" : cardinal(day)} ${MONTHS[month - 1]} ${cardinal(year)}`,
+  isPlural: (value) => value >= 2,
+  currencyMagnitude: (amount, magnitude, unit) =>
+    `${amount} ${magnitude} ${/^[aeiouéh]/i.test(unit[1]) ? "d'" : "de "}${unit[1]}`,
+  dayFirst: true,
+  groupSeparators: " \u00a0\u202f",
+  decimalSeparator: ",",
+  point: "virgule",
+  minus: "moins",
+  and: "et",
+  percent: "pour cent",
+  ordinalSuffix: "er|re|ère|e|ème|è",
+  magnitudes: ["million", "millions", "milliard", "milliards"],
+  currencies: {
+    "€": { unit: ["euro", "euros"], subunit: ["centime", "centimes"] },
+    $: { unit: ["dollar", "dollars"], subunit: ["cent", "cents"] },
+    "£": { unit: ["livre", "livres"], subunit: ["penny", "pence"] },
+    "¥": { unit: ["yen", "yens"], subunit: ["sen", "sens"] },
+  },
+  units: {
+    "km/h": ["kilomètre par heure", "kilomètres par heure"],
+    "m/s": ["mètre par seconde", "mètres par seconde"],
+    km: ["kilomètre", "kilomètres"],
+    m: ["mètre", "mètres"],
+    cm: ["centimètre", "centimètres"],
+    mm: ["millimètre", "millimètres"],
+    kg: ["kilogramme", "kilogrammes"],
+    g: ["gramme", "grammes"],
+    mg: ["milligramme", "milligrammes"],
+    l: ["litre", "litres"],
+    L: ["litre", "litres"],
+    ml: ["millilitre", "millilitres"],
+    cl: ["centilitre", "centilitres"],
+    "°C": ["degré Celsius", "degrés Celsius"],
+    kW: ["kilowatt", "kilowatts"],
+    kWh: ["kilowattheure", "kilowattheures"],
+    Ko: ["kilooctet", "kilooctets"],
+    Mo: ["mégaoctet", "mégaoctets"],
+    Go: ["gigaoctet", "gigaoctets"],
+    To: ["téraoctet", "téraoctets"],
+    ms: ["milliseconde", "millisecondes"],
+    min: ["minute", "minutes"],
+    h: ["heure", "heures"],
+  },
+  ambiguousUnits: ["m", "g", "l", "L", "min", "h"],
+  rules: [
+    // Times, as in "14h30"
+    [
+      /(?<![\p{L}\p{N}_.,])(\d{1,2}) ?h ?(\d{2})?(?![\p{L}\p{N}])/gu,
+      (_, hours, minutes) => {
+        const h = Number(hours);
+        const spoken = `${h === 1 ? "une" : cardinal(h)} ${h > 1 ? "heures" : "heure"}`;
+        return minutes ? `${spoken} ${cardinal(Number(minutes))}` : spoken;
+      },
+    ],
+    // Titles, when followed by a name
+    [/\bM\.(?=\s+\p{Lu})/gu, "Monsieur"],
+    [/\bMM\.(?=\s+\p{Lu})/gu, "Messieurs"],
+    [
+      /\bMmes?(?=\s+\p{Lu})/gu,
+      (title) => (title === "Mme" ? "Madame" : "Mesdames"),
+    ],
+    [
+      /\bMlles?(?=\s+\p{Lu})/gu,
+      (title) => (title === "Mlle" ? "Mademoiselle" : "Mesdemoiselles"),
+    ],
+    [/\bDr\.?(?=\s+\p{Lu})/gu, "Docteur"],
+    [/\bPr\.?(?=\s+\p{Lu})/gu, "Professeur"],
+    [/\bSte(?=[\s-]+\p{Lu})/gu, "Sainte"],
+    [/\bSt(?=[\s-]+\p{Lu})/gu, "Saint"],
+    [/\b[nN][°º](?=\s*\d)/g, (n) => (n.startsWith("N") ? "Numéro" : "numéro")],
+    abbreviation(/\bc\.-à-d\./g, "c'est-à-dire"),
+    abbreviation(/\bp\. ?ex\./g, "par exemple"),
+    abbreviation(/\benv\./g, "environ"),
+    abbreviation(/\betc\./g, "et cetera"),
+  ],
+};
+
+/**
+ * Built-in French normalizer
+ */
+export const normalizeFrench = createLocaleNormalizer(locale);
@@ -0,0 +1,289 @@
+import type { TextNormalizer } from "../types";
+
+/** Replacement computed from a match and its capture groups */
+export type Replacer = (match: string, ...groups: string[]) => string;
+
+/** A pattern and what its matches are rewritten to */
+export type NormalizationRule = [
+  pattern: RegExp,
+  replacement: string | Replacer,
+];
+
+/** Singular and plural of a word read after a quantity */
+export type Noun = [one: string, other: string];
+
+export type Currency = {
+  unit: Noun;
+  subunit: Noun;
+};
+
+/**
+ * How a language reads numbers and the symbols around them
+ */
+export type NormalizationLocale = {
+  /** Reading of a non-negative integer */
+  cardinal: (value: number) => string;
+  /** Reading of a positive ordinal, as used by "1st" or "1er" */
+  ordinal: (value: number) => string;
+  /** Reading of the digits after the decimal separator */
+  fraction: (digits: string) => string;
+  /** Reading of a date */
+  date: (day: number, month: number, year: number) => string;
+  /**
+   * Reading of a bare number from 1100 to 2099, for languages that read it
+   * as a year (default: as a cardinal)
+   */
+  year?: (value: number) => string;
+  /** Whether a quantity is followed by the plural */
+  isPlural: (value: number) => boolean;
+  /** Amount with a magnitude word, as in "$1.5 million" */
+  currencyMagnitude: (amount: string, magnitude: string, unit: Noun) => string;
+  /** Whether slash dates put the day first */
+  dayFirst: boolean;
+  /** Characters separating groups of thousands */
+  groupSeparators: string;
+  decimalSeparator: string;
+  /** Word read between the integer and fractional parts */
+  point: string;
+  minus: string;
+  /** Word joining units and subunits of an amount */
+  and: string;
+  percent: string;
+  /** Suffixes that make a number an ordinal */
+  ordinalSuffix: string;
+  /** Magnitude words that may follow an amount */
+  magnitudes: string[];
+  currencies: Record<string, Currency>;
+  /** Units read after a quantity; units containing a slash are also read alone */
+  units: Record<string, Noun>;
+  /**
+   * Units that are also words or letters, only read when attached to the
+   * quantity or followed by punctuation or the end of the text
+   */
+  ambiguousUnits: string[];
+  /** Abbreviations and other language-specific rules, applied first */
+  rules: NormalizationRule[];
+};
+
+type ParsedNumber = {
+  negative: boolean;
+  integer: string;
+  fraction: string | null;
+};
+
+/** Integers with more digits are read digit by digit */
+const MAX_CARDINAL_DIGITS = 15;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function alternatives(words: string[]): string {
+  return [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+}
+
+/**
+ * Whether the period a match ends with also ends the sentence
+ * @param rest - The arguments of a replacer after the capture groups
+ */
+export function endsSentence(match: string, rest: unknown[]): boolean {
+  const input = String(rest.at(-1) ?? "");
+  const offset = Number(rest.at(-2));
+  const after = input.slice(offset + match.length);
+  return match.endsWith(".") && /^(?:\s*$|\s+\p{Lu})/u.test(after);
+}
+
+/**
+ * Replace an abbreviation, keeping its period when it ends a sentence
+ */
+export function abbreviation(
+  pattern: RegExp,
+  words: string
+): NormalizationRule {
+  return [
+    pattern,
+    (match, ...rest) => (endsSentence(match, rest) ? `${words}.` : words),
+  ];
+}
+
+/**
+ * Build a normalizer that rewrites dates, amounts, percentages, quantities,
+ * ordinals and numbers as words
+ */
+export function createLocaleNormalizer(
+  locale: NormalizationLocale
+): TextNormalizer {
+  const group = `[${escapeRegExp(locale.groupSeparators)}]`;
+  const decimal = escapeRegExp(locale.decimalSeparator);
+  // Not part of a word, identifier or dotted version number
+  const number = `(?<![\\p{L}\\p{N}_.,])(-?(?:\\d{1,3}(?:${group}\\d{3})+|\\d+)(?:${decimal}\\d+)?)(?![\\p{N}_]|[.,]\\d)`;
+  const symbols = alternatives(Object.keys(locale.currencies));
+  const units = alternatives(
+    Object.keys(locale.units).filter(
+      (unit) => !locale.ambiguousUnits.includes(unit)
+    )
+  );
+  const ambiguousUnits = alternatives(locale.ambiguousUnits);
+  const slashUnits = alternatives(
+    Object.keys(locale.units).filter((unit) => unit.includes("/"))
+  );
+  const end = "(?![\\p{L}\\p{N}])";
+
+  const parse = (text: string): ParsedNumber => {
+    const negative = text.startsWith("-");
+    const [integer, fraction] = text
+      .slice(negative ? 1 : 0)
+      .split(locale.decimalSeparator);
+    return {
+      negative,
+      integer: integer.replace(new RegExp(group, "g"), ""),
+      fraction: fraction ?? null,
+    };
+  };
+  const numericValue = ({ negative, integer, fraction }: ParsedNumber) =>
+    (negative ? -1 : 1) * Number(`${integer}.${fraction ?? 0}`);
+
+  const integerWords = (digits: string) =>
+    digits.length > MAX_CARDINAL_DIGITS
+      ? [...digits].map((digit) => locale.cardinal(Number(digit))).join(" ")
+      : locale.cardinal(Number(digits));
+  const spell = (parsed: ParsedNumber) => {
+    const sign = parsed.negative ? `${locale.minus} ` : "";
+    const fraction =
+      parsed.fraction === null
+        ? ""
+        : ` ${locale.point} ${locale.fraction(parsed.fraction)}`;
+    return `${sign}${integerWords(parsed.integer)}${fraction}`;
+  };
+  const quantity = (parsed: ParsedNumber, noun: Noun) =>
+    `${spell(parsed)} ${locale.isPlural(Math.abs(numericValue(parsed))) ? noun[1] : noun[0]}`;
+
+  const amount = (text: string, symbol: string, magnitude?: string) => {
+    const { unit, subunit } = locale.currencies[symbol];
+    const parsed = parse(text);
+    if (magnitude) {
+      return locale.currencyMagnitude(spell(parsed), magnitude, unit);
+    }
+    if (parsed.fraction?.length !== 2) {
+      return quantity(parsed, unit);
+    }
+
+    const whole = Number(parsed.integer);
+    const cents = Number(parsed.fraction);
+    const parts: string[] = [];
+    if (whole > 0 || cents === 0) {
+      parts.push(
+        quantity({ ...parsed, negative: false, fraction: null }, unit)
+      );
+    }
+    if (cents > 0) {
+      parts.push(
+        quantity(
+          { negative: false, integer: parsed.fraction, fraction: null },
+          subunit
+        )
+      );
+    }
+    const sign = parsed.negative ? `${locale.minus} ` : "";
+    return sign + parts.join(` ${locale.and} `);
+  };
+
+  const date = (day: string, month: string, year: string, match: string) => {
+    const d = Number(day);
+    const m = Number(month);
+    if (d < 1 || d > 31 || m < 1 || m > 12) {
+      return match;
+    }
+    return locale.date(d, m, Number(year));
+  };
+
+  const rules: NormalizationRule[] = [
+    ...locale.rules,
+    // Dates
+    [
+      /(?<![\p{N}/-])(\d{4})-(\d{2})-(\d{2})(?![\p{N}/-])/gu,
+      (match, year, month, day) => date(day, month, year, match),
+    ],
+    [
+      /(?<![\p{N}/])(\d{1,2})\/(\d{1,2})\/(\d{4})(?![\p{N}/])/gu,
+      (match, first, second, year) =>
+        locale.dayFirst
+          ? date(first, second, year, match)
+          : date(second, first, year, match),
+    ],
+    // Amounts, with the symbol before or after
+    [
+      new RegExp(
+        `(-?(?:${symbols})) ?${number}(?: (${alternatives(locale.magnitudes)})${end})?`,
+        "gu"
+      ),
+      (_, prefix, value, magnitude) =>
+        prefix.startsWith("-")
+          ? amount(`-${value}`, prefix.slice(1), magnitude)
+          : amount(value, prefix, magnitude),
+    ],
+    [
+      new RegExp(
+        `${number}(?: (${alternatives(locale.magnitudes)}))?[ \\u00a0\\u202f]?(${symbols})`,
+        "gu"
+      ),
+      (_, value, magnitude, symbol) => amount(value, symbol, magnitude),
+    ],
+    // Percentages and quantities
+    [
+      new RegExp(`${number}[ \\u00a0\\u202f]?%`, "gu"),
+      (_, value) => `${spell(parse(value))} ${locale.percent}`,
+    ],
+    [
+      new RegExp(`${number}[ \\u00a0\\u202f]?(${units})${end}`, "gu"),
+      (_, value, unit) => quantity(parse(value), locale.units[unit]),
+    ],
+    [
+      new RegExp(
+        `${number}(?:[\\u00a0\\u202f]?(${ambiguousUnits})${end}| (${ambiguousUnits})(?=[^\\p{L}\\p{N}\\s]|$))`,
+        "gu"
+      ),
+      (_, value, attached, spaced) =>
+        quantity(parse(value), locale.units[attached || spaced]),
+    ],
+    [
+      new RegExp(`(?<![\\p{L}\\p{N}])(${slashUnits})${end}`, "gu"),
+      (unit) => locale.units[unit][1],
+    ],
+    // Ordinals, years, then remaining numbers
+    [
+      new RegExp(
+        `(?<![\\p{L}\\p{N}_.,])(\\d+)(?:${locale.ordinalSuffix})${end}`,
+        "gu"
+      ),
+      (_, value) => locale.ordinal(Number(value)),
+    ],
+    [
+      /(?<![\p{L}\p{N}_.,-])(1[1-9]\d{2}|20\d{2})(?![\p{L}\p{N}_]|[.,]\d)/gu,
+      (value) => (locale.year ?? locale.cardinal)(Number(value)),
+    ],
+    [
+      new RegExp(`${number}(?!\\p{L})`, "gu"),
+      (_, value) => spell(parse(value)),
+    ],
+  ];
+
+  return (text) => applyRules(text, rules);
+}
+
+/**
+ * Apply rules in order, each to the output of the previous one
+ */
+export function applyRules(text: string, rules: NormalizationRule[]): string {
+  let result = text;
+  for (const [pattern, replacement] of rules) {
+    result =
+      typeof replacement === "string"
+        ? result.replace(pattern, replacement)
+        : result.replace(pattern, replacement);
+  }
+  return result;
+}
@@ -0,0 +1,94 @@
+import { GradiumError } from "../errors";
+import type { TextNormalizationOptions, TextNormalizer } from "../types";
+import { mapTextOutsideTags } from "./markup";
+import { normalizeEnglish } from "./normalize-en";
+import { normalizeFrench } from "./normalize-fr";
+
+const DEFAULT_LANGUAGE = "en";
+
+const BUILT_IN_NORMALIZERS: Record<string, TextNormalizer> = {
+  en: normalizeEnglish,
+  fr: normalizeFrench,
+};
+
+/** Custom normalizers by language, in registration order */
+const registry = new Map<string, TextNormalizer[]>();
+
+/**
+ * Register a normalizer for a language
+ *
+ * Custom normalizers run in registration order, before the language's
+ * built-in rules, so they can rewrite patterns the built-in rules would
+ * otherwise read. A language without built-in rules uses only its custom
+ * normalizers. Language tags match case-insensitively, and a regional tag
+ * such as `fr-CA` falls back to its base language.
+ *
+ * @returns A function that removes the normalizer again
+ *
+ * @example
+ * ```ts
+ * registerNormalizer('en', (text) => text.replace(/\bGradium\b/g, 'Grey-dium'));
+ * ```
+ */
+export function registerNormalizer(
+  language: string,
+  normalizer: TextNormalizer
+): () => void {
+  const key = language.toLowerCase();
+  const normalizers = registry.get(key) ?? [];
+  normalizers.push(normalizer);
+  registry.set(key, normalizers);
+
+  return () => {
+    const index = normalizers.indexOf(normalizer);
+    if (index >= 0) {
+      normalizers.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Resolve the normalization pipeline of a language
+ * @throws {GradiumError} If the language has neither built-in rules nor
+ * registered normalizers
+ */
+export function createTextNormalizer(
+  options: TextNormalizationOptions = {}
+): TextNormalizer {
+  const language = (options.language ?? DEFAULT_LANGUAGE).toLowerCase();
+  const tags = [...new Set([language, language.split(/[-_]/)[0]])];
+
+  const custom = tags.flatMap((tag) => registry.get(tag) ?? []);
+  const builtIn = tags
+    .map((tag) => BUILT_IN_NORMALIZERS[tag])
+    .find((normalizer) => normalizer !== undefined);
+  const pipeline = builtIn ? [...custom, builtIn] : custom;
+  if (pipeline.length === 0) {
+    throw new GradiumError(`No text normalizer for language: ${language}`);
+  }
+
+  return (text) =>
+    mapTextOutsideTags(text, (part) =>
+      pipeline.reduce((result, normalize) => normalize(result), part)
+    );
+}
+
+/**
+ * Rewrite numbers, dates, amounts, units and abbreviations as words, so they
+ * are read consistently
+ *
+ * @example
+ * ```ts
+ * normalizeText('Dr. Smith paid $1,250.50 on 3/4/2025.');
+ * // "Doctor Smith paid one thousand two hundred fifty dollars and fifty
+ * //  cents on March fourth, twenty twenty-five."
+ * normalizeText('Il roule à 90 km/h.', { language: 'fr' });
+ * // "Il roule à quatre-vingt-dix kilomètres par heure."
+ * ```
+ */
+export function normalizeText(
+  text: string,
+  options: TextNormalizationOptions = {}
+): string {
+  return createTextNormalizer(options)(text);
+}
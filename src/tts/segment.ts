@@ -0,0 +1,101 @@
+import { GradiumError } from "../errors";
+import type { TextSegmentOptions } from "../types";
+
+const DEFAULT_MAX_SEGMENT_CHARS = 1000;
+
+/** Sentence ends: terminal punctuation, closing quotes or brackets, then whitespace */
+const SENTENCE_BREAK = /(?<=[.!?…]["'”’»)\]]*)\s+/;
+/** Blank lines separate paragraphs */
+const PARAGRAPH_BREAK = /\n\s*\n/;
+/** Clause punctuation a long sentence may be split after */
+const CLAUSE_BREAK = /[,;:—]\s/g;
+
+/**
+ * Split text into segments for synthesis in separate sessions
+ *
+ * Paragraphs are split into sentences, which are packed into segments of at
+ * most `max_segment_chars`. Sentences within a paragraph are joined with a
+ * space and paragraphs with a blank line. A sentence longer than the limit is
+ * split after its last clause punctuation that fits, or else at a space.
+ *
+ * @example
+ * ```ts
+ * const segments = splitText(chapter, { max_segment_chars: 500 });
+ * ```
+ */
+export function splitText(
+  text: string,
+  options: TextSegmentOptions = {}
+): string[] {
+  const maxChars = options.max_segment_chars ?? DEFAULT_MAX_SEGMENT_CHARS;
+  if (!(Number.isInteger(maxChars) && maxChars > 0)) {
+    throw new GradiumError(`Invalid max_segment_chars: ${maxChars}`);
+  }
+
+  const segments: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(PARAGRAPH_BREAK)) {
+    const sentences = paragraph
+      .replace(/\s+/g, " ")
+      .trim()
+      .split(SENTENCE_BREAK)
+      .filter((sentence) => sentence.length > 0);
+
+    let separator = current ? "\n\n" : "";
+    for (const sentence of sentences) {
+      for (const piece of splitLongSentence(sentence, maxChars)) {
+        if (
+          current &&
+          current.length + separator.length + piece.length > maxChars
+        ) {
+          segments.push(current);
+          current = "";
+          separator = "";
+        }
+        current += separator + piece;
+        separator = " ";
+      }
+    }
+  }
+
+  if (current) {
+    segments.push(current);
+  }
+  return segments;
+}
+
+/**
+ * Split a sentence into pieces of at most `maxChars`
+ */
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = sentence;
+
+  while (rest.length > maxChars) {
+    const cut = findCut(rest, maxChars);
+    pieces.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) {
+    pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Position to cut a long sentence at: after the last clause punctuation that
+ * fits, else at the last space, else at the limit
+ */
+function findCut(text: string, maxChars: number): number {
+  const head = text.slice(0, maxChars + 1);
+  let clause = -1;
+  for (const match of head.matchAll(CLAUSE_BREAK)) {
+    clause = match.index + 1;
+  }
+  if (clause > 0) {
+    return clause;
+  }
+  const space = head.lastIndexOf(" ");
+  return space > 0 ? space : maxChars;
+}
@@ -1,9 +1,93 @@
+import type { Lexicon } from "./tts/lexicon";
+
 // ============================================================================
 // Client Configuration
 // ============================================================================
 
 export type Region = "eu" | "us";
 
+/**
+ * Fetch implementation used for REST calls.
+ * Any WHATWG-compatible fetch works (global fetch, undici, a test double).
+ */
+export type FetchLike = (
+  input: string | URL | Request,
+  init?: RequestInit
+) => Promise<Response>;
+
+/**
+ * Event handler type that accepts both DOM-style and `ws`-style events.
+ * Declared through a method signature so parameters are checked bivariantly.
+ */
+type WebSocketHandler<E> = {
+  handler(event: E): void;
+}["handler"];
+
+/**
+ * Minimal WebSocket surface used by the SDK.
+ * Satisfied by Bun's and Node's global WebSocket and by the `ws` package.
+ */
+export type WebSocketLike = {
+  readonly readyState: number;
+  onopen: WebSocketHandler<unknown> | null;
+  onmessage: WebSocketHandler<{ data: unknown }> | null;
+  onerror: WebSocketHandler<unknown> | null;
+  onclose: WebSocketHandler<{
+    code: number;
+    reason: string;
+    wasClean: boolean;
+  }> | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+};
+
+/**
+ * WebSocket constructor used for TTS/STT streaming.
+ * Receives the connection URL and the authentication headers.
+ */
+export type WebSocketConstructor = new (
+  url: string,
+  options?: { headers: Record<string, string> }
+) => WebSocketLike;
+
+export type RetryOptions = {
+  /**
+   * Maximum number of retries after the initial attempt.
+   * @default 2
+   */
+  maxRetries?: number;
+
+  /**
+   * Base delay in milliseconds, doubled after each attempt.
+   * @default 500
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound in milliseconds for the backoff delay.
+   * @default 8000
+   */
+  maxDelay?: number;
+
+  /**
+   * Random jitter as a fraction of the delay (0 to 1).
+   * @default 0.25
+   */
+  jitter?: number;
+
+  /**
+   * HTTP status codes that are retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatuses?: number[];
+
+  /**
+   * Custom predicate deciding whether an error is retried.
+   * Replaces the default status/connection check when provided.
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+};
+
 export type GradiumClientOptions = {
   /**
    * API key for authentication.
@@ -28,6 +112,73 @@ export type GradiumClientOptions = {
    * @default 30000
    */
   timeout?: number;
+
+  /**
+   * Custom fetch implementation for REST calls.
+   * Defaults to the global `fetch`.
+   */
+  fetch?: FetchLike;
+
+  /**
+   * Custom WebSocket constructor for TTS/STT streaming
+   * (e.g. the `ws` package on Node). Defaults to the global `WebSocket`.
+   */
+  WebSocket?: WebSocketConstructor;
+
+  /**
+   * Retry policy for REST calls and WebSocket connections.
+   * Pass `false` to disable retries.
+   */
+  retry?: RetryOptions | false;
+};
+
+/**
+ * Per-call options accepted by every REST and streaming method
+ */
+export type RequestOptions = {
+  /** Abort signal to cancel the request */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds, overriding the client timeout */
+  timeout?: number;
+  /** Extra headers sent with the request */
+  headers?: Record<string, string>;
+  /**
+   * Whether a REST call may be sent again after a timeout, network error or
+   * 5xx response (default: true for GET, HEAD, PUT, DELETE and OPTIONS).
+   * Other calls are only retried when rate limited.
+   */
+  idempotent?: boolean;
+};
+
+/**
+ * Options for waiting on a streaming session
+ */
+export type StreamOptions = Omit<RequestOptions, "headers" | "idempotent">;
+
+// ============================================================================
+// Audio Types
+// ============================================================================
+
+/**
+ * Sample encoding of audio data
+ * - `pcm_s16le` - Signed 16-bit little-endian PCM
+ * - `mulaw` - G.711 µ-law, 8 bits per sample
+ * - `alaw` - G.711 A-law, 8 bits per sample
+ * - `opus` - Opus compressed audio
+ */
+export type AudioEncoding = "pcm_s16le" | "mulaw" | "alaw" | "opus";
+
+export type AudioFormatInfo = {
+  /** Sample rate in Hz */
+  sample_rate: number;
+  /** Sample encoding */
+  encoding: AudioEncoding;
+  /** Bits per sample (null for compressed formats) */
+  bit_depth: number | null;
+  /** Number of channels */
+  channels: number;
+  /** Container wrapping the samples, if any */
+  container: "wav" | "ogg" | null;
 };
 
 // ============================================================================
@@ -124,9 +275,9 @@ export type CreditsSummary = {
 
 /**
  * Output audio format for TTS
- * - `wav` - WAV format with headers (24kHz, 16-bit mono)
- * - `pcm` - Raw PCM audio (24kHz, 16-bit mono, no headers)
- * - `opus` - Opus compressed audio (low bandwidth, high quality)
+ * - `wav` - WAV format with headers (48kHz, 16-bit mono)
+ * - `pcm` - Raw PCM audio (48kHz, 16-bit mono, no headers)
+ * - `opus` - Opus compressed audio in Ogg (48kHz, low bandwidth, high quality)
  * - `ulaw_8000` - µ-law encoding at 8kHz (telephony standard, NA/Japan)
  * - `alaw_8000` - A-law encoding at 8kHz (telephony standard, Europe)
  * - `pcm_16000` - Raw PCM at 16kHz (16-bit mono)
@@ -153,6 +304,57 @@ export type TTSSetupParams = {
     /** Speed control: negative = faster (-4.0 to -0.1), positive = slower (0.1 to 4.0) */
     padding_bonus?: number;
   };
+  /**
+   * Language of the text, such as 'en' or 'fr-FR'. Selects the normalization
+   * rules and lexicon entries; it is not sent to the server.
+   */
+  language?: string;
+  /**
+   * Rewrite numbers, dates, amounts, units and abbreviations as words before
+   * sending text (default: false). `true` uses the rules of `language`.
+   */
+  normalize?: boolean | TextNormalizationOptions;
+  /** Respellings applied to the text (default: the TTS resource's lexicon) */
+  lexicon?: Lexicon;
+};
+
+/**
+ * Rewrites text before synthesis
+ */
+export type TextNormalizer = (text: string) => string;
+
+export type TextNormalizationOptions = {
+  /**
+   * Language whose rules apply: 'en', 'fr', or any language with registered
+   * normalizers (default: the setup params' `language`, else 'en')
+   */
+  language?: string;
+};
+
+export type LexiconEntryOptions = {
+  /** Only match the exact case of the word (default: false) */
+  case_sensitive?: boolean;
+  /** Only match whole words, not parts of longer words (default: true) */
+  whole_word?: boolean;
+};
+
+export type LexiconEntry = LexiconEntryOptions & {
+  /** Word or phrase to respell */
+  word: string;
+  /** Spelling that gives the wanted pronunciation */
+  respelling: string;
+  /** Language the entry is limited to, such as 'fr' (default: all languages) */
+  language?: string;
+};
+
+/**
+ * Serialized lexicon: respellings by word, or full entries
+ */
+export type LexiconData = LexiconEntryOptions & {
+  /** Entries for all languages */
+  entries?: Record<string, string> | LexiconEntry[];
+  /** Entries for a single language each, by language tag */
+  languages?: Record<string, Record<string, string> | LexiconEntry[]>;
 };
 
 export type TTSTextParams = {
@@ -209,33 +411,229 @@ export type TTSServerMessage =
   | TTSErrorMessage
   | TTSServerEndOfStreamMessage;
 
+export type TTSStreamOptions = StreamOptions & {
+  /** Output format requested in the setup message (default: 'pcm') */
+  output_format?: TTSOutputFormat;
+  /** Applied to sent text; words are held back until complete */
+  normalizer?: TextNormalizer;
+  /** Respellings applied to sent text before normalization */
+  lexicon?: Lexicon;
+  /** Language used to select lexicon entries */
+  language?: string;
+};
+
+export type TTSCollectOptions = StreamOptions & {
+  /**
+   * Return the audio in a container.
+   * `'wav'` wraps raw PCM/µ-law/A-law output in a WAV header and fixes the
+   * size fields of streamed WAV output. Not available for opus.
+   */
+  container?: "wav";
+};
+
 export type TTSResult = {
   /** Raw audio data as Uint8Array */
   raw_data: Uint8Array;
   /** Sample rate of the audio */
   sample_rate: number;
+  /** Sample encoding of the audio */
+  encoding: AudioEncoding;
+  /** Bits per sample (null for compressed formats) */
+  bit_depth: number | null;
+  /** Number of audio channels */
+  channels: number;
+  /** Duration in seconds (null when it cannot be derived without decoding) */
+  duration_s: number | null;
   /** Request ID from the server */
   request_id: string;
 };
 
+export type TextChunkerOptions = {
+  /** Shortest chunk emitted at a sentence end or line break, in characters (default: 20) */
+  min_chunk_chars?: number;
+  /** Longest chunk, in characters; longer text is cut at a clause or word boundary (default: 250) */
+  max_chunk_chars?: number;
+  /**
+   * Longest time buffered words wait for a boundary before being sent anyway,
+   * in milliseconds (default: 1000). Only used when chunking a stream.
+   */
+  max_wait_ms?: number;
+  /** Remove Markdown formatting and leave out fenced code blocks (default: true) */
+  strip_markdown?: boolean;
+};
+
+export type TTSStreamTextOptions = RequestOptions & {
+  /**
+   * Buffer the streamed text into phrases before sending it, for smoother
+   * prosody when streaming LLM tokens (default: false)
+   */
+  chunking?: boolean | TextChunkerOptions;
+};
+
+export type TextSegmentOptions = {
+  /** Longest segment synthesized in one session, in characters (default: 1000) */
+  max_segment_chars?: number;
+};
+
+export type SynthesisProgress = {
+  /** Number of segments synthesized so far */
+  completed_segments: number;
+  /** Total number of segments */
+  total_segments: number;
+  /** Characters of text synthesized so far */
+  synthesized_chars: number;
+  /** Total characters across all segments */
+  total_chars: number;
+};
+
+export type TTSLongFormOptions = RequestOptions &
+  TextSegmentOptions & {
+    /** Maximum number of sessions running at once (default: 3) */
+    concurrency?: number;
+    /** Retries of a segment whose session fails (default: 2) */
+    max_segment_retries?: number;
+    /** Called each time a segment has been synthesized */
+    on_progress?: (progress: SynthesisProgress) => void;
+  };
+
+export type TTSSegment = {
+  /** Position of the segment in the text */
+  index: number;
+  /** Text of the segment */
+  text: string;
+  /** Audio synthesized for the segment */
+  result: TTSResult;
+};
+
+/** Part of a markup script: text read by one voice, or a pause */
+export type MarkupSpan =
+  | {
+      type: "text";
+      /** Text to synthesize, without markup */
+      text: string;
+      /** Voice reading the text */
+      voice_id: string;
+    }
+  | {
+      type: "break";
+      /** Length of the pause in seconds */
+      duration_s: number;
+    };
+
+export type TTSMarkupOptions = RequestOptions &
+  Pick<TTSCollectOptions, "container"> & {
+    /** Maximum number of sessions running at once (default: 3) */
+    concurrency?: number;
+  };
+
 // ============================================================================
 // STT (Speech-to-Text) Types
 // ============================================================================
 
-export type STTInputFormat = "pcm" | "wav" | "opus";
+/** Input formats accepted by the STT server */
+export type STTServerInputFormat = "pcm" | "wav" | "opus";
+
+/**
+ * Input formats accepted by the SDK
+ * G.711 telephony audio (`ulaw_8000`, `alaw_8000`) is decoded client-side
+ * and sent to the server as PCM.
+ */
+export type STTInputFormat = STTServerInputFormat | "ulaw_8000" | "alaw_8000";
 
 export type STTSetupParams = {
   /** Input audio format */
   input_format: STTInputFormat;
   /** Model name (default: 'default') */
   model_name?: string;
+  /**
+   * Sample rate of the PCM or G.711 audio you send, in Hz.
+   * Audio is resampled client-side to the rate requested by the server.
+   * Defaults to the server rate (no resampling), or 8000 for G.711 input.
+   */
+  sample_rate?: number;
+  /**
+   * Number of interleaved channels in the PCM or G.711 audio you send.
+   * Audio is downmixed client-side to mono. (default: 1)
+   */
+  channels?: number;
+  /**
+   * Split PCM and G.711 audio into frames of the server's `frame_size`,
+   * padding the last one with silence at end of stream.
+   * (default: true for PCM and G.711 input)
+   */
+  reframe?: boolean;
+  /** Thresholds for the speechStart, speechEnd and turnEnd events */
+  turn_detection?: TurnDetectionOptions;
+  /**
+   * Resume the session on a new connection when the current one drops,
+   * replaying audio the server had not yet processed. Only supported with
+   * PCM and G.711 input. (default: false)
+   */
+  reconnect?: boolean | STTReconnectOptions;
+  /**
+   * Shorten long silences client-side so they are not billed. Transcript
+   * timestamps are mapped back to positions in the original audio.
+   * Only supported with PCM and G.711 input. (default: false)
+   */
+  silence_gate?: boolean | SilenceGateOptions;
+};
+
+/**
+ * Setup parameters for transcribe() and streamAudio()
+ */
+export type STTTranscribeParams = Omit<STTSetupParams, "input_format"> & {
+  /**
+   * Input audio format. When omitted, WAV files are detected from their
+   * header, which sets the format, sample rate and channels, and Ogg
+   * streams are sent as Opus; other audio must declare its format.
+   */
+  input_format?: STTInputFormat;
+};
+
+export type SilenceGateOptions = {
+  /** Level below which audio counts as silence, in dBFS (default: -45) */
+  threshold_dbfs?: number;
+  /** Seconds kept from each silent span; the rest is skipped (default: 1) */
+  max_silence_s?: number;
+  /**
+   * Seconds of skipped audio sent again just before speech resumes, so soft
+   * onsets are not clipped (default: 0.2)
+   */
+  pre_roll_s?: number;
+};
+
+export type STTReconnectOptions = {
+  /** Reconnections tried in a row before the stream fails (default: 3) */
+  max_attempts?: number;
+  /** Seconds of sent audio kept for replay (default: 30) */
+  buffer_duration_s?: number;
+};
+
+export type STTStreamOptions = StreamOptions & {
+  /** Format of the audio passed to sendAudio(); G.711 is decoded to PCM (default: 'pcm') */
+  input_format?: STTInputFormat;
+  /** Sample rate of the PCM audio passed to sendAudio() (default: server rate) */
+  sample_rate?: number;
+  /** Number of interleaved channels passed to sendAudio() (default: 1) */
+  channels?: number;
+  /** Send audio in frames of the server's `frame_size`, padding the last one (default: false) */
+  reframe?: boolean;
+  /** Thresholds for the speechStart, speechEnd and turnEnd events */
+  turn_detection?: TurnDetectionOptions;
+  /** Shorten long silences before sending, remapping timestamps back */
+  silence_gate?: SilenceGateOptions;
+  /** Resume the session on a new connection when the current one drops */
+  reconnect?: STTReconnectOptions & {
+    /** Open a new connection and send the setup message */
+    connect: () => Promise<WebSocketLike>;
+  };
 };
 
 // STT WebSocket Message Types
 export type STTSetupMessage = {
   type: "setup";
   model_name: string;
-  input_format: STTInputFormat;
+  input_format: STTServerInputFormat;
 };
 
 export type STTAudioMessage = {
@@ -306,6 +704,273 @@ export type STTServerMessage =
   | STTErrorMessage
   | STTServerEndOfStreamMessage;
 
+// STT Transcript Types
+export type TranscriptSegment = {
+  /** Transcribed word or text fragment */
+  text: string;
+  /** Start time in seconds from the beginning of the audio */
+  start_s: number;
+  /** Stop time in seconds (from end_text, or estimated when it is missing) */
+  stop_s: number;
+  /** Text stream the segment belongs to (null for the default stream) */
+  stream_id: number | null;
+};
+
+export type TranscriptUtterance = {
+  /** Segment texts joined with spaces */
+  text: string;
+  /** Start time of the first segment in seconds */
+  start_s: number;
+  /** Stop time of the last segment in seconds */
+  stop_s: number;
+  /** Segments spoken in this utterance */
+  segments: TranscriptSegment[];
+};
+
+export type Transcript = {
+  /** Full transcription, segment texts joined with spaces */
+  text: string;
+  /** Timed segments in the order they were received */
+  segments: TranscriptSegment[];
+  /** Segments grouped into utterances at pauses detected by the VAD */
+  utterances: TranscriptUtterance[];
+  /** Duration of the processed audio in seconds */
+  duration_s: number;
+};
+
+export type FinalizedSegment = {
+  /** Segment whose stop time is final */
+  segment: TranscriptSegment;
+  /** Zero-based index of the utterance the segment belongs to */
+  utterance: number;
+};
+
+export type TranscriptOptions = {
+  /**
+   * Inactivity probability at which the speaker is considered to have paused,
+   * ending the current utterance (default: 0.5)
+   */
+  vad_threshold?: number;
+  /** Index of the VAD prediction horizon to use (default: 2) */
+  vad_horizon_index?: number;
+};
+
+export type STTStreamAudioOptions = RequestOptions & {
+  /**
+   * Send audio at this multiple of real time, e.g. 1 for live speed or 2 for
+   * twice as fast, to reproduce microphone timing (default: as fast as possible).
+   * Only supported with PCM and G.711 input.
+   */
+  pace?: number;
+};
+
+export type TranscriptionProgress = {
+  /** Number of chunks transcribed so far */
+  completed_chunks: number;
+  /** Total number of chunks */
+  total_chunks: number;
+  /** Seconds of audio transcribed so far */
+  transcribed_duration_s: number;
+  /** Total duration of the audio in seconds */
+  total_duration_s: number;
+};
+
+export type SilenceSplitOptions = {
+  /** Longest chunk sent in one session, in seconds (default: 300) */
+  max_chunk_duration_s?: number;
+  /**
+   * How far before the maximum chunk length to look for a silence to split
+   * on, in seconds (default: 30)
+   */
+  search_window_s?: number;
+  /** Length of the quiet window a split is centered in, in seconds (default: 0.5) */
+  silence_window_s?: number;
+};
+
+export type STTLongTranscriptionOptions = RequestOptions &
+  TranscriptOptions &
+  SilenceSplitOptions & {
+    /** Maximum number of sessions running at once (default: 3) */
+    concurrency?: number;
+    /** Retries of a chunk whose session fails (default: 2) */
+    max_chunk_retries?: number;
+    /** Called each time a chunk has been transcribed */
+    on_progress?: (progress: TranscriptionProgress) => void;
+  };
+
+/**
+ * Audio to transcribe: raw bytes, a Blob or File, or a file path
+ * (paths require Node, Bun or Deno)
+ */
+export type AudioInput = Uint8Array | Blob | string;
+
+/**
+ * Audio streamed to a session: an audio input, a Web ReadableStream, or any
+ * async iterable of bytes such as a Node Readable
+ */
+export type AudioSource =
+  | AudioInput
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+export type BatchProgress = {
+  /** Number of items finished, successfully or not */
+  completed_items: number;
+  /** Number of items that failed */
+  failed_items: number;
+  /** Total number of items, or null when reading from an async iterable */
+  total_items: number | null;
+  /** Result of the item that just finished */
+  result: STTBatchResult;
+};
+
+export type STTBatchResult =
+  | {
+      /** Position of the input in the batch */
+      index: number;
+      input: AudioInput;
+      ok: true;
+      transcript: Transcript;
+    }
+  | {
+      /** Position of the input in the batch */
+      index: number;
+      input: AudioInput;
+      ok: false;
+      /** Error of the last attempt */
+      error: Error;
+    };
+
+export type STTBatchOptions = RequestOptions &
+  TranscriptOptions & {
+    /** Maximum number of sessions running at once (default: 3) */
+    concurrency?: number;
+    /** Retries of an item whose session fails (default: 2) */
+    max_retries?: number;
+    /** Called each time an item has finished */
+    on_progress?: (progress: BatchProgress) => void;
+  };
+
+export type STTTextStreamOptions = {
+  /**
+   * Name of the text stream to read, from the ready message's
+   * `text_stream_names` (default: all streams)
+   */
+  stream?: string;
+};
+
+export type STTCollectOptions = StreamOptions & STTTextStreamOptions;
+
+export type STTCollectTranscriptOptions = StreamOptions &
+  TranscriptOptions &
+  STTTextStreamOptions;
+
+// Turn Detection Types
+export type TurnDetectionOptions = {
+  /** Index of the VAD prediction horizon to use (default: 2) */
+  horizon_index?: number;
+  /**
+   * Inactivity probability separating speech from silence: below it the user
+   * is speaking, at or above it speech has ended (default: 0.5)
+   */
+  speech_threshold?: number;
+  /** Inactivity probability at or above which the turn may end (default: 0.8) */
+  turn_end_threshold?: number;
+  /**
+   * Seconds the turn-end probability must hold before turnEnd is emitted,
+   * guarding against short pauses (default: 0.3)
+   */
+  hangover_s?: number;
+};
+
+export type SpeechEvent = {
+  /** Audio time of the event in seconds */
+  time_s: number;
+};
+
+export type TurnEndEvent = {
+  /** Text transcribed during the turn, joined with spaces */
+  text: string;
+  /** Audio time the user started speaking, in seconds */
+  start_s: number;
+  /** Audio time the user stopped speaking, in seconds */
+  end_s: number;
+};
+
+export type TurnEvent =
+  | ({ type: "speechStart" } & SpeechEvent)
+  | ({ type: "speechEnd" } & SpeechEvent)
+  | ({ type: "turnEnd" } & TurnEndEvent);
+
+export type ReconnectingEvent = {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Error that closed the previous connection */
+  error: Error;
+};
+
+export type ReconnectedEvent = {
+  /** Attempt number that succeeded */
+  attempt: number;
+  /** Audio time the new session starts at, in seconds */
+  resumed_at_s: number;
+  /** Duration of buffered audio sent again, in seconds */
+  replayed_duration_s: number;
+};
+
+/** Events emitted by STTStream, keyed by name */
+export type ListenerErrorEvent = {
+  /** Event whose listener threw */
+  event: keyof STTStreamEvents;
+  /** Error thrown by the listener */
+  error: unknown;
+};
+
+export type STTStreamEvents = {
+  speechStart: SpeechEvent;
+  speechEnd: SpeechEvent;
+  turnEnd: TurnEndEvent;
+  reconnecting: ReconnectingEvent;
+  reconnected: ReconnectedEvent;
+  listenerError: ListenerErrorEvent;
+};
+
+// Subtitle Types
+export type SubtitleOptions = {
+  /** Maximum characters per cue, excluding line breaks (default: 84) */
+  max_chars_per_cue?: number;
+  /** Maximum cue duration in seconds (default: 7) */
+  max_cue_duration_s?: number;
+  /** Maximum characters per line; longer cues are wrapped (default: 42) */
+  max_line_length?: number;
+  /** Maximum lines per cue (default: 2) */
+  max_lines?: number;
+};
+
+export type SubtitleCue = {
+  /** One-based cue number */
+  index: number;
+  /** Start time in seconds */
+  start_s: number;
+  /** Stop time in seconds */
+  stop_s: number;
+  /** Cue text, wrapped with newlines */
+  text: string;
+  /** Segments shown by the cue */
+  segments: TranscriptSegment[];
+};
+
+export type WordTimings = {
+  /** Duration of the processed audio in seconds */
+  duration_s: number;
+  /** Timed words with the utterance they belong to */
+  words: (TranscriptSegment & { utterance: number })[];
+};
+
+export type STTCueOptions = SubtitleOptions &
+  TranscriptOptions &
+  STTTextStreamOptions;
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -0,0 +1,110 @@
+import { AbortError, TimeoutError } from "../errors";
+
+/** Default request timeout in milliseconds */
+export const DEFAULT_TIMEOUT = 30_000;
+
+/**
+ * Abort signal driven by a timeout and an optional parent signal.
+ *
+ * The signal aborts with a `TimeoutError` once `timeout` milliseconds pass
+ * without a `refresh()`, or with an `AbortError` when the parent aborts.
+ * A non-finite or non-positive timeout disables the timer.
+ */
+export class Deadline {
+  readonly signal: AbortSignal;
+  private readonly controller = new AbortController();
+  private readonly timeout: number;
+  private readonly parent?: AbortSignal;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly onParentAbort = () => {
+    this.abort(new AbortError());
+  };
+
+  constructor(timeout: number, parent?: AbortSignal) {
+    this.signal = this.controller.signal;
+    this.timeout = timeout;
+    this.parent = parent;
+
+    if (parent?.aborted) {
+      this.abort(new AbortError());
+      return;
+    }
+
+    parent?.addEventListener("abort", this.onParentAbort, { once: true });
+    this.refresh();
+  }
+
+  /**
+   * Restart the timeout, e.g. after activity on a long-running operation
+   */
+  refresh(): void {
+    clearTimeout(this.timer);
+    if (
+      this.signal.aborted ||
+      !Number.isFinite(this.timeout) ||
+      this.timeout <= 0
+    ) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.abort(new TimeoutError(`Request timed out after ${this.timeout}ms`));
+    }, this.timeout);
+  }
+
+  /**
+   * Release the timer and parent listener
+   */
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.parent?.removeEventListener("abort", this.onParentAbort);
+  }
+
+  /**
+   * Settle with the promise, or reject with the abort reason if the deadline passes first
+   */
+  race<T>(promise: Promise<T>): Promise<T> {
+    return raceSignal(promise, this.signal);
+  }
+
+  private abort(reason: Error): void {
+    clearTimeout(this.timer);
+    this.controller.abort(reason);
+  }
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason once it aborts
+ */
+export function raceSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal
+): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Throw an `AbortError` if the signal has already aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
@@ -0,0 +1,69 @@
+import type { AudioInput, AudioSource } from "../types";
+
+/**
+ * Read an audio input into memory
+ * Strings are file paths, read with node:fs (Node, Bun and Deno only).
+ */
+export async function readAudioInput(input: AudioInput): Promise<Uint8Array> {
+  if (input instanceof Uint8Array) {
+    return input;
+  }
+  if (typeof input === "string") {
+    const { readFile } = await import("node:fs/promises");
+    return new Uint8Array(await readFile(input));
+  }
+  return new Uint8Array(await input.arrayBuffer());
+}
+
+/**
+ * Read an audio source chunk by chunk, without buffering it in memory
+ * Strings are file paths, streamed with node:fs (Node, Bun and Deno only).
+ * Returning early releases the underlying file or stream.
+ */
+export async function* readAudioChunks(
+  source: AudioSource
+): AsyncGenerator<Uint8Array, void, unknown> {
+  if (source instanceof Uint8Array) {
+    yield source;
+  } else if (typeof source === "string") {
+    const { createReadStream } = await import("node:fs");
+    yield* createReadStream(source) as AsyncIterable<Uint8Array>;
+  } else if (source instanceof Blob) {
+    yield* readStream(source.stream());
+  } else if (isReadableStream(source)) {
+    yield* readStream(source);
+  } else {
+    yield* source;
+  }
+}
+
+function isReadableStream(
+  source: AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>
+): source is ReadableStream<Uint8Array> {
+  return typeof (source as ReadableStream).getReader === "function";
+}
+
+/**
+ * Iterate a Web ReadableStream, cancelling it if iteration stops early
+ */
+async function* readStream(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array, void, unknown> {
+  const reader = stream.getReader();
+  let done = false;
+  try {
+    while (true) {
+      const result = await reader.read();
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) {
+      await reader.cancel().catch(() => null);
+    }
+    reader.releaseLock();
+  }
+}
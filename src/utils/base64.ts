@@ -0,0 +1,74 @@
+/** Uint8Array with the TC39 base64 methods (ES2026) */
+type NativeBase64Array = Uint8Array & { toBase64(): string };
+
+/** Uint8Array constructor with the TC39 base64 methods (ES2026) */
+type NativeBase64Constructor = typeof Uint8Array & {
+  fromBase64(text: string): Uint8Array;
+};
+
+/** Bytes per String.fromCharCode call; a multiple of 3 so chunks encode without padding */
+const ENCODE_CHUNK_SIZE = 3 * 8192;
+
+const NativeUint8Array = Uint8Array as NativeBase64Constructor;
+const hasNativeBase64 =
+  typeof NativeUint8Array.fromBase64 === "function" &&
+  typeof (Uint8Array.prototype as NativeBase64Array).toBase64 === "function";
+const NodeBuffer = (globalThis as { Buffer?: typeof Buffer }).Buffer;
+
+/**
+ * Encode bytes as base64 with btoa, in bounded chunks
+ * Avoids spreading large arrays into call arguments, which overflows the stack.
+ */
+export function encodeBase64Chunked(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK_SIZE) {
+    const chunk = bytes.subarray(i, i + ENCODE_CHUNK_SIZE);
+    parts.push(btoa(String.fromCharCode.apply(null, chunk as never)));
+  }
+  return parts.join("");
+}
+
+/**
+ * Decode base64 with atob into a preallocated buffer
+ */
+export function decodeBase64Chunked(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64
+ * Uses Uint8Array.prototype.toBase64 or Buffer when available.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  if (hasNativeBase64) {
+    return (bytes as NativeBase64Array).toBase64();
+  }
+  if (NodeBuffer) {
+    return NodeBuffer.from(
+      bytes.buffer,
+      bytes.byteOffset,
+      bytes.byteLength
+    ).toString("base64");
+  }
+  return encodeBase64Chunked(bytes);
+}
+
+/**
+ * Decode base64 into bytes
+ * Uses Uint8Array.fromBase64 or Buffer when available.
+ */
+export function decodeBase64(text: string): Uint8Array {
+  if (hasNativeBase64) {
+    return NativeUint8Array.fromBase64(text);
+  }
+  if (NodeBuffer) {
+    const buffer = NodeBuffer.from(text, "base64");
+    return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+  return decodeBase64Chunked(text);
+}
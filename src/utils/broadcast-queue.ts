@@ -0,0 +1,148 @@
+/**
+ * Position of one consumer in a broadcast queue
+ */
+type Cursor = {
+  /** Absolute index of the next item to read */
+  position: number;
+};
+
+/** Number of released slots tolerated before the backing array is compacted */
+const COMPACT_THRESHOLD = 256;
+
+/**
+ * Async queue delivering every item to each of its consumers.
+ *
+ * Consumers created with `subscribe()` read at their own pace and are woken as
+ * soon as an item is pushed. An item is released once every active consumer has
+ * read it; items pushed while nobody is subscribed are retained for the next
+ * consumer. A failed queue throws its error from every consumer once the
+ * buffered items are drained.
+ */
+export class BroadcastQueue<T> {
+  private items: (T | undefined)[] = [];
+  private base = 0;
+  private released = 0;
+  private readonly cursors = new Set<Cursor>();
+  private waiters: (() => void)[] = [];
+  private closed = false;
+  private error?: Error;
+
+  /**
+   * Number of items currently buffered
+   */
+  get size(): number {
+    return this.items.length - this.released;
+  }
+
+  /**
+   * Whether the queue has been closed or failed
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Append an item and wake waiting consumers
+   */
+  push(item: T): void {
+    if (this.closed) {
+      return;
+    }
+    this.items.push(item);
+    this.wake();
+  }
+
+  /**
+   * End the queue; consumers finish after draining buffered items
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.wake();
+  }
+
+  /**
+   * End the queue with an error thrown to consumers after buffered items
+   */
+  fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.error = error;
+    this.closed = true;
+    this.wake();
+  }
+
+  /**
+   * Create an independent consumer.
+   * It subscribes when iteration begins, starting at the oldest retained item.
+   */
+  async *subscribe(): AsyncGenerator<T, void, unknown> {
+    const cursor: Cursor = { position: this.base + this.released };
+    this.cursors.add(cursor);
+
+    try {
+      while (true) {
+        const index = cursor.position - this.base;
+        if (index < this.items.length) {
+          const item = this.items[index] as T;
+          cursor.position++;
+          this.release();
+          yield item;
+          continue;
+        }
+
+        if (this.error) {
+          throw this.error;
+        }
+        if (this.closed) {
+          return;
+        }
+
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+      }
+    } finally {
+      this.cursors.delete(cursor);
+      this.release();
+    }
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  /**
+   * Drop items every active consumer has read
+   */
+  private release(): void {
+    if (this.cursors.size === 0) {
+      return;
+    }
+
+    let min = Number.POSITIVE_INFINITY;
+    for (const cursor of this.cursors) {
+      min = Math.min(min, cursor.position);
+    }
+
+    const end = min - this.base;
+    for (let i = this.released; i < end; i++) {
+      this.items[i] = undefined;
+    }
+    this.released = Math.max(this.released, end);
+
+    if (
+      this.released > COMPACT_THRESHOLD &&
+      this.released * 2 > this.items.length
+    ) {
+      this.items = this.items.slice(this.released);
+      this.base += this.released;
+      this.released = 0;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { GradiumError } from "../errors";
+
+/**
+ * Map items through an async function with at most `limit` calls in flight
+ *
+ * Items may come from an array or a (possibly async) iterable, which is read
+ * lazily as calls complete. Results keep the order of the input. The first
+ * failure rejects the returned promise and stops new calls from starting;
+ * calls already running are left to settle.
+ */
+export async function mapConcurrent<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new GradiumError(`Invalid concurrency: ${limit}`);
+  }
+
+  const iterator =
+    Symbol.asyncIterator in items
+      ? items[Symbol.asyncIterator]()
+      : items[Symbol.iterator]();
+  const results: R[] = [];
+  let next = 0;
+  let done = false;
+  let failed = false;
+
+  // Pulls are chained so items are read one at a time, in order
+  let pulling: Promise<unknown> = Promise.resolve();
+  const pull = (): Promise<IteratorResult<T>> => {
+    const result = pulling.then(() => iterator.next());
+    pulling = result.catch(() => null);
+    return result;
+  };
+
+  const worker = async () => {
+    while (!(failed || done)) {
+      let item: IteratorResult<T>;
+      try {
+        item = await pull();
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+      if (item.done || failed) {
+        done = true;
+        return;
+      }
+
+      const index = next++;
+      try {
+        results[index] = await fn(item.value, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: limit }, worker));
+  return results;
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight,
+ * yielding results in input order as soon as each is ready
+ *
+ * A result that is ready before the ones ahead of it is held until they are
+ * yielded; no new call starts while `limit` results are pending, so a slow
+ * item bounds how far ahead the others run. The first failure, in input
+ * order, is thrown; calls already running are left to settle.
+ */
+export async function* mapOrdered<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): AsyncGenerator<R, void, unknown> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new GradiumError(`Invalid concurrency: ${limit}`);
+  }
+
+  const iterator =
+    Symbol.asyncIterator in items
+      ? items[Symbol.asyncIterator]()
+      : items[Symbol.iterator]();
+  const pending: Promise<R>[] = [];
+  let index = 0;
+  let exhausted = false;
+
+  while (true) {
+    while (!exhausted && pending.length < limit) {
+      const item = await iterator.next();
+      if (item.done) {
+        exhausted = true;
+        break;
+      }
+      const result = fn(item.value, index++);
+      // Failures surface when the result reaches the head of the queue
+      result.catch(() => null);
+      pending.push(result);
+    }
+
+    const next = pending.shift();
+    if (!next) {
+      return;
+    }
+    yield await next;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Listener receiving the payload of one event
+ */
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter
+ *
+ * `Events` maps each event name to its payload type. Listeners are called
+ * synchronously in registration order; a listener added or removed during an
+ * emit takes effect from the next emit. Errors thrown by listeners are passed
+ * to `onError` when given, and the remaining listeners still run; otherwise
+ * they propagate from emit().
+ */
+export class Emitter<Events extends Record<string, unknown>> {
+  private readonly listeners = new Map<
+    keyof Events,
+    Set<Listener<Events[keyof Events]>>
+  >();
+
+  private readonly onError?: (error: unknown, event: keyof Events) => void;
+
+  constructor(onError?: (error: unknown, event: keyof Events) => void) {
+    this.onError = onError;
+  }
+
+  /**
+   * Register a listener; returns a function that removes it
+   */
+  on<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as Listener<Events[keyof Events]>);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Register a listener called at most once
+   */
+  once<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const listeners = this.listeners.get(event);
+    listeners?.delete(listener as Listener<Events[keyof Events]>);
+    if (listeners?.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Call every listener of an event with the payload
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      if (!this.onError) {
+        listener(payload);
+        continue;
+      }
+      try {
+        listener(payload);
+      } catch (error) {
+        this.onError(error, event);
+      }
+    }
+  }
+
+  /**
+   * Number of listeners registered for an event
+   */
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+}
@@ -0,0 +1,73 @@
+import { GradiumError } from "../errors";
+
+/**
+ * Splits a byte stream into fixed-size frames.
+ *
+ * Input chunks of any size are buffered until a full frame is available.
+ * Emitted frames are copies, so callers may reuse their input buffers.
+ */
+export class Framer {
+  private readonly frameBytes: number;
+  private pending: Uint8Array;
+  private filled = 0;
+
+  constructor(frameBytes: number) {
+    if (!Number.isInteger(frameBytes) || frameBytes <= 0) {
+      throw new GradiumError(`Invalid frame size: ${frameBytes}`);
+    }
+    this.frameBytes = frameBytes;
+    this.pending = new Uint8Array(frameBytes);
+  }
+
+  /**
+   * Number of buffered bytes not yet emitted
+   */
+  get buffered(): number {
+    return this.filled;
+  }
+
+  /**
+   * Buffer a chunk and return every frame it completes
+   */
+  push(chunk: Uint8Array): Uint8Array[] {
+    const frames: Uint8Array[] = [];
+    let offset = 0;
+
+    if (this.filled > 0) {
+      offset = Math.min(chunk.length, this.frameBytes - this.filled);
+      this.pending.set(chunk.subarray(0, offset), this.filled);
+      this.filled += offset;
+      if (this.filled < this.frameBytes) {
+        return frames;
+      }
+      frames.push(this.pending);
+      this.pending = new Uint8Array(this.frameBytes);
+      this.filled = 0;
+    }
+
+    while (chunk.length - offset >= this.frameBytes) {
+      frames.push(chunk.slice(offset, offset + this.frameBytes));
+      offset += this.frameBytes;
+    }
+
+    if (offset < chunk.length) {
+      this.pending.set(chunk.subarray(offset));
+      this.filled = chunk.length - offset;
+    }
+
+    return frames;
+  }
+
+  /**
+   * Return the buffered remainder zero-padded to a full frame, or null if empty
+   */
+  flush(): Uint8Array | null {
+    if (this.filled === 0) {
+      return null;
+    }
+    const frame = this.pending;
+    this.pending = new Uint8Array(this.frameBytes);
+    this.filled = 0;
+    return frame;
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  AbortError,
+  APIError,
+  ConnectionError,
+  RateLimitError,
+  TimeoutError,
+  WebSocketCloseError,
+} from "../errors";
+import type { RetryOptions } from "../types";
+import { throwIfAborted } from "./abort";
+
+/**
+ * Fully resolved retry policy
+ */
+export type RetryPolicy = Required<Omit<RetryOptions, "shouldRetry">> &
+  Pick<RetryOptions, "shouldRetry">;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelay: 500,
+  maxDelay: 8000,
+  jitter: 0.25,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Resolve user retry options against the defaults.
+ * Passing `false` disables retries entirely.
+ */
+export function resolveRetryPolicy(
+  options?: RetryOptions | false
+): RetryPolicy {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxRetries: 0 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...options };
+}
+
+/**
+ * Whether an error is transient according to the policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof APIError) {
+    return policy.retryableStatuses.includes(error.status);
+  }
+  return error instanceof ConnectionError || error instanceof TimeoutError;
+}
+
+/**
+ * Close codes of connections that dropped or that the server closed on a
+ * transient condition (going away, internal error, restart, overload)
+ */
+const RETRYABLE_CLOSE_CODES = [1001, 1006, 1011, 1012, 1013, 1014];
+
+/**
+ * Policy for retrying whole streaming sessions: the client policy with its own
+ * retry count, also retrying sessions that drop mid-stream (which close with
+ * a WebSocketCloseError). Errors the server reports, such as an unknown voice,
+ * fail every attempt and are not retried.
+ */
+export function sessionRetryPolicy(
+  policy: RetryPolicy,
+  maxRetries: number
+): RetryPolicy {
+  return {
+    ...policy,
+    maxRetries,
+    shouldRetry: (error) =>
+      isRetryableError(error, policy) ||
+      (error instanceof WebSocketCloseError &&
+        RETRYABLE_CLOSE_CODES.includes(error.code ?? 0)),
+  };
+}
+
+/**
+ * Policy for requests that may have taken effect even though they failed,
+ * such as a POST that timed out: only retried when rate limited, since the
+ * server then rejected them without processing
+ */
+export function nonIdempotentRetryPolicy(policy: RetryPolicy): RetryPolicy {
+  return {
+    ...policy,
+    shouldRetry: (error, attempt) =>
+      error instanceof RateLimitError &&
+      (policy.shouldRetry?.(error, attempt) ?? isRetryableError(error, policy)),
+  };
+}
+
+/**
+ * Compute the delay before the next attempt (attempt is 0-based).
+ * Honors `RateLimitError.retryAfter` when the server provides it, even
+ * beyond `maxDelay`; withRetry() gives up on such delays.
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy
+): number {
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return error.retryAfter * 1000;
+  }
+
+  const exponential = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * 2 ** attempt
+  );
+  return exponential * (1 - policy.jitter * Math.random());
+}
+
+/**
+ * Wait for the given number of milliseconds, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new AbortError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an async operation, retrying transient failures with exponential backoff
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const retryable = policy.shouldRetry
+        ? policy.shouldRetry(error, attempt)
+        : isRetryableError(error, policy);
+
+      // A server asking to wait longer than the policy allows is not retried
+      const delay = getRetryDelay(error, attempt, policy);
+      if (
+        attempt >= policy.maxRetries ||
+        !retryable ||
+        delay > policy.maxDelay
+      ) {
+        throw error;
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+}